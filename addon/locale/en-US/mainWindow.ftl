@@ -43,3 +43,27 @@ llm-action-limitations = Limitations
 llm-action-future = Future Work
 llm-action-clear = Clear Chat
 llm-action-copy = Copy to clipboard
+
+# Group Conversations
+llm-menu-ask-selected = Ask LLM about Selected Items
+llm-menu-ask-collection = Ask LLM about Collection
+llm-menu-search-history = Search LLM Chat History…
+llm-group-selection-label = { $count } selected items
+llm-group-too-few = Select at least two items with PDFs to start a group conversation
+llm-group-truncated = Only the first { $count } papers are included in the group
+llm-group-failed = Could not start the group conversation
+
+# Batch Jobs
+llm-menu-batch-shortcut = Run LLM Shortcut on Collection…
+llm-menu-batch-pause = Pause LLM Batch Job
+llm-menu-batch-resume = Resume LLM Batch Job
+llm-menu-batch-cancel = Cancel LLM Batch Job
+llm-menu-batch-retry = Retry Failed LLM Batch Items
+llm-batch-busy = Another batch job is still running
+llm-batch-no-items = This collection has no items with PDFs
+llm-batch-no-shortcuts = No shortcut with a prompt is available
+llm-batch-failed = { $failed } items failed; use “Retry Failed LLM Batch Items” to run them again
+
+# Data Extraction
+llm-menu-extract-data = Extract Data with LLM…
+llm-extract-no-items = Select items with PDFs to extract data from
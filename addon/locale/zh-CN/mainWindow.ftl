@@ -43,3 +43,27 @@ llm-action-limitations = 局限性
 llm-action-future = 未来方向
 llm-action-clear = 清空对话
 llm-action-copy = 复制到剪贴板
+
+# Group Conversations
+llm-menu-ask-selected = 向 LLM 询问所选条目
+llm-menu-ask-collection = 向 LLM 询问此分类
+llm-menu-search-history = 搜索 LLM 聊天记录…
+llm-group-selection-label = { $count } 个所选条目
+llm-group-too-few = 请至少选择两个带有 PDF 的条目以开始多文献对话
+llm-group-truncated = 仅前 { $count } 篇文献会加入此对话
+llm-group-failed = 无法开始多文献对话
+
+# Batch Jobs
+llm-menu-batch-shortcut = 对此分类批量运行 LLM 快捷指令…
+llm-menu-batch-pause = 暂停 LLM 批量任务
+llm-menu-batch-resume = 继续 LLM 批量任务
+llm-menu-batch-cancel = 取消 LLM 批量任务
+llm-menu-batch-retry = 重试失败的 LLM 批量条目
+llm-batch-busy = 另一个批量任务仍在运行
+llm-batch-no-items = 此分类中没有带 PDF 的条目
+llm-batch-no-shortcuts = 没有可用的快捷指令
+llm-batch-failed = { $failed } 个条目失败；使用“重试失败的 LLM 批量条目”重新运行
+
+# Data Extraction
+llm-menu-extract-data = 使用 LLM 提取数据…
+llm-extract-no-items = 请选择带有 PDF 的条目以提取数据
@@ -5,6 +5,11 @@ pref("apiKey", "");
 pref("model", "gpt-4o-mini");
 pref("systemPrompt", "");
 pref("showPopupAddText", true);
+pref("historyImageLimit", "4");
+pref("memoryMode", false);
+pref("memoryProfile", "secondary");
+pref("ocrProfile", "primary");
+pref("embeddingModel", "");
 pref("temperaturePrimary", "0.3");
 pref("maxTokensPrimary", "4096");
 pref("temperatureSecondary", "0.3");
@@ -20,6 +20,7 @@ class Addon {
       rows: Array<{ [dataKey: string]: string }>;
     };
     dialog?: DialogHelper;
+    notifierID?: string;
   };
   // Lifecycle hooks
   public hooks: typeof hooks;
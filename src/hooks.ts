@@ -4,8 +4,15 @@ import {
   registerReaderContextPanel,
   registerLLMStyles,
   registerReaderSelectionTracking,
+  registerGroupConversationMenus,
+  registerHistorySearchMenu,
+  registerBatchJobMenus,
+  registerExtractionMenu,
+  cancelBatchJob,
 } from "./modules/contextPanel";
 import { initChatStore } from "./utils/chatStore";
+import { initEmbeddingStore } from "./utils/embeddingStore";
+import { handleAttachmentNotify } from "./modules/contextPanel/pdfContext";
 import { runLegacyMigrations } from "./utils/migrations";
 import { createZToolkit } from "./utils/ztoolkit";
 
@@ -30,6 +37,13 @@ async function onStartup() {
     ztoolkit.log("LLM: Failed to initialize chat store", err);
   }
 
+  try {
+    await initEmbeddingStore();
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to initialize embedding store", err);
+  }
+
+  registerNotifier();
   registerPrefsPane();
 
   await Promise.all(
@@ -52,6 +66,10 @@ async function onMainWindowLoad(win: _ZoteroTypes.MainWindow): Promise<void> {
   registerLLMStyles(win);
   registerReaderContextPanel();
   registerReaderSelectionTracking();
+  registerGroupConversationMenus();
+  registerHistorySearchMenu();
+  registerBatchJobMenus();
+  registerExtractionMenu();
 }
 
 function registerPrefsPane() {
@@ -63,13 +81,36 @@ function registerPrefsPane() {
   });
 }
 
+function registerNotifier() {
+  const callback = {
+    notify: async (
+      event: string,
+      type: string,
+      ids: number[] | string[],
+      extraData: { [key: string]: any },
+    ) => {
+      if (!addon?.data.alive) {
+        Zotero.Notifier.unregisterObserver(notifierID);
+        return;
+      }
+      addon.hooks.onNotify(event, type, ids, extraData);
+    },
+  };
+  const notifierID = Zotero.Notifier.registerObserver(callback, ["item"]);
+  addon.data.notifierID = notifierID;
+}
+
 async function onMainWindowUnload(win: Window): Promise<void> {
   ztoolkit.unregisterAll();
   addon.data.dialog?.window?.close();
 }
 
 function onShutdown(): void {
+  cancelBatchJob();
   ztoolkit.unregisterAll();
+  if (addon.data.notifierID) {
+    Zotero.Notifier.unregisterObserver(addon.data.notifierID);
+  }
   addon.data.dialog?.window?.close();
   // Remove addon object
   addon.data.alive = false;
@@ -89,7 +130,9 @@ async function onNotify(
 ) {
   // You can add your code to the corresponding notify type
   ztoolkit.log("notify", event, type, ids, extraData);
-  return;
+  if (type === "item" && (event === "modify" || event === "delete")) {
+    await handleAttachmentNotify(event, ids);
+  }
 }
 
 /**
@@ -0,0 +1,65 @@
+/**
+ * Local files dropped or pasted into the question input. Images join the
+ * selected screenshots; text-like files are read and inlined into the
+ * question as context blocks.
+ */
+
+import {
+  ATTACHED_FILE_MAX_LENGTH,
+  ATTACHED_TEXT_FILE_EXTENSIONS,
+} from "./constants";
+import { optimizeImageDataUrl } from "./screenshot";
+import { sanitizeText } from "./textUtils";
+import type { AttachedFile } from "../../utils/chatStore";
+
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith("image/");
+}
+
+export function isTextFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return ATTACHED_TEXT_FILE_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+/** Whether a drag carries files rather than text or links */
+export function hasTransferFiles(transfer: DataTransfer | null): boolean {
+  return Array.from(transfer?.types || []).includes("Files");
+}
+
+/** Files of a drop or paste; clipboard images only show up as items */
+export function getTransferFiles(transfer: DataTransfer | null): File[] {
+  if (!transfer) return [];
+  const files = Array.from(transfer.files || []);
+  if (files.length) return files;
+  return Array.from(transfer.items || [])
+    .filter((entry) => entry.kind === "file")
+    .map((entry) => entry.getAsFile())
+    .filter((file): file is File => Boolean(file));
+}
+
+function readAsDataUrl(win: Window, file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const FileReaderCtor = (win as Window & { FileReader: typeof FileReader })
+      .FileReader;
+    const reader = new FileReaderCtor();
+    reader.onload = () => resolve(String(reader.result || ""));
+    reader.onerror = () =>
+      reject(reader.error || new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/** Image file as a data URL, scaled down like reader screenshots */
+export async function readImageFile(win: Window, file: File): Promise<string> {
+  return optimizeImageDataUrl(win, await readAsDataUrl(win, file));
+}
+
+export async function readTextFile(file: File): Promise<AttachedFile> {
+  const text = sanitizeText(await file.text());
+  const truncated = text.length > ATTACHED_FILE_MAX_LENGTH;
+  return {
+    name: file.name || "pasted.txt",
+    text: truncated ? text.slice(0, ATTACHED_FILE_MAX_LENGTH) : text,
+    truncated: truncated || undefined,
+  };
+}
@@ -0,0 +1,410 @@
+/**
+ * Batch shortcut jobs: run one shortcut prompt over every paper of a
+ * collection and save each answer as a child note.
+ *
+ * A single job runs at a time with a small worker pool. Pausing lets the
+ * requests in flight finish; cancelling aborts them. Items that failed
+ * can be retried afterwards without redoing the ones that succeeded.
+ */
+
+import { getString } from "../../utils/locale";
+import { callLLM } from "../../utils/llmClient";
+import { BATCH_JOB_CONCURRENCY, config } from "./constants";
+import { getAbortController } from "./chat";
+import { getContextAttachmentForItem } from "./contextResolution";
+import { buildContext, ensurePDFTextCached } from "./pdfContext";
+import { createNoteFromAssistantText } from "./notes";
+import {
+  getAdvancedModelParamsForProfile,
+  getApiProfiles,
+} from "./prefHelpers";
+import { loadVisibleShortcuts } from "./shortcuts";
+import { pdfTextCache } from "./state";
+import { sanitizeText } from "./textUtils";
+import type { ResolvedShortcut } from "./types";
+
+type BatchEntryStatus = "pending" | "running" | "done" | "failed";
+
+type BatchEntry = {
+  item: Zotero.Item;
+  status: BatchEntryStatus;
+  error?: string;
+};
+
+type BatchJob = {
+  label: string;
+  shortcut: ResolvedShortcut;
+  entries: BatchEntry[];
+  state: "running" | "paused" | "cancelled" | "finished";
+  abortController: AbortController | null;
+  resumeWaiters: Array<() => void>;
+  progress: any;
+};
+
+let currentJob: BatchJob | null = null;
+
+function isJobActive(job: BatchJob | null): boolean {
+  return job?.state === "running" || job?.state === "paused";
+}
+
+// A function, so that TypeScript does not narrow `state` across awaits.
+function isJobCancelled(job: BatchJob): boolean {
+  return job.state === "cancelled";
+}
+
+function countEntries(job: BatchJob, status: BatchEntryStatus): number {
+  return job.entries.filter((entry) => entry.status === status).length;
+}
+
+function describeJob(job: BatchJob): string {
+  const done = countEntries(job, "done");
+  const failed = countEntries(job, "failed");
+  const total = job.entries.length;
+  const parts = [`${job.shortcut.label}: ${done}/${total} done`];
+  if (failed) parts.push(`${failed} failed`);
+  if (job.state === "paused") parts.push("paused");
+  if (job.state === "cancelled") parts.push("cancelled");
+  return parts.join(", ");
+}
+
+function updateProgress(job: BatchJob): void {
+  const total = job.entries.length || 1;
+  const finished = countEntries(job, "done") + countEntries(job, "failed");
+  try {
+    job.progress.changeLine({
+      text: describeJob(job),
+      progress: Math.round((finished / total) * 100),
+    });
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to update batch progress", err);
+  }
+}
+
+function showBatchMessage(text: string, type: "default" | "fail" = "default") {
+  new ztoolkit.ProgressWindow(config.addonName, {
+    closeOnClick: true,
+    closeTime: 4000,
+  })
+    .createLine({ text, type })
+    .show();
+}
+
+/** Regular items of a collection that have a PDF to run the prompt on */
+function collectBatchItems(collection: Zotero.Collection): Zotero.Item[] {
+  return collection
+    .getChildItems(false, false)
+    .filter(
+      (item) =>
+        item.isRegularItem() && Boolean(getContextAttachmentForItem(item)),
+    );
+}
+
+function waitForResume(job: BatchJob): Promise<void> {
+  if (job.state !== "paused") return Promise.resolve();
+  return new Promise((resolve) => job.resumeWaiters.push(resolve));
+}
+
+function releaseWaiters(job: BatchJob): void {
+  const waiters = job.resumeWaiters.splice(0);
+  for (const resolve of waiters) resolve();
+}
+
+async function runBatchEntry(job: BatchJob, entry: BatchEntry): Promise<void> {
+  const contextItem = getContextAttachmentForItem(entry.item);
+  if (!contextItem) throw new Error("No PDF attachment");
+  const profile = getApiProfiles().primary;
+  const advanced = getAdvancedModelParamsForProfile("primary");
+  const overrides = { apiBase: profile.apiBase, apiKey: profile.apiKey };
+
+  await ensurePDFTextCached(contextItem);
+  const context = await buildContext(
+    pdfTextCache.get(contextItem.id),
+    job.shortcut.prompt,
+    false,
+    overrides,
+  );
+  const answer = await callLLM({
+    prompt: job.shortcut.prompt,
+    context,
+    signal: job.abortController?.signal,
+    model: profile.model,
+    ...overrides,
+    temperature: advanced.temperature,
+    maxTokens: advanced.maxTokens,
+    modelProfile: "primary",
+  });
+  const text = sanitizeText(answer).trim();
+  if (!text) throw new Error("Empty response");
+  await createNoteFromAssistantText(
+    entry.item,
+    `## ${job.shortcut.label}\n\n${text}`,
+    profile.model,
+  );
+}
+
+async function runBatchQueue(job: BatchJob): Promise<void> {
+  const AbortControllerCtor = getAbortController();
+  job.abortController = AbortControllerCtor ? new AbortControllerCtor() : null;
+  job.state = "running";
+  updateProgress(job);
+
+  const worker = async () => {
+    for (;;) {
+      await waitForResume(job);
+      if (isJobCancelled(job)) return;
+      const entry = job.entries.find((candidate) => {
+        return candidate.status === "pending";
+      });
+      if (!entry) return;
+      entry.status = "running";
+      try {
+        await runBatchEntry(job, entry);
+        entry.status = "done";
+        entry.error = undefined;
+      } catch (err) {
+        if (isJobCancelled(job)) {
+          entry.status = "pending";
+          return;
+        }
+        entry.status = "failed";
+        entry.error = err instanceof Error ? err.message : String(err);
+        ztoolkit.log(`LLM: Batch item ${entry.item.id} failed`, err);
+      }
+      updateProgress(job);
+    }
+  };
+  const workerCount = Math.min(
+    BATCH_JOB_CONCURRENCY,
+    Math.max(1, countEntries(job, "pending")),
+  );
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+  if (!isJobCancelled(job)) job.state = "finished";
+  job.abortController = null;
+  updateProgress(job);
+  job.progress.startCloseTimer(8000);
+  const failed = countEntries(job, "failed");
+  if (failed && !isJobCancelled(job)) {
+    showBatchMessage(getString("llm-batch-failed", { args: { failed } }));
+  }
+}
+
+function startProgressWindow(job: BatchJob): void {
+  job.progress = new ztoolkit.ProgressWindow(
+    `${config.addonName}: ${job.label}`,
+    { closeOnClick: false, closeTime: -1 },
+  )
+    .createLine({ text: describeJob(job), progress: 0 })
+    .show();
+}
+
+async function openBatchShortcutDialog(
+  shortcuts: ResolvedShortcut[],
+  collectionName: string,
+  itemCount: number,
+): Promise<ResolvedShortcut | null> {
+  const dialogData: { [key: string]: any } = {
+    shortcutId: shortcuts[0]?.id || "",
+    loadCallback: () => {
+      return;
+    },
+    unloadCallback: () => {
+      return;
+    },
+  };
+
+  const dialog = new ztoolkit.Dialog(2, 1)
+    .addCell(0, 0, {
+      tag: "div",
+      namespace: "html",
+      properties: {
+        textContent: `Run a shortcut on ${itemCount} paper${
+          itemCount === 1 ? "" : "s"
+        } in “${collectionName}”. Each answer is saved as a child note.`,
+      },
+      styles: {
+        width: "320px",
+        lineHeight: "1.45",
+        marginBottom: "8px",
+      },
+    })
+    .addCell(
+      1,
+      0,
+      {
+        tag: "select",
+        namespace: "html",
+        id: "llm-batch-shortcut-select",
+        attributes: {
+          "data-bind": "shortcutId",
+          "data-prop": "value",
+        },
+        styles: {
+          width: "320px",
+        },
+        children: shortcuts.map((shortcut) => ({
+          tag: "option",
+          namespace: "html",
+          attributes: { value: shortcut.id },
+          properties: { textContent: shortcut.label },
+        })),
+      },
+      false,
+    )
+    .addButton("Run", "run")
+    .addButton("Cancel", "cancel")
+    .setDialogData(dialogData)
+    .open("Run Shortcut on Collection");
+
+  addon.data.dialog = dialog;
+  await dialogData.unloadLock.promise;
+  addon.data.dialog = undefined;
+
+  if (dialogData._lastButtonId !== "run") return null;
+  return (
+    shortcuts.find((shortcut) => shortcut.id === dialogData.shortcutId) || null
+  );
+}
+
+export async function startBatchShortcutJob(
+  collection: Zotero.Collection,
+): Promise<void> {
+  if (isJobActive(currentJob)) {
+    showBatchMessage(getString("llm-batch-busy"), "fail");
+    return;
+  }
+  const items = collectBatchItems(collection);
+  if (!items.length) {
+    showBatchMessage(getString("llm-batch-no-items"), "fail");
+    return;
+  }
+  const shortcuts = (await loadVisibleShortcuts()).filter(
+    (shortcut) => shortcut.prompt,
+  );
+  if (!shortcuts.length) {
+    showBatchMessage(getString("llm-batch-no-shortcuts"), "fail");
+    return;
+  }
+  const shortcut = await openBatchShortcutDialog(
+    shortcuts,
+    collection.name,
+    items.length,
+  );
+  if (!shortcut || isJobActive(currentJob)) return;
+
+  const job: BatchJob = {
+    label: collection.name,
+    shortcut,
+    entries: items.map((item) => ({ item, status: "pending" })),
+    state: "running",
+    abortController: null,
+    resumeWaiters: [],
+    progress: null,
+  };
+  currentJob = job;
+  startProgressWindow(job);
+  await runBatchQueue(job);
+}
+
+export function pauseBatchJob(): void {
+  if (currentJob?.state !== "running") return;
+  currentJob.state = "paused";
+  updateProgress(currentJob);
+}
+
+export function resumeBatchJob(): void {
+  if (currentJob?.state !== "paused") return;
+  currentJob.state = "running";
+  releaseWaiters(currentJob);
+  updateProgress(currentJob);
+}
+
+export function cancelBatchJob(): void {
+  const job = currentJob;
+  if (!job || !isJobActive(job)) return;
+  job.state = "cancelled";
+  job.abortController?.abort();
+  releaseWaiters(job);
+}
+
+function hasRetryableEntries(job: BatchJob | null): job is BatchJob {
+  return Boolean(
+    job &&
+    !isJobActive(job) &&
+    job.entries.some(
+      (entry) => entry.status === "failed" || entry.status === "pending",
+    ),
+  );
+}
+
+/**
+ * Run the items of the last job that failed (or that a cancel left
+ * unprocessed) again; items that already have their note are skipped.
+ */
+export async function retryFailedBatchItems(): Promise<void> {
+  const job = currentJob;
+  if (!hasRetryableEntries(job)) return;
+  for (const entry of job.entries) {
+    if (entry.status !== "failed") continue;
+    entry.status = "pending";
+    entry.error = undefined;
+  }
+  startProgressWindow(job);
+  await runBatchQueue(job);
+}
+
+export function registerBatchJobMenus(): void {
+  const icon = `chrome://${config.addonRef}/content/icons/icon-20.png`;
+  ztoolkit.Menu.register("collection", {
+    tag: "menuitem",
+    id: `${config.addonRef}-batch-shortcut`,
+    label: getString("llm-menu-batch-shortcut"),
+    icon,
+    getVisibility: () =>
+      Boolean(Zotero.getActiveZoteroPane()?.getSelectedCollection()),
+    isDisabled: () => isJobActive(currentJob),
+    commandListener: () => {
+      const collection = Zotero.getActiveZoteroPane()?.getSelectedCollection();
+      if (!collection) return;
+      void startBatchShortcutJob(collection).catch((err) =>
+        ztoolkit.log("LLM: Batch shortcut job failed", err),
+      );
+    },
+  });
+
+  // Job controls are offered both on collections and in the Tools menu.
+  for (const menu of ["collection", "menuTools"] as const) {
+    ztoolkit.Menu.register(menu, {
+      tag: "menuitem",
+      id: `${config.addonRef}-batch-pause-${menu}`,
+      label: getString("llm-menu-batch-pause"),
+      getVisibility: () => currentJob?.state === "running",
+      commandListener: () => pauseBatchJob(),
+    });
+    ztoolkit.Menu.register(menu, {
+      tag: "menuitem",
+      id: `${config.addonRef}-batch-resume-${menu}`,
+      label: getString("llm-menu-batch-resume"),
+      getVisibility: () => currentJob?.state === "paused",
+      commandListener: () => resumeBatchJob(),
+    });
+    ztoolkit.Menu.register(menu, {
+      tag: "menuitem",
+      id: `${config.addonRef}-batch-cancel-${menu}`,
+      label: getString("llm-menu-batch-cancel"),
+      getVisibility: () => isJobActive(currentJob),
+      commandListener: () => cancelBatchJob(),
+    });
+    ztoolkit.Menu.register(menu, {
+      tag: "menuitem",
+      id: `${config.addonRef}-batch-retry-${menu}`,
+      label: getString("llm-menu-batch-retry"),
+      getVisibility: () => hasRetryableEntries(currentJob),
+      commandListener: () => {
+        void retryFailedBatchItems().catch((err) =>
+          ztoolkit.log("LLM: Batch retry failed", err),
+        );
+      },
+    });
+  }
+}
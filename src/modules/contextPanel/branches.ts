@@ -0,0 +1,163 @@
+/**
+ * Conversation branches.
+ *
+ * Messages form a tree through their `parentId`: editing a question or
+ * regenerating an answer adds a sibling instead of replacing the original.
+ * `chatHistory` holds the active branch, which follows the selected reply
+ * of every message (the newest one unless the user switched).
+ */
+
+import {
+  branchSelections,
+  chatHistory,
+  conversationMessages,
+  pendingMessageEdits,
+} from "./state";
+import type { Message } from "./types";
+
+const ROOT_PARENT_KEY = 0;
+
+let nextLocalMessageId = -1;
+
+function getParentKey(message: Message, knownIds: Set<number>): number {
+  const parentId = message.parentId;
+  return typeof parentId === "number" && knownIds.has(parentId)
+    ? parentId
+    : ROOT_PARENT_KEY;
+}
+
+function groupByParent(messages: Message[]): Map<number, Message[]> {
+  const knownIds = new Set<number>();
+  for (const message of messages) {
+    if (typeof message.id === "number") knownIds.add(message.id);
+  }
+  const children = new Map<number, Message[]>();
+  for (const message of messages) {
+    const parentKey = getParentKey(message, knownIds);
+    const siblings = children.get(parentKey);
+    if (siblings) siblings.push(message);
+    else children.set(parentKey, [message]);
+  }
+  return children;
+}
+
+/** Recompute the active branch of a conversation into `chatHistory` */
+export function rebuildActiveBranch(conversationKey: number): Message[] {
+  const messages = conversationMessages.get(conversationKey) || [];
+  const selections = branchSelections.get(conversationKey);
+  const children = groupByParent(messages);
+  const path: Message[] = [];
+  let parentKey = ROOT_PARENT_KEY;
+  while (path.length < messages.length) {
+    const siblings = children.get(parentKey);
+    if (!siblings?.length) break;
+    const selected = selections?.get(parentKey);
+    const next =
+      selected && siblings.includes(selected)
+        ? selected
+        : siblings[siblings.length - 1];
+    path.push(next);
+    if (typeof next.id !== "number") break;
+    parentKey = next.id;
+  }
+  chatHistory.set(conversationKey, path);
+  return path;
+}
+
+export function setConversationMessages(
+  conversationKey: number,
+  messages: Message[],
+): void {
+  conversationMessages.set(conversationKey, messages);
+  branchSelections.delete(conversationKey);
+  rebuildActiveBranch(conversationKey);
+}
+
+export function resetConversationBranches(conversationKey: number): void {
+  conversationMessages.delete(conversationKey);
+  branchSelections.delete(conversationKey);
+  pendingMessageEdits.delete(conversationKey);
+}
+
+/**
+ * Add a message to the conversation tree and make it the selected reply of
+ * its parent. Messages get a local (negative) id until they are persisted.
+ */
+export function addConversationMessage(
+  conversationKey: number,
+  message: Message,
+  limit: number,
+): void {
+  if (typeof message.id !== "number") message.id = nextLocalMessageId--;
+  let messages = conversationMessages.get(conversationKey);
+  if (!messages) {
+    messages = [];
+    conversationMessages.set(conversationKey, messages);
+  }
+  messages.push(message);
+  if (messages.length > limit) {
+    messages.splice(0, messages.length - limit);
+  }
+  selectBranch(conversationKey, message);
+}
+
+/** Replace a local id with the stored row id, keeping links intact */
+export function setMessageId(
+  conversationKey: number,
+  message: Message,
+  id: number,
+): void {
+  const previousId = message.id;
+  message.id = id;
+  if (typeof previousId !== "number" || previousId === id) return;
+  for (const other of conversationMessages.get(conversationKey) || []) {
+    if (other.parentId === previousId) other.parentId = id;
+  }
+  const selections = branchSelections.get(conversationKey);
+  const selected = selections?.get(previousId);
+  if (selections && selected) {
+    selections.delete(previousId);
+    selections.set(id, selected);
+  }
+}
+
+/** Messages sharing the parent of `message`, oldest first */
+export function getSiblingMessages(
+  conversationKey: number,
+  message: Message,
+): Message[] {
+  const messages = conversationMessages.get(conversationKey) || [];
+  const children = groupByParent(messages);
+  for (const siblings of children.values()) {
+    if (siblings.includes(message)) return siblings;
+  }
+  return [message];
+}
+
+export function selectBranch(conversationKey: number, message: Message): void {
+  const messages = conversationMessages.get(conversationKey) || [];
+  const knownIds = new Set<number>();
+  for (const other of messages) {
+    if (typeof other.id === "number") knownIds.add(other.id);
+  }
+  let selections = branchSelections.get(conversationKey);
+  if (!selections) {
+    selections = new Map<number, Message>();
+    branchSelections.set(conversationKey, selections);
+  }
+  selections.set(getParentKey(message, knownIds), message);
+  rebuildActiveBranch(conversationKey);
+}
+
+/** Switch `message` to its previous (-1) or next (+1) sibling */
+export function switchBranch(
+  conversationKey: number,
+  message: Message,
+  direction: -1 | 1,
+): boolean {
+  const siblings = getSiblingMessages(conversationKey, message);
+  const target = siblings[siblings.indexOf(message) + direction];
+  if (!target) return false;
+  selectBranch(conversationKey, target);
+  return true;
+}
@@ -2,8 +2,11 @@ import { createElement } from "../../utils/domHelpers";
 import {
   SELECT_TEXT_EXPANDED_LABEL,
   SCREENSHOT_EXPANDED_LABEL,
+  FIGURES_EXPANDED_LABEL,
 } from "./constants";
 import type { ActionDropdownSpec } from "./types";
+import { getActiveGroupConversation } from "./groupConversation";
+import { isMemoryModeEnabled } from "./memory";
 
 function createActionDropdown(doc: Document, spec: ActionDropdownSpec) {
   const slot = createElement(
@@ -66,14 +69,132 @@ function buildUI(body: Element, item?: Zotero.Item | null) {
     title: "Export",
     disabled: !hasItem,
   });
+  const historyBtn = createElement(doc, "button", "llm-btn-icon", {
+    id: "llm-history-search",
+    type: "button",
+    textContent: "⌕",
+    title: "Search chat history",
+  });
   const clearBtn = createElement(doc, "button", "llm-btn-icon", {
     id: "llm-clear",
     type: "button",
     textContent: "Clear",
   });
-  headerActions.append(exportBtn, clearBtn);
+  headerActions.append(historyBtn, exportBtn, clearBtn);
   headerTop.appendChild(headerActions);
   header.appendChild(headerTop);
+
+  // Thread picker (options are filled in by renderThreadPicker)
+  if (hasItem) {
+    const threadBar = createElement(doc, "div", "llm-thread-bar", {
+      id: "llm-thread-bar",
+    });
+    const threadSelect = createElement(doc, "select", "llm-thread-select", {
+      id: "llm-thread-select",
+      title: "Conversation thread",
+    });
+    const threadNewBtn = createElement(doc, "button", "llm-btn-icon", {
+      id: "llm-thread-new",
+      type: "button",
+      textContent: "+",
+      title: "New thread",
+    });
+    const threadRenameBtn = createElement(doc, "button", "llm-btn-icon", {
+      id: "llm-thread-rename",
+      type: "button",
+      textContent: "✎",
+      title: "Rename thread",
+      disabled: true,
+    });
+    const threadDeleteBtn = createElement(doc, "button", "llm-btn-icon", {
+      id: "llm-thread-delete",
+      type: "button",
+      textContent: "🗑",
+      title: "Delete thread",
+      disabled: true,
+    });
+    // Options are filled in by renderRetrievalPicker
+    const retrievalSelect = createElement(
+      doc,
+      "select",
+      "llm-thread-select llm-retrieval-select",
+      { id: "llm-retrieval-select" },
+    );
+    threadBar.append(
+      threadSelect,
+      retrievalSelect,
+      threadNewBtn,
+      threadRenameBtn,
+      threadDeleteBtn,
+    );
+    if (isMemoryModeEnabled()) {
+      threadBar.appendChild(
+        createElement(doc, "button", "llm-btn-icon", {
+          id: "llm-thread-memory",
+          type: "button",
+          textContent: "🧠",
+          title: "Conversation summary",
+          disabled: true,
+        }),
+      );
+    }
+    header.appendChild(threadBar);
+  }
+
+  // Group conversation banner
+  const group = getActiveGroupConversation(item);
+  if (group) {
+    const groupBanner = createElement(doc, "div", "llm-group-banner", {
+      id: "llm-group-banner",
+    });
+    const groupLabel = createElement(doc, "span", "llm-group-banner-label", {
+      textContent: `Group: ${group.label} · ${group.itemIds.length} papers`,
+      title: "Questions use excerpts from every paper in the group",
+    });
+    const groupLeaveBtn = createElement(doc, "button", "llm-btn-icon", {
+      id: "llm-group-leave",
+      type: "button",
+      textContent: "✕",
+      title: "Leave group conversation",
+    });
+    groupBanner.append(groupLabel, groupLeaveBtn);
+    header.appendChild(groupBanner);
+  }
+
+  // Section picker (filled in by renderSectionPicker once the text is loaded)
+  if (hasItem) {
+    const sectionBar = createElement(doc, "div", "llm-thread-bar", {
+      id: "llm-section-bar",
+    });
+    sectionBar.style.display = "none";
+    const sectionSelect = createElement(doc, "select", "llm-thread-select", {
+      id: "llm-section-select",
+      title: "Questions use the whole paper",
+    });
+    sectionBar.appendChild(sectionSelect);
+    header.appendChild(sectionBar);
+  }
+
+  // Scanned PDF notice (shown by updateOcrNotice once the text is loaded)
+  if (hasItem) {
+    const ocrNotice = createElement(doc, "div", "llm-group-banner", {
+      id: "llm-ocr-notice",
+    });
+    ocrNotice.style.display = "none";
+    const ocrLabel = createElement(doc, "span", "llm-group-banner-label", {
+      textContent: "Scanned PDF: no text to answer from",
+      title:
+        "The PDF has no text layer. Its pages can be transcribed by a vision model.",
+    });
+    const ocrBtn = createElement(doc, "button", "llm-btn-icon", {
+      id: "llm-ocr-transcribe",
+      type: "button",
+      textContent: "Transcribe",
+      title: "Transcribe the pages with the vision model set in preferences",
+    });
+    ocrNotice.append(ocrLabel, ocrBtn);
+    header.appendChild(ocrNotice);
+  }
   container.appendChild(header);
 
   // Chat display area
@@ -82,6 +203,13 @@ function buildUI(body: Element, item?: Zotero.Item | null) {
   });
   container.appendChild(chatBox);
 
+  // Library search results (shown in place of the chat by `/search`)
+  const searchResults = createElement(doc, "div", "llm-search-results", {
+    id: "llm-search-results",
+  });
+  searchResults.style.display = "none";
+  container.appendChild(searchResults);
+
   // Shortcuts row
   const shortcutsRow = createElement(doc, "div", "llm-shortcuts", {
     id: "llm-shortcuts",
@@ -152,9 +280,43 @@ function buildUI(body: Element, item?: Zotero.Item | null) {
       textContent: "Save as note",
     },
   );
-  responseMenu.append(responseMenuCopyBtn, responseMenuNoteBtn);
+  const responseMenuHighlightBtn = createElement(
+    doc,
+    "button",
+    "llm-response-menu-item",
+    {
+      id: "llm-response-menu-highlight",
+      type: "button",
+      textContent: "Highlight in PDF",
+      title: "Highlight the quoted passages in the PDF",
+    },
+  );
+  const responseMenuReferencesBtn = createElement(
+    doc,
+    "button",
+    "llm-response-menu-item",
+    {
+      id: "llm-response-menu-references",
+      type: "button",
+      textContent: "Add cited works to Zotero",
+      title: "Look up the references cited in this answer or its question",
+    },
+  );
+  responseMenu.append(
+    responseMenuCopyBtn,
+    responseMenuNoteBtn,
+    responseMenuHighlightBtn,
+    responseMenuReferencesBtn,
+  );
   container.appendChild(responseMenu);
 
+  // Cited works of an answer (filled in when the menu opens)
+  const referenceMenu = createElement(doc, "div", "llm-response-menu", {
+    id: "llm-reference-menu",
+  });
+  referenceMenu.style.display = "none";
+  container.appendChild(referenceMenu);
+
   // Export menu
   const exportMenu = createElement(doc, "div", "llm-response-menu", {
     id: "llm-export-menu",
@@ -296,6 +458,13 @@ function buildUI(body: Element, item?: Zotero.Item | null) {
   imagePreview.append(imagePreviewMeta, imagePreviewExpanded);
   inputSection.appendChild(imagePreview);
 
+  // Text files dropped or pasted into the input
+  const filePreview = createElement(doc, "div", "llm-file-preview", {
+    id: "llm-file-preview",
+  });
+  filePreview.style.display = "none";
+  inputSection.appendChild(filePreview);
+
   const inputBox = createElement(doc, "textarea", "llm-input", {
     id: "llm-input",
     placeholder: hasItem
@@ -339,6 +508,23 @@ function buildUI(body: Element, item?: Zotero.Item | null) {
   const screenshotSlot = createElement(doc, "div", "llm-action-slot");
   screenshotSlot.appendChild(screenshotBtn);
 
+  // Figures picker: figures and tables detected from their captions
+  const { slot: figuresDropdown, button: figuresBtn } = createActionDropdown(
+    doc,
+    {
+      slotId: "llm-figures-dropdown",
+      slotClassName: "llm-figures-dropdown",
+      buttonId: "llm-figures",
+      buttonClassName:
+        "llm-shortcut-btn llm-action-btn llm-action-btn-secondary llm-figures-btn",
+      buttonText: FIGURES_EXPANDED_LABEL,
+      menuId: "llm-figures-menu",
+      menuClassName: "llm-figures-menu",
+      disabled: !hasItem,
+    },
+  );
+  figuresBtn.title = "Attach a figure or table of this paper";
+
   const {
     slot: modelDropdown,
     button: modelBtn,
@@ -403,6 +589,7 @@ function buildUI(body: Element, item?: Zotero.Item | null) {
   actionsLeft.append(
     selectTextSlot,
     screenshotSlot,
+    figuresDropdown,
     modelDropdown,
     reasoningDropdown,
   );
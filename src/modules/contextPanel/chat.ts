@@ -5,25 +5,47 @@ import {
   loadConversation,
   pruneConversation,
   StoredChatMessage,
+  type AttachedFile,
 } from "../../utils/chatStore";
 import {
   callLLMStream,
   ChatMessage,
   getRuntimeReasoningOptions,
+  getSystemPrompt,
+  ImageContent,
   ReasoningConfig as LLMReasoningConfig,
   ReasoningEvent,
   ReasoningLevel as LLMReasoningLevel,
+  TextContent,
+  TokenUsage,
 } from "../../utils/llmClient";
+import {
+  estimateCost,
+  formatCost,
+  formatUsage,
+  getModelPrices,
+  type ModelPrice,
+} from "../../utils/usage";
+import {
+  allocatePromptBudget,
+  estimateMessageTokens,
+  fitHistoryToBudget,
+  getContextWindow,
+  getHistoryBudget,
+} from "../../utils/tokenBudget";
+import { isLocalBase } from "../../utils/apiHelpers";
+import { getLocalModelContextLength } from "../../utils/localModels";
 import {
   PERSISTED_HISTORY_LIMIT,
-  MAX_HISTORY_MESSAGES,
   AUTO_SCROLL_BOTTOM_THRESHOLD,
   MAX_SELECTED_IMAGES,
+  MAX_ATTACHED_FILES,
   MODEL_PROFILE_ORDER,
   type ModelProfileKey,
 } from "./constants";
 import type {
   Message,
+  QuestionBranchTarget,
   ReasoningProviderKind,
   ReasoningOption,
   ReasoningLevelSelection,
@@ -44,29 +66,131 @@ import {
   selectedImageCache,
   selectedTextCache,
   pdfTextCache,
+  pendingMessageEdits,
+  sentScreenshotImages,
 } from "./state";
+import {
+  generateThreadTitle,
+  getActiveThreadId,
+  getOrCreateActiveThreadId,
+  renderThreadPicker,
+} from "./threads";
+import {
+  addConversationMessage,
+  getSiblingMessages,
+  setConversationMessages,
+  setMessageId,
+} from "./branches";
 import {
   sanitizeText,
   formatTime,
   setStatus,
   getSelectedTextWithinBubble,
+  buildQuestionWithAttachedFiles,
 } from "./textUtils";
 import { positionMenuAtPointer } from "./menuPositioning";
 import {
   getSelectedProfileForItem,
   getAdvancedModelParamsForProfile,
   getApiProfiles,
+  getHistoryImageLimit,
   getStringPref,
 } from "./prefHelpers";
-import { buildContext, ensurePDFTextCached } from "./pdfContext";
+import {
+  buildContext,
+  buildGroupContext,
+  ensurePDFTextCached,
+} from "./pdfContext";
+import { updateOcrNotice } from "./ocr";
+import { getRetrievalModeOverride } from "./retrieval";
+import { getPinnedSection, renderSectionPicker } from "./sections";
+import { formatCitedReferences } from "./references";
+import { isScreenshotUnsupportedModel } from "./screenshot";
 import {
   getActiveContextAttachmentFromTabs,
   resolveContextSourceItem,
 } from "./contextResolution";
 import { buildChatHistoryNotePayload } from "./notes";
+import {
+  getThreadMemory,
+  isMemoryModeEnabled,
+  updateConversationMemory,
+} from "./memory";
+import {
+  getActiveGroupConversation,
+  resolveGroupPapers,
+} from "./groupConversation";
+
+/** Context windows reported by local servers, keyed by base and model */
+const localContextWindows = new Map<string, number | null>();
+
+async function resolveContextWindow(
+  model: string,
+  apiBase: string,
+): Promise<number> {
+  if (!apiBase || !isLocalBase(apiBase)) return getContextWindow(model);
+  const key = `${apiBase}\n${model}`;
+  if (!localContextWindows.has(key)) {
+    localContextWindows.set(
+      key,
+      await getLocalModelContextLength(apiBase, model),
+    );
+  }
+  return getContextWindow(model, localContextWindows.get(key));
+}
+
+/**
+ * Pick the screenshots of earlier user messages that are sent again with a
+ * question, newest first up to the configured limit. Returns the indexes
+ * of the chosen images per message; none for models without image input.
+ */
+function selectHistoryImages(
+  history: Message[],
+  modelName: string,
+): Map<Message, number[]> {
+  const selected = new Map<Message, number[]>();
+  if (isScreenshotUnsupportedModel(modelName)) return selected;
+  let remaining = getHistoryImageLimit();
+  for (let i = history.length - 1; i >= 0 && remaining > 0; i--) {
+    const msg = history[i];
+    if (msg.role !== "user") continue;
+    const imageCount = (msg.screenshotImages || []).filter(Boolean).length;
+    const indexes: number[] = [];
+    for (let index = imageCount - 1; index >= 0 && remaining > 0; index--) {
+      indexes.unshift(index);
+      remaining--;
+    }
+    if (indexes.length) selected.set(msg, indexes);
+  }
+  return selected;
+}
+
+/** Text of a history message, with the files attached to it */
+function getHistoryText(msg: Message): string {
+  return msg.role === "user" && msg.attachedFiles?.length
+    ? buildQuestionWithAttachedFiles(msg.text, msg.attachedFiles)
+    : msg.text;
+}
+
+function toHistoryChatMessage(
+  msg: Message,
+  imageIndexes: number[] | undefined,
+): ChatMessage {
+  const text = getHistoryText(msg);
+  if (!imageIndexes?.length) return { role: msg.role, content: text };
+  const images = (msg.screenshotImages || []).filter(Boolean);
+  const content: (TextContent | ImageContent)[] = [{ type: "text", text }];
+  for (const index of imageIndexes) {
+    content.push({
+      type: "image_url",
+      image_url: { url: images[index], detail: "high" },
+    });
+  }
+  return { role: msg.role, content };
+}
 
 /** Get AbortController constructor from global scope */
-function getAbortController(): new () => AbortController {
+export function getAbortController(): new () => AbortController {
   return (
     (ztoolkit.getGlobal("AbortController") as new () => AbortController) ||
     (
@@ -87,6 +211,10 @@ function appendReasoningPart(
 }
 
 export function getConversationKey(item: Zotero.Item): number {
+  const group = getActiveGroupConversation(item);
+  if (group) {
+    return group.conversationKey;
+  }
   if (item.isAttachment() && item.parentID) {
     return item.parentID;
   }
@@ -302,20 +430,48 @@ export function persistChatScrollSnapshotFromBody(body: Element): void {
 async function persistConversationMessage(
   conversationKey: number,
   message: StoredChatMessage,
-): Promise<void> {
+): Promise<number | null> {
   try {
-    await appendStoredMessage(conversationKey, message);
-    await pruneConversation(conversationKey, PERSISTED_HISTORY_LIMIT);
+    const id = await appendStoredMessage(conversationKey, message);
+    if (message.threadId) {
+      await pruneConversation(
+        conversationKey,
+        message.threadId,
+        PERSISTED_HISTORY_LIMIT,
+      );
+    }
+    return id;
   } catch (err) {
     ztoolkit.log("LLM: Failed to persist chat message", err);
+    return null;
   }
 }
 
+/**
+ * Active thread of the conversation, created when there is none. Tried
+ * twice; messages are never stored without a thread.
+ */
+async function openThreadForSend(
+  conversationKey: number,
+): Promise<number | null> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const threadId = await getOrCreateActiveThreadId(conversationKey);
+      if (threadId) return threadId;
+    } catch (err) {
+      ztoolkit.log("LLM: Failed to open chat thread", err);
+    }
+  }
+  return null;
+}
+
 function toPanelMessage(message: StoredChatMessage): Message {
   const screenshotImages = Array.isArray(message.screenshotImages)
     ? message.screenshotImages.filter((entry) => Boolean(entry))
     : undefined;
   return {
+    id: message.id,
+    parentId: message.parentId ?? null,
     role: message.role,
     text: message.text,
     timestamp: message.timestamp,
@@ -324,10 +480,13 @@ function toPanelMessage(message: StoredChatMessage): Message {
     screenshotImages,
     screenshotExpanded: false,
     screenshotActiveIndex: screenshotImages?.length ? 0 : undefined,
+    attachedFiles: message.attachedFiles,
     modelName: message.modelName,
     reasoningSummary: message.reasoningSummary,
     reasoningDetails: message.reasoningDetails,
     reasoningOpen: false,
+    usage: message.usage,
+    modelProfile: message.modelProfile,
   };
 }
 
@@ -350,11 +509,15 @@ export async function ensureConversationLoaded(
 
   const task = (async () => {
     try {
-      const storedMessages = await loadConversation(
-        conversationKey,
-        PERSISTED_HISTORY_LIMIT,
-      );
-      chatHistory.set(
+      const threadId = await getActiveThreadId(conversationKey);
+      const storedMessages = threadId
+        ? await loadConversation(
+            conversationKey,
+            threadId,
+            PERSISTED_HISTORY_LIMIT,
+          )
+        : [];
+      setConversationMessages(
         conversationKey,
         storedMessages.map((message) => toPanelMessage(message)),
       );
@@ -534,6 +697,8 @@ export async function sendQuestion(
   advanced?: AdvancedModelParams,
   displayQuestion?: string,
   selectedText?: string,
+  branch?: QuestionBranchTarget,
+  attachedFiles?: AttachedFile[],
 ) {
   const inputBox = body.querySelector(
     "#llm-input",
@@ -547,21 +712,42 @@ export async function sendQuestion(
   // Track this request
   const thisRequestId = nextRequestId();
 
+  const restoreInput = () => {
+    if (inputBox) {
+      inputBox.disabled = false;
+      inputBox.focus({ preventScroll: true });
+    }
+    if (sendBtn) {
+      sendBtn.style.display = "";
+      sendBtn.disabled = false;
+    }
+    if (cancelBtn) cancelBtn.style.display = "none";
+  };
+
   // Show cancel, hide send
   if (sendBtn) sendBtn.style.display = "none";
   if (cancelBtn) cancelBtn.style.display = "";
   if (inputBox) inputBox.disabled = true;
   if (status) setStatus(status, "Preparing request...", "sending");
 
-  await ensureConversationLoaded(item);
   const conversationKey = getConversationKey(item);
-
-  // Add user message with attached selected text / screenshots metadata
-  if (!chatHistory.has(conversationKey)) {
-    chatHistory.set(conversationKey, []);
+  const threadId = await openThreadForSend(conversationKey);
+  if (!threadId) {
+    if (status) {
+      setStatus(status, "Error: the chat thread could not be opened", "error");
+    }
+    restoreInput();
+    return;
   }
-  const history = chatHistory.get(conversationKey)!;
-  const historyForLLM = history.slice(-MAX_HISTORY_MESSAGES);
+  await ensureConversationLoaded(item);
+
+  // Edits and regenerations branch off before the message they replace,
+  // so only the messages above it are sent as history.
+  const history = chatHistory.get(conversationKey) || [];
+  const branchPoint = branch?.editOf || branch?.regenerateFor;
+  const branchIndex = branchPoint ? history.indexOf(branchPoint) : -1;
+  const priorHistory =
+    branchIndex >= 0 ? history.slice(0, branchIndex) : history.slice();
   const fallbackProfile = getSelectedProfileForItem(item.id);
   const effectiveModel = (
     model ||
@@ -587,54 +773,94 @@ export async function sendQuestion(
         .slice(0, MAX_SELECTED_IMAGES)
     : [];
   const imageCount = screenshotImagesForMessage.length;
+  const attachedFilesForMessage = (attachedFiles || [])
+    .filter((file) => Boolean(file?.name))
+    .slice(0, MAX_ATTACHED_FILES);
+  // File contents go to the model only; the chat shows the file names.
+  const promptQuestion = buildQuestionWithAttachedFiles(
+    question,
+    attachedFilesForMessage,
+  );
   const userMessageText = shownQuestion;
-  const userMessage: Message = {
-    role: "user",
-    text: userMessageText,
-    timestamp: Date.now(),
-    selectedText: selectedTextForMessage || undefined,
-    selectedTextExpanded: false,
-    screenshotImages: screenshotImagesForMessage.length
-      ? screenshotImagesForMessage
-      : undefined,
-    screenshotExpanded: false,
-    screenshotActiveIndex: 0,
-  };
-  history.push(userMessage);
-  await persistConversationMessage(conversationKey, {
-    role: "user",
-    text: userMessage.text,
-    timestamp: userMessage.timestamp,
-    selectedText: userMessage.selectedText,
-    screenshotImages: userMessage.screenshotImages,
-  });
+  let userMessage = branch?.regenerateFor;
+  if (!userMessage) {
+    userMessage = {
+      parentId: branch?.editOf
+        ? (branch.editOf.parentId ?? null)
+        : (priorHistory[priorHistory.length - 1]?.id ?? null),
+      role: "user",
+      text: userMessageText,
+      timestamp: Date.now(),
+      selectedText: selectedTextForMessage || undefined,
+      selectedTextExpanded: false,
+      screenshotImages: screenshotImagesForMessage.length
+        ? screenshotImagesForMessage
+        : undefined,
+      screenshotExpanded: false,
+      screenshotActiveIndex: 0,
+      attachedFiles: attachedFilesForMessage.length
+        ? attachedFilesForMessage
+        : undefined,
+    };
+    addConversationMessage(
+      conversationKey,
+      userMessage,
+      PERSISTED_HISTORY_LIMIT,
+    );
+    const userMessageId = await persistConversationMessage(conversationKey, {
+      parentId: userMessage.parentId,
+      threadId,
+      role: "user",
+      text: userMessage.text,
+      timestamp: userMessage.timestamp,
+      selectedText: userMessage.selectedText,
+      screenshotImages: userMessage.screenshotImages,
+      attachedFiles: userMessage.attachedFiles,
+    });
+    if (userMessageId) {
+      setMessageId(conversationKey, userMessage, userMessageId);
+    }
+  }
 
   const assistantMessage: Message = {
+    parentId: userMessage.id ?? null,
     role: "assistant",
     text: "",
     timestamp: Date.now(),
     modelName: effectiveModel,
+    modelProfile: fallbackProfile.key,
     streaming: true,
     reasoningOpen: false,
   };
-  history.push(assistantMessage);
-  if (history.length > PERSISTED_HISTORY_LIMIT) {
-    history.splice(0, history.length - PERSISTED_HISTORY_LIMIT);
-  }
+  addConversationMessage(
+    conversationKey,
+    assistantMessage,
+    PERSISTED_HISTORY_LIMIT,
+  );
   refreshChat(body, item);
 
   let assistantPersisted = false;
   const persistAssistantOnce = async () => {
     if (assistantPersisted) return;
     assistantPersisted = true;
-    await persistConversationMessage(conversationKey, {
-      role: "assistant",
-      text: assistantMessage.text,
-      timestamp: assistantMessage.timestamp,
-      modelName: assistantMessage.modelName,
-      reasoningSummary: assistantMessage.reasoningSummary,
-      reasoningDetails: assistantMessage.reasoningDetails,
-    });
+    const assistantMessageId = await persistConversationMessage(
+      conversationKey,
+      {
+        parentId: assistantMessage.parentId,
+        threadId,
+        role: "assistant",
+        text: assistantMessage.text,
+        timestamp: assistantMessage.timestamp,
+        modelName: assistantMessage.modelName,
+        reasoningSummary: assistantMessage.reasoningSummary,
+        reasoningDetails: assistantMessage.reasoningDetails,
+        usage: assistantMessage.usage,
+        modelProfile: assistantMessage.modelProfile,
+      },
+    );
+    if (assistantMessageId) {
+      setMessageId(conversationKey, assistantMessage, assistantMessageId);
+    }
   };
   const markCancelled = async () => {
     assistantMessage.text = "[Cancelled]";
@@ -648,24 +874,129 @@ export async function sendQuestion(
   };
 
   try {
-    const contextSource = resolveContextSourceItem(item);
-    if (status) setStatus(status, contextSource.statusText, "sending");
+    // Messages the summary covers are not sent again; the rest is cut to
+    // the token budget once the paper context is known.
+    const { prompt: memoryPrompt, history: historyForLLM } =
+      threadId && isMemoryModeEnabled()
+        ? await getThreadMemory(threadId, priorHistory)
+        : { prompt: "", history: priorHistory };
+    const historyImages = selectHistoryImages(historyForLLM, effectiveModel);
+    let historyImageCount = 0;
+    for (const indexes of historyImages.values()) {
+      historyImageCount += indexes.length;
+    }
+    const budget = allocatePromptBudget({
+      contextWindow: await resolveContextWindow(
+        effectiveModel,
+        effectiveApiBase,
+      ),
+      maxOutputTokens: effectiveAdvanced.maxTokens,
+      systemPrompt: [getSystemPrompt(), memoryPrompt].join("\n\n"),
+      question: promptQuestion,
+      imageCount: imageCount + historyImageCount,
+      historyTokens: historyForLLM.reduce(
+        (sum, msg) => sum + estimateMessageTokens(getHistoryText(msg)),
+        0,
+      ),
+    });
 
     let pdfContext = "";
-    if (contextSource.contextItem) {
-      await ensurePDFTextCached(contextSource.contextItem);
-      pdfContext = await buildContext(
-        pdfTextCache.get(contextSource.contextItem.id),
+    // Set when the retrieval mode wanted vectors but got none
+    let embeddingFallbackReason = "";
+    const onEmbeddingFallback = (reason: string) => {
+      embeddingFallbackReason = reason;
+    };
+    const group = getActiveGroupConversation(item);
+    if (group) {
+      const papers = resolveGroupPapers(group);
+      for (const [index, paper] of papers.entries()) {
+        if (status) {
+          setStatus(
+            status,
+            `Loading papers (${index + 1}/${papers.length})...`,
+            "sending",
+          );
+        }
+        await ensurePDFTextCached(paper.contextItem);
+      }
+      if (status) {
+        setStatus(
+          status,
+          `Using context: ${papers.length} papers (${group.label})`,
+          "sending",
+        );
+      }
+      pdfContext = await buildGroupContext(
+        papers.map((paper) => ({
+          label: paper.label,
+          title: paper.title,
+          pdfContext: pdfTextCache.get(paper.contextItem.id),
+        })),
         question,
         imageCount > 0,
         { apiBase: effectiveApiBase, apiKey: effectiveApiKey },
+        budget.contextTokens,
+        getRetrievalModeOverride(conversationKey),
+        onEmbeddingFallback,
       );
+    } else {
+      const contextSource = resolveContextSourceItem(item);
+      if (status) setStatus(status, contextSource.statusText, "sending");
+
+      if (contextSource.contextItem) {
+        await ensurePDFTextCached(contextSource.contextItem);
+        updateOcrNotice(body, item);
+        renderSectionPicker(body, item);
+        const pinnedSection = getPinnedSection(item);
+        if (status && pinnedSection) {
+          setStatus(status, `Using context: ${pinnedSection}`, "sending");
+        }
+        const paperContext = pdfTextCache.get(contextSource.contextItem.id);
+        pdfContext = await buildContext(
+          paperContext,
+          question,
+          imageCount > 0,
+          { apiBase: effectiveApiBase, apiKey: effectiveApiKey },
+          budget.contextTokens,
+          {
+            pinnedSection,
+            retrievalMode: getRetrievalModeOverride(conversationKey),
+            onEmbeddingFallback,
+          },
+        );
+        // Entries of the reference list the question points at ("[23]")
+        const citedReferences = paperContext
+          ? formatCitedReferences(paperContext, question)
+          : "";
+        if (citedReferences) pdfContext += `\n\n${citedReferences}`;
+      }
     }
 
-    const llmHistory: ChatMessage[] = historyForLLM.map((msg) => ({
-      role: msg.role,
-      content: msg.text,
-    }));
+    // Whatever the paper context leaves over goes to the newest history.
+    const budgetedHistory = fitHistoryToBudget(
+      historyForLLM,
+      getHistoryBudget(budget, pdfContext),
+      getHistoryText,
+    );
+    const droppedMessageCount = historyForLLM.length - budgetedHistory.length;
+    const llmHistory: ChatMessage[] = budgetedHistory.map((msg) =>
+      toHistoryChatMessage(msg, historyImages.get(msg)),
+    );
+    const sentImages = new Map<Message, number[]>();
+    for (const msg of budgetedHistory) {
+      const indexes = historyImages.get(msg);
+      if (indexes) sentImages.set(msg, indexes);
+    }
+    if (imageCount) {
+      sentImages.set(
+        userMessage,
+        screenshotImagesForMessage.map((_image, index) => index),
+      );
+    }
+    sentScreenshotImages.set(conversationKey, sentImages);
+    if (memoryPrompt) {
+      llmHistory.unshift({ role: "system", content: memoryPrompt });
+    }
 
     const AbortControllerCtor = getAbortController();
     setCurrentAbortController(
@@ -683,7 +1014,7 @@ export async function sendQuestion(
 
     const answer = await callLLMStream(
       {
-        prompt: question,
+        prompt: promptQuestion,
         context: pdfContext,
         history: llmHistory,
         signal: currentAbortController?.signal,
@@ -694,6 +1025,7 @@ export async function sendQuestion(
         reasoning: effectiveReasoning,
         temperature: effectiveAdvanced?.temperature,
         maxTokens: effectiveAdvanced?.maxTokens,
+        modelProfile: fallbackProfile.key,
       },
       (delta) => {
         assistantMessage.text += sanitizeText(delta);
@@ -714,6 +1046,9 @@ export async function sendQuestion(
         }
         queueRefresh();
       },
+      (usage: TokenUsage) => {
+        assistantMessage.usage = usage;
+      },
     );
 
     if (
@@ -730,7 +1065,56 @@ export async function sendQuestion(
     refreshChat(body, item);
     await persistAssistantOnce();
 
-    if (status) setStatus(status, "Ready", "ready");
+    if (status) {
+      if (budget.overflow) {
+        setStatus(
+          status,
+          `Ready · the question and images may not fit the ${budget.contextWindow}-token context window`,
+          "warning",
+        );
+      } else if (droppedMessageCount > 0) {
+        setStatus(
+          status,
+          `Ready · ${droppedMessageCount} earlier message${droppedMessageCount === 1 ? "" : "s"} left out to fit the ${budget.contextWindow}-token context window`,
+          "warning",
+        );
+      } else if (embeddingFallbackReason) {
+        setStatus(
+          status,
+          `Ready · excerpts ranked by keywords only: ${embeddingFallbackReason}`,
+          "warning",
+        );
+      } else {
+        setStatus(status, "Ready", "ready");
+      }
+    }
+    if (threadId) {
+      void generateThreadTitle(
+        conversationKey,
+        threadId,
+        userMessage.text,
+        assistantMessage.text,
+        {
+          key: fallbackProfile.key,
+          model: effectiveModel,
+          apiBase: effectiveApiBase,
+          apiKey: effectiveApiKey,
+        },
+      ).then((renamed) => {
+        if (renamed) void renderThreadPicker(body, conversationKey);
+      });
+      void updateConversationMemory(
+        conversationKey,
+        threadId,
+        [...priorHistory, userMessage, assistantMessage],
+        {
+          key: fallbackProfile.key,
+          model: effectiveModel,
+          apiBase: effectiveApiBase,
+          apiKey: effectiveApiKey,
+        },
+      );
+    }
   } catch (err) {
     const isCancelled =
       cancelledRequestId >= thisRequestId ||
@@ -752,21 +1136,38 @@ export async function sendQuestion(
     }
   } finally {
     // Only restore UI if this is still the current request
-    if (cancelledRequestId < thisRequestId) {
-      if (inputBox) {
-        inputBox.disabled = false;
-        inputBox.focus({ preventScroll: true });
-      }
-      if (sendBtn) {
-        sendBtn.style.display = "";
-        sendBtn.disabled = false;
-      }
-      if (cancelBtn) cancelBtn.style.display = "none";
-    }
+    if (cancelledRequestId < thisRequestId) restoreInput();
     setCurrentAbortController(null);
   }
 }
 
+/** Token totals of the answers shown in the conversation */
+function formatConversationUsage(
+  history: Message[],
+  prices: ModelPrice[],
+): string {
+  let promptTokens = 0;
+  let completionTokens = 0;
+  let reasoningTokens = 0;
+  let cost = 0;
+  let priced = true;
+  for (const msg of history) {
+    if (msg.role !== "assistant" || !msg.usage) continue;
+    promptTokens += msg.usage.promptTokens;
+    completionTokens += msg.usage.completionTokens;
+    reasoningTokens += msg.usage.reasoningTokens || 0;
+    const messageCost = estimateCost(msg.modelName || "", msg.usage, prices);
+    if (messageCost === null) priced = false;
+    else cost += messageCost;
+  }
+  const summary = formatUsage({
+    promptTokens,
+    completionTokens,
+    reasoningTokens,
+  });
+  return priced ? `${summary} · ~${formatCost(cost)}` : summary;
+}
+
 export function refreshChat(body: Element, item?: Zotero.Item | null) {
   const chatBox = body.querySelector("#llm-chat-box") as HTMLDivElement | null;
   if (!chatBox) return;
@@ -802,11 +1203,21 @@ export function refreshChat(body: Element, item?: Zotero.Item | null) {
   }
 
   chatBox.innerHTML = "";
-
-  for (const msg of history) {
+  const isStreaming = history.some((msg) => msg.streaming);
+  const editingMessage = pendingMessageEdits.get(conversationKey);
+  const modelPrices = getModelPrices();
+  // Screenshots the model saw with the latest question
+  const visibleImages =
+    sentScreenshotImages.get(conversationKey) || new Map<Message, number[]>();
+  const lastUsageMessage = [...history]
+    .reverse()
+    .find((msg) => msg.role === "assistant" && msg.usage);
+
+  for (const [messageIndex, msg] of history.entries()) {
     const isUser = msg.role === "user";
     const wrapper = doc.createElement("div") as HTMLDivElement;
     wrapper.className = `llm-message-wrapper ${isUser ? "user" : "assistant"}`;
+    if (msg === editingMessage) wrapper.classList.add("editing");
 
     const bubble = doc.createElement("div") as HTMLDivElement;
     bubble.className = `llm-bubble ${isUser ? "user" : "assistant"}`;
@@ -826,7 +1237,16 @@ export function refreshChat(body: Element, item?: Zotero.Item | null) {
 
         const screenshotLabel = doc.createElement("span") as HTMLSpanElement;
         screenshotLabel.className = "llm-user-screenshots-label";
-        screenshotLabel.textContent = `screenshots (${screenshotImages.length}/${MAX_SELECTED_IMAGES}) embedded`;
+        const visibleIndexes = visibleImages.get(msg) || [];
+        screenshotLabel.textContent = `screenshots (${screenshotImages.length}/${MAX_SELECTED_IMAGES}) embedded${
+          visibleIndexes.length
+            ? ` · ${visibleIndexes.length} visible to the model`
+            : ""
+        }`;
+        screenshotBar.classList.toggle(
+          "visible-to-model",
+          visibleIndexes.length > 0,
+        );
 
         screenshotBar.append(screenshotIcon, screenshotLabel);
 
@@ -849,6 +1269,10 @@ export function refreshChat(body: Element, item?: Zotero.Item | null) {
           thumbBtn.type = "button";
           thumbBtn.className = "llm-user-screenshot-thumb";
           thumbBtn.title = `Screenshot ${index + 1}`;
+          if (visibleIndexes.includes(index)) {
+            thumbBtn.classList.add("visible-to-model");
+            thumbBtn.title += " (sent again with the next question)";
+          }
 
           const thumbImg = doc.createElement("img") as HTMLImageElement;
           thumbImg.className = "llm-user-screenshot-thumb-img";
@@ -981,6 +1405,19 @@ export function refreshChat(body: Element, item?: Zotero.Item | null) {
         wrapper.appendChild(selectedBar);
         wrapper.appendChild(selectedExpanded);
       }
+
+      if (msg.attachedFiles?.length) {
+        const fileList = doc.createElement("div") as HTMLDivElement;
+        fileList.className = "llm-user-files";
+        for (const file of msg.attachedFiles) {
+          const chip = doc.createElement("span") as HTMLSpanElement;
+          chip.className = "llm-file-chip";
+          chip.textContent = `📄 ${file.name}`;
+          chip.title = file.truncated ? `${file.name} (truncated)` : file.name;
+          fileList.appendChild(chip);
+        }
+        wrapper.appendChild(fileList);
+      }
       bubble.textContent = sanitizeText(msg.text || "");
     } else {
       const hasModelName = Boolean(msg.modelName?.trim());
@@ -1019,6 +1456,11 @@ export function refreshChat(body: Element, item?: Zotero.Item | null) {
           setResponseMenuTarget({
             item,
             contentText,
+            answerText: fullMarkdown,
+            questionText:
+              history[messageIndex - 1]?.role === "user"
+                ? history[messageIndex - 1].text
+                : "",
             modelName: msg.modelName?.trim() || "unknown",
           });
           positionMenuAtPointer(body, responseMenu, me.clientX, me.clientY);
@@ -1121,6 +1563,73 @@ export function refreshChat(body: Element, item?: Zotero.Item | null) {
     time.textContent = formatTime(msg.timestamp);
     meta.appendChild(time);
 
+    if (!isUser && msg.usage && !msg.streaming) {
+      const usage = doc.createElement("span") as HTMLSpanElement;
+      usage.className = "llm-message-usage";
+      usage.textContent = formatUsage(msg.usage, msg.modelName, modelPrices);
+      if (msg === lastUsageMessage) {
+        usage.title = `Conversation so far: ${formatConversationUsage(
+          history,
+          modelPrices,
+        )}`;
+      }
+      meta.appendChild(usage);
+    }
+
+    const createMetaButton = (
+      action: string,
+      text: string,
+      title: string,
+      disabled = false,
+    ) => {
+      const btn = doc.createElement("button") as HTMLButtonElement;
+      btn.type = "button";
+      btn.className = "llm-message-action";
+      btn.dataset.action = action;
+      btn.dataset.messageIndex = `${messageIndex}`;
+      btn.textContent = text;
+      btn.title = title;
+      btn.disabled = disabled || isStreaming;
+      return btn;
+    };
+
+    const siblings = getSiblingMessages(conversationKey, msg);
+    if (siblings.length > 1) {
+      const position = siblings.indexOf(msg);
+      const switcher = doc.createElement("span") as HTMLSpanElement;
+      switcher.className = "llm-branch-switcher";
+      const label = doc.createElement("span") as HTMLSpanElement;
+      label.className = "llm-branch-label";
+      label.textContent = `${position + 1}/${siblings.length}`;
+      switcher.append(
+        createMetaButton("branch-prev", "◀", "Previous version", position <= 0),
+        label,
+        createMetaButton(
+          "branch-next",
+          "▶",
+          "Next version",
+          position >= siblings.length - 1,
+        ),
+      );
+      meta.appendChild(switcher);
+    }
+
+    if (!msg.streaming) {
+      meta.appendChild(
+        isUser
+          ? createMetaButton(
+              "edit",
+              "Edit",
+              "Edit this message and send it as a new branch",
+            )
+          : createMetaButton(
+              "regenerate",
+              "Regenerate",
+              "Generate another answer with the selected model",
+            ),
+      );
+    }
+
     wrapper.appendChild(bubble);
     wrapper.appendChild(meta);
     chatBox.appendChild(wrapper);
@@ -8,16 +8,63 @@ import { ReasoningLevel as LLMReasoningLevel } from "../../utils/llmClient";
 export const PANE_ID = "llm-context-panel";
 export const MAX_CONTEXT_LENGTH = 8000;
 export const MAX_CONTEXT_LENGTH_WITH_IMAGE = 3000;
-export const FORCE_FULL_CONTEXT = true;
 export const FULL_CONTEXT_CHAR_LIMIT = 500000;
-export const CHUNK_TARGET_LENGTH = 2000;
-export const CHUNK_OVERLAP = 200;
-export const MAX_CONTEXT_CHUNKS = 4;
+export const MAX_GROUP_PAPERS = 20;
+export const BATCH_JOB_CONCURRENCY = 3;
+export const EXTRACTION_FIELD_TYPES = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+] as const;
+export const DEFAULT_EXTRACTION_FIELDS = [
+  {
+    name: "Sample size",
+    type: "integer",
+    description: "Number of participants or samples analysed",
+  },
+  {
+    name: "Method",
+    type: "string",
+    description: "Main study design or method",
+  },
+  {
+    name: "Dataset",
+    type: "string",
+    description: "Name of the dataset(s) used",
+  },
+  {
+    name: "Effect size",
+    type: "string",
+    description: "Main reported effect size with its metric, e.g. d = 0.42",
+  },
+] as const;
+export const MAX_GROUP_CONTEXT_CHUNKS = 10;
+export const MAX_GROUP_CONTEXT_LENGTH = 16000;
+export const SEARCH_COMMAND_PREFIX = "/search";
+export const LIBRARY_SEARCH_MAX_RESULTS = 20;
+export const LIBRARY_SEARCH_MAX_PER_ITEM = 3;
+export const LIBRARY_SEARCH_SNIPPET_LENGTH = 320;
+export const HISTORY_SEARCH_MAX_RESULTS = 50;
+export const HIGHLIGHT_QUOTE_MIN_LENGTH = 20;
+export const HIGHLIGHT_SELECTION_MAX_LENGTH = 600;
+export const HIGHLIGHT_FUZZY_MIN_SCORE = 0.8;
+export const HIGHLIGHT_COMMENT_MAX_LENGTH = 4000;
+export const HIGHLIGHT_ANNOTATION_COLOR = "#ffd400";
 export const EMBEDDING_BATCH_SIZE = 16;
-export const HYBRID_WEIGHT_BM25 = 0.5;
-export const HYBRID_WEIGHT_EMBEDDING = 0.5;
+/** Added to the retrieval score of chunks in a section the question names */
+export const SECTION_MATCH_BOOST = 0.3;
 export const MAX_HISTORY_MESSAGES = 12;
+/** Attachment types whose text can be used as chat context */
+export const CONTEXT_ATTACHMENT_CONTENT_TYPES = [
+  "application/pdf",
+  "application/epub+zip",
+  "text/html",
+] as const;
 export const PERSISTED_HISTORY_LIMIT = 200;
+export const THREAD_TITLE_MAX_LENGTH = 60;
+export const MEMORY_SUMMARY_MIN_NEW_MESSAGES = 4;
+export const MEMORY_SUMMARY_MESSAGE_MAX_LENGTH = 2000;
 export const AUTO_SCROLL_BOTTOM_THRESHOLD = 64;
 export const FONT_SCALE_DEFAULT_PERCENT = 120;
 export const FONT_SCALE_MIN_PERCENT = 80;
@@ -27,10 +74,31 @@ export const SELECTED_TEXT_MAX_LENGTH = 4000;
 export const SELECTED_TEXT_PREVIEW_LENGTH = 240;
 export const MAX_EDITABLE_SHORTCUTS = 5;
 export const MAX_SELECTED_IMAGES = 5;
+export const DEFAULT_HISTORY_IMAGE_LIMIT = 4;
+export const MAX_ATTACHED_FILES = 5;
+/** Larger files are rejected before they are read */
+export const ATTACHED_FILE_MAX_BYTES = 2 * 1024 * 1024;
+/** Characters of each attached file kept in the question */
+export const ATTACHED_FILE_MAX_LENGTH = 20000;
+export const ATTACHED_TEXT_FILE_EXTENSIONS = [
+  ".txt",
+  ".md",
+  ".csv",
+  ".tex",
+  ".py",
+] as const;
 export const SELECT_TEXT_EXPANDED_LABEL = "Add Text";
 export const SELECT_TEXT_COMPACT_LABEL = "✍🏻";
 export const SCREENSHOT_EXPANDED_LABEL = "Screenshots";
 export const SCREENSHOT_COMPACT_LABEL = "📷";
+export const FIGURES_EXPANDED_LABEL = "Figures";
+export const FIGURES_COMPACT_LABEL = "🖼️";
+export const FIGURE_RENDER_SCALE = 2;
+export const FIGURE_CAPTION_MAX_LENGTH = 600;
+/** Fewer extracted characters per page than this mark a PDF as scanned */
+export const OCR_MIN_CHARS_PER_PAGE = 50;
+export const OCR_RENDER_SCALE = 1.5;
+export const OCR_MAX_PAGES = 60;
 export const REASONING_COMPACT_LABEL = "💭";
 export const ACTION_LAYOUT_FULL_MODE_BUFFER_PX = 0;
 export const ACTION_LAYOUT_PARTIAL_MODE_BUFFER_PX = 0;
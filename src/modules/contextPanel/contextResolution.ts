@@ -10,6 +10,7 @@ import {
   selectedTextPreviewExpandedCache,
   recentReaderSelectionCache,
 } from "./state";
+import { PANE_ID, CONTEXT_ATTACHMENT_CONTENT_TYPES } from "./constants";
 import type { ZoteroTabsState, ResolvedContextSource } from "./types";
 
 function getActiveReaderForSelectedTab(): any | null {
@@ -167,6 +168,35 @@ function collectCandidateItemIDsFromObject(source: any): number[] {
   return out;
 }
 
+/**
+ * Show an item's chat panel: switch to the library tab, select the item and
+ * scroll the item pane to the panel. The selection is cleared first so the
+ * panel re-renders even if the item was already selected.
+ */
+export async function revealItemPanel(itemId: number): Promise<void> {
+  try {
+    getZoteroTabsState()?.select?.("zotero-pane");
+  } catch (_err) {
+    void _err;
+  }
+  const pane = Zotero.getActiveZoteroPane();
+  if (!pane) return;
+  const itemsView = pane.itemsView;
+  if (itemsView) itemsView.selection?.clearSelection?.();
+  await pane.selectItem(itemId);
+  try {
+    (
+      pane as unknown as {
+        itemPane?: {
+          _itemDetails?: { scrollToPane?: (paneID: string) => void };
+        };
+      }
+    ).itemPane?._itemDetails?.scrollToPane?.(PANE_ID);
+  } catch (_err) {
+    void _err;
+  }
+}
+
 export function getActiveContextAttachmentFromTabs(): Zotero.Item | null {
   const tabs = getZoteroTabsState();
   if (!tabs) return null;
@@ -206,13 +236,20 @@ export function getActiveContextAttachmentFromTabs(): Zotero.Item | null {
   return null;
 }
 
-function isSupportedContextAttachment(
+/** PDFs, EPUBs and HTML snapshots can serve as chat context */
+function isContextContentType(contentType: string): boolean {
+  return (CONTEXT_ATTACHMENT_CONTENT_TYPES as readonly string[]).includes(
+    contentType,
+  );
+}
+
+export function isSupportedContextAttachment(
   item: Zotero.Item | null | undefined,
 ): item is Zotero.Item {
   return Boolean(
     item &&
     item.isAttachment() &&
-    item.attachmentContentType === "application/pdf",
+    isContextContentType(item.attachmentContentType),
   );
 }
 
@@ -222,18 +259,30 @@ function getContextItemLabel(item: Zotero.Item): string {
   return `Attachment ${item.id}`;
 }
 
-function getFirstPdfChildAttachment(
+/** First PDF child of an item, or else its first EPUB or snapshot */
+function getFirstContextChildAttachment(
   item: Zotero.Item | null | undefined,
 ): Zotero.Item | null {
   if (!item || item.isAttachment()) return null;
+  let fallback: Zotero.Item | null = null;
   const attachments = item.getAttachments();
   for (const attachmentId of attachments) {
     const attachment = Zotero.Items.get(attachmentId);
-    if (isSupportedContextAttachment(attachment)) {
+    if (!isSupportedContextAttachment(attachment)) continue;
+    if (attachment.attachmentContentType === "application/pdf") {
       return attachment;
     }
+    fallback ||= attachment;
   }
-  return null;
+  return fallback;
+}
+
+/** Resolve the document a library item contributes as context: itself or its first PDF (or EPUB/snapshot) child */
+export function getContextAttachmentForItem(
+  item: Zotero.Item | null | undefined,
+): Zotero.Item | null {
+  if (isSupportedContextAttachment(item)) return item;
+  return getFirstContextChildAttachment(item);
 }
 
 export function resolveContextSourceItem(
@@ -250,7 +299,7 @@ export function resolveContextSourceItem(
 
   if (
     panelItem.isAttachment() &&
-    panelItem.attachmentContentType === "application/pdf"
+    isContextContentType(panelItem.attachmentContentType)
   ) {
     const label = getContextItemLabel(panelItem);
     return {
@@ -263,13 +312,13 @@ export function resolveContextSourceItem(
     panelItem.isAttachment() && panelItem.parentID
       ? Zotero.Items.get(panelItem.parentID) || null
       : panelItem;
-  const firstPdfChild = getFirstPdfChildAttachment(parentItem);
-  if (firstPdfChild && parentItem) {
+  const firstChild = getFirstContextChildAttachment(parentItem);
+  if (firstChild && parentItem) {
     const parentTitle =
       sanitizeText(parentItem.getField("title") || "").trim() ||
       `Item ${parentItem.id}`;
     return {
-      contextItem: firstPdfChild,
+      contextItem: firstChild,
       statusText: `using first child item from ${parentTitle} as context`,
     };
   }
@@ -303,7 +352,7 @@ export function getItemSelectionCacheKeys(
     const attachments = item.getAttachments();
     for (const attId of attachments) {
       const att = Zotero.Items.get(attId);
-      if (att && att.attachmentContentType === "application/pdf") {
+      if (isSupportedContextAttachment(att)) {
         keys.add(att.id);
       }
     }
@@ -451,3 +500,91 @@ export function includeSelectedTextFromReader(
   inputEl?.focus({ preventScroll: true });
   return true;
 }
+
+/** Words of a quoted span to search for; short enough to survive line breaks */
+const CITATION_FLASH_QUERY_WORDS = 12;
+const CITATION_FLASH_DURATION_MS = 2500;
+const CITATION_VIEW_READY_RETRIES = 20;
+
+/**
+ * Briefly highlight a quoted span in the reader's PDF view with the PDF.js
+ * find controller. Best effort: returns quietly if the view is not PDF.js.
+ */
+function flashQuoteInReader(reader: any, quote: string, attempt = 0): void {
+  const query = quote
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, CITATION_FLASH_QUERY_WORDS)
+    .join(" ");
+  if (!query) return;
+  const viewWindow = reader?._internalReader?._primaryView?._iframeWindow;
+  const app =
+    viewWindow?.wrappedJSObject?.PDFViewerApplication ||
+    viewWindow?.PDFViewerApplication;
+  if (!app?.eventBus || !app.pdfDocument) {
+    if (attempt < CITATION_VIEW_READY_RETRIES) {
+      setTimeout(() => flashQuoteInReader(reader, quote, attempt + 1), 250);
+    }
+    return;
+  }
+  const cloneInto = ztoolkit.getGlobal("Components")?.utils?.cloneInto as
+    | (<T>(value: T, target: unknown) => T)
+    | undefined;
+  const toView = <T>(value: T): T =>
+    cloneInto ? cloneInto(value, viewWindow) : value;
+  try {
+    app.eventBus.dispatch(
+      "find",
+      toView({
+        source: null,
+        type: "",
+        query,
+        phraseSearch: true,
+        caseSensitive: false,
+        entireWord: false,
+        highlightAll: false,
+        findPrevious: false,
+        matchDiacritics: false,
+      }),
+    );
+    setTimeout(() => {
+      try {
+        app.eventBus.dispatch("findbarclose", toView({ source: null }));
+      } catch (_err) {
+        void _err;
+      }
+    }, CITATION_FLASH_DURATION_MS);
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to highlight cited passage", err);
+  }
+}
+
+/**
+ * Follow a `[p. N]` citation: move the active reader to the page (opening
+ * the panel item's PDF if no reader is active) and flash the quoted span.
+ */
+export async function navigateToPageCitation(
+  panelItem: Zotero.Item | null | undefined,
+  page: number,
+  quote?: string,
+): Promise<boolean> {
+  const pageIndex = Math.max(0, Math.floor(page) - 1);
+  let reader = getActiveReaderForSelectedTab();
+  try {
+    if (reader?.navigate) {
+      await reader.navigate({ pageIndex });
+    } else {
+      const contextItem = panelItem
+        ? resolveContextSourceItem(panelItem).contextItem
+        : null;
+      if (!contextItem) return false;
+      reader = await Zotero.Reader.open(contextItem.id, { pageIndex });
+      if (!reader) return false;
+    }
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to navigate to cited page", err);
+    return false;
+  }
+  if (quote) flashQuoteInReader(reader, quote);
+  return true;
+}
@@ -0,0 +1,628 @@
+/**
+ * Structured data extraction for systematic reviews.
+ *
+ * A user-defined schema (field name, type, description) is sent as a JSON
+ * schema with the request; the answer is validated against the field
+ * types and shown in an editable table that can be exported as CSV or
+ * written into each item's Extra field.
+ */
+
+import { getString } from "../../utils/locale";
+import { createElement } from "../../utils/domHelpers";
+import { callLLM, type JsonResponseSchema } from "../../utils/llmClient";
+import { config, EXTRACTION_FIELD_TYPES } from "./constants";
+import { getAbortController } from "./chat";
+import { getContextAttachmentForItem } from "./contextResolution";
+import { buildContext, ensurePDFTextCached } from "./pdfContext";
+import {
+  getAdvancedModelParamsForProfile,
+  getApiProfiles,
+  getExtractionFields,
+  setExtractionFields,
+} from "./prefHelpers";
+import { pdfTextCache } from "./state";
+import { sanitizeText } from "./textUtils";
+import type { ExtractionField, ExtractionFieldType } from "./types";
+
+type ExtractionRow = {
+  item: Zotero.Item;
+  status: "pending" | "running" | "done" | "failed";
+  values: Record<string, string>;
+  /** Validation problems per field name */
+  errors: Record<string, string>;
+  error?: string;
+};
+
+const JSON_SCHEMA_TYPES: Record<ExtractionFieldType, string> = {
+  string: "string",
+  number: "number",
+  integer: "integer",
+  boolean: "boolean",
+};
+
+/** Drop unnamed fields and repeated names (compared case-insensitively) */
+function normalizeFields(fields: ExtractionField[]): ExtractionField[] {
+  const seen = new Set<string>();
+  const normalized: ExtractionField[] = [];
+  for (const field of fields) {
+    const name = sanitizeText(field.name).replace(/\s+/g, " ").trim();
+    if (!name || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    normalized.push({
+      name,
+      type: field.type,
+      description: sanitizeText(field.description).trim(),
+    });
+  }
+  return normalized;
+}
+
+/**
+ * Strict JSON schema for the fields: every field is required and may be
+ * `null` when the paper does not report it.
+ */
+function buildExtractionSchema(fields: ExtractionField[]): JsonResponseSchema {
+  const properties: Record<string, unknown> = {};
+  for (const field of fields) {
+    properties[field.name] = {
+      type: [JSON_SCHEMA_TYPES[field.type], "null"],
+      description: field.description || field.name,
+    };
+  }
+  return {
+    name: "paper_fields",
+    schema: {
+      type: "object",
+      properties,
+      required: fields.map((field) => field.name),
+      additionalProperties: false,
+    },
+  };
+}
+
+function buildExtractionPrompt(fields: ExtractionField[]): string {
+  return [
+    "Extract the following fields from the paper.",
+    "Reply with a single JSON object whose keys are exactly the field names below. Use null when the paper does not report a value; do not guess.",
+    "",
+    ...fields.map(
+      (field) =>
+        `- "${field.name}" (${field.type}${
+          field.type === "string" ? "" : " or null"
+        }): ${field.description || field.name}`,
+    ),
+  ].join("\n");
+}
+
+function parseJsonObject(raw: string): Record<string, unknown> {
+  const text = raw
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start < 0 || end <= start) throw new Error("No JSON object in response");
+  const parsed = JSON.parse(text.slice(start, end + 1));
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Response is not a JSON object");
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/** Check a value against a field type; returns an error message or "" */
+function validateFieldValue(value: string, type: ExtractionFieldType): string {
+  const trimmed = value.trim();
+  if (!trimmed) return "";
+  switch (type) {
+    case "integer":
+      return /^[-+]?\d+$/.test(trimmed.replace(/,/g, ""))
+        ? ""
+        : "Expected a whole number";
+    case "number":
+      return Number.isFinite(Number(trimmed.replace(/,/g, "")))
+        ? ""
+        : "Expected a number";
+    case "boolean":
+      return /^(true|false|yes|no)$/i.test(trimmed)
+        ? ""
+        : "Expected true or false";
+    default:
+      return "";
+  }
+}
+
+function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return sanitizeText(value).trim();
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+function applyExtractionResponse(
+  row: ExtractionRow,
+  fields: ExtractionField[],
+  raw: string,
+): void {
+  const data = parseJsonObject(raw);
+  const keys = new Map(
+    Object.keys(data).map((key) => [key.trim().toLowerCase(), key]),
+  );
+  row.values = {};
+  row.errors = {};
+  for (const field of fields) {
+    const key = keys.get(field.name.toLowerCase());
+    const value = formatFieldValue(key === undefined ? null : data[key]);
+    row.values[field.name] = value;
+    const error = validateFieldValue(value, field.type);
+    if (error) row.errors[field.name] = error;
+  }
+}
+
+function isSchemaRejection(err: unknown): boolean {
+  const message = err instanceof Error ? err.message : String(err);
+  return /response_format|json_schema|responseJsonSchema|text\.format|\bformat\b/i.test(
+    message,
+  );
+}
+
+async function extractRow(
+  row: ExtractionRow,
+  fields: ExtractionField[],
+  signal?: AbortSignal,
+): Promise<void> {
+  const contextItem = getContextAttachmentForItem(row.item);
+  if (!contextItem) throw new Error("No PDF attachment");
+  const profile = getApiProfiles().primary;
+  const advanced = getAdvancedModelParamsForProfile("primary");
+  const overrides = { apiBase: profile.apiBase, apiKey: profile.apiKey };
+  const prompt = buildExtractionPrompt(fields);
+
+  await ensurePDFTextCached(contextItem);
+  const context = await buildContext(
+    pdfTextCache.get(contextItem.id),
+    fields.map((field) => `${field.name} ${field.description}`).join("\n"),
+    false,
+    overrides,
+  );
+  const params = {
+    prompt,
+    context,
+    signal,
+    model: profile.model,
+    ...overrides,
+    temperature: advanced.temperature,
+    maxTokens: advanced.maxTokens,
+    modelProfile: "primary",
+  };
+  let raw: string;
+  try {
+    raw = await callLLM({
+      ...params,
+      responseSchema: buildExtractionSchema(fields),
+    });
+  } catch (err) {
+    // Some OpenAI-compatible servers reject structured output; the prompt
+    // still asks for JSON, so retry without the schema constraint.
+    if (signal?.aborted || !isSchemaRejection(err)) throw err;
+    ztoolkit.log("LLM: Structured output rejected, retrying without", err);
+    raw = await callLLM(params);
+  }
+  applyExtractionResponse(row, fields, raw);
+}
+
+function getItemTitle(item: Zotero.Item): string {
+  return (
+    sanitizeText(`${item.getField("title") || ""}`).trim() || `Item ${item.id}`
+  );
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function buildExtractionCsv(
+  rows: ExtractionRow[],
+  fields: ExtractionField[],
+): string {
+  const header = ["Title", "Year", "Item Key", ...fields.map((f) => f.name)];
+  const lines = [header.map(escapeCsvValue).join(",")];
+  for (const row of rows) {
+    const year = `${row.item.getField("date") || ""}`.match(/\b(\d{4})\b/);
+    lines.push(
+      [
+        getItemTitle(row.item),
+        year?.[1] || "",
+        row.item.key,
+        ...fields.map((field) => row.values[field.name] || ""),
+      ]
+        .map(escapeCsvValue)
+        .join(","),
+    );
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+/**
+ * Write the values into the item's Extra field as `Name: value` lines,
+ * replacing earlier lines for the same fields and keeping other lines.
+ */
+async function writeExtractionToExtra(
+  item: Zotero.Item,
+  fields: ExtractionField[],
+  values: Record<string, string>,
+): Promise<void> {
+  const names = new Set(fields.map((field) => field.name.toLowerCase()));
+  const kept = `${item.getField("extra") || ""}`
+    .split(/\r?\n/)
+    .filter((line) => {
+      const key = line
+        .match(/^([^:]+):/)?.[1]
+        ?.trim()
+        .toLowerCase();
+      return !key || !names.has(key);
+    });
+  const added = fields
+    .map((field) => [field.name, (values[field.name] || "").trim()])
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}: ${value.replace(/\s*\n\s*/g, " ")}`);
+  const extra = [...kept, ...added].join("\n").trim();
+  item.setField("extra", extra);
+  await item.saveTx();
+}
+
+function collectExtractionItems(items: Zotero.Item[]): Zotero.Item[] {
+  const collected = new Map<number, Zotero.Item>();
+  for (const item of items) {
+    if (!item || item.deleted) continue;
+    const hostItem =
+      item.isAttachment() && item.parentID
+        ? Zotero.Items.get(item.parentID)
+        : item;
+    if (!hostItem?.isRegularItem() || collected.has(hostItem.id)) continue;
+    if (!getContextAttachmentForItem(hostItem)) continue;
+    collected.set(hostItem.id, hostItem);
+  }
+  return Array.from(collected.values());
+}
+
+function renderFieldEditor(
+  container: HTMLElement,
+  fields: ExtractionField[],
+): void {
+  const doc = container.ownerDocument!;
+  container.innerHTML = "";
+  fields.forEach((field, index) => {
+    const row = createElement(doc, "div", "");
+    Object.assign(row.style, { display: "flex", gap: "4px", margin: "2px 0" });
+    const name = createElement(doc, "input", "", {
+      type: "text",
+      value: field.name,
+      placeholder: "Field name",
+    });
+    name.style.width = "140px";
+    name.addEventListener("input", () => {
+      field.name = name.value;
+    });
+    const type = createElement(doc, "select", "");
+    for (const option of EXTRACTION_FIELD_TYPES) {
+      type.appendChild(
+        createElement(doc, "option", "", {
+          value: option,
+          textContent: option,
+        }),
+      );
+    }
+    type.value = field.type;
+    type.addEventListener("change", () => {
+      field.type = type.value as ExtractionFieldType;
+    });
+    const description = createElement(doc, "input", "", {
+      type: "text",
+      value: field.description,
+      placeholder: "What to extract",
+    });
+    description.style.flex = "1";
+    description.addEventListener("input", () => {
+      field.description = description.value;
+    });
+    const remove = createElement(doc, "button", "", {
+      type: "button",
+      textContent: "✕",
+      title: "Remove field",
+    });
+    remove.addEventListener("click", (e: Event) => {
+      e.preventDefault();
+      fields.splice(index, 1);
+      renderFieldEditor(container, fields);
+    });
+    row.append(name, type, description, remove);
+    container.appendChild(row);
+  });
+}
+
+function renderResultsTable(
+  container: HTMLElement,
+  rows: ExtractionRow[],
+  fields: ExtractionField[],
+): void {
+  const doc = container.ownerDocument!;
+  container.innerHTML = "";
+  const table = createElement(doc, "table", "");
+  Object.assign(table.style, { borderCollapse: "collapse", width: "100%" });
+  const head = createElement(doc, "tr", "");
+  for (const label of ["Paper", ...fields.map((field) => field.name)]) {
+    const th = createElement(doc, "th", "", { textContent: label });
+    Object.assign(th.style, { textAlign: "left", padding: "2px 4px" });
+    head.appendChild(th);
+  }
+  table.appendChild(head);
+
+  for (const row of rows) {
+    const tr = createElement(doc, "tr", "");
+    const title = createElement(doc, "td", "", {
+      textContent:
+        row.status === "failed"
+          ? `${getItemTitle(row.item)} (failed: ${row.error || "error"})`
+          : row.status === "running"
+            ? `${getItemTitle(row.item)} (extracting…)`
+            : getItemTitle(row.item),
+      title: getItemTitle(row.item),
+    });
+    Object.assign(title.style, {
+      maxWidth: "220px",
+      overflow: "hidden",
+      textOverflow: "ellipsis",
+      whiteSpace: "nowrap",
+      padding: "2px 4px",
+    });
+    tr.appendChild(title);
+    for (const field of fields) {
+      const td = createElement(doc, "td", "");
+      td.style.padding = "2px";
+      const input = createElement(doc, "input", "", {
+        type: "text",
+        value: row.values[field.name] || "",
+        title: row.errors[field.name] || "",
+      });
+      input.style.width = "100%";
+      const markError = () => {
+        input.style.outline = row.errors[field.name] ? "1px solid #dc2626" : "";
+        input.title = row.errors[field.name] || "";
+      };
+      markError();
+      input.addEventListener("input", () => {
+        row.values[field.name] = input.value;
+        const error = validateFieldValue(input.value, field.type);
+        if (error) row.errors[field.name] = error;
+        else delete row.errors[field.name];
+        markError();
+      });
+      td.appendChild(input);
+      tr.appendChild(td);
+    }
+    table.appendChild(tr);
+  }
+  container.appendChild(table);
+}
+
+export async function openExtractionDialog(
+  selectedItems: Zotero.Item[],
+): Promise<void> {
+  const items = collectExtractionItems(selectedItems);
+  if (!items.length) {
+    new ztoolkit.ProgressWindow(config.addonName, {
+      closeOnClick: true,
+      closeTime: 4000,
+    })
+      .createLine({ text: getString("llm-extract-no-items"), type: "fail" })
+      .show();
+    return;
+  }
+
+  const fields = getExtractionFields();
+  const rows: ExtractionRow[] = items.map((item) => ({
+    item,
+    status: "pending",
+    values: {},
+    errors: {},
+  }));
+  let activeFields: ExtractionField[] = normalizeFields(fields);
+  let abortController: AbortController | null = null;
+  let extractedFieldsKey = "";
+
+  const dialogData: { [key: string]: any } = {
+    loadCallback: () => {
+      const doc = dialog.window?.document;
+      const root = doc?.getElementById(
+        "llm-extract-root",
+      ) as HTMLDivElement | null;
+      if (!doc || !root) return;
+
+      const fieldEditor = createElement(doc, "div", "");
+      const addField = createElement(doc, "button", "", {
+        type: "button",
+        textContent: "+ Add field",
+      });
+      const actions = createElement(doc, "div", "");
+      Object.assign(actions.style, {
+        display: "flex",
+        gap: "6px",
+        alignItems: "center",
+        margin: "8px 0",
+      });
+      const runBtn = createElement(doc, "button", "", {
+        type: "button",
+        textContent: `Extract from ${items.length} paper${
+          items.length === 1 ? "" : "s"
+        }`,
+      });
+      const csvBtn = createElement(doc, "button", "", {
+        type: "button",
+        textContent: "Export CSV",
+      });
+      const extraBtn = createElement(doc, "button", "", {
+        type: "button",
+        textContent: "Write to Extra",
+      });
+      const status = createElement(doc, "span", "");
+      status.style.opacity = "0.75";
+      actions.append(runBtn, csvBtn, extraBtn, status);
+      const results = createElement(doc, "div", "");
+      Object.assign(results.style, {
+        maxHeight: "320px",
+        overflow: "auto",
+      });
+      root.append(fieldEditor, addField, actions, results);
+
+      const hasResults = () => rows.some((row) => row.status === "done");
+      const updateButtons = (running: boolean) => {
+        runBtn.disabled = running;
+        csvBtn.disabled = running || !hasResults();
+        extraBtn.disabled = running || !hasResults();
+      };
+      renderFieldEditor(fieldEditor, fields);
+      updateButtons(false);
+
+      addField.addEventListener("click", (e: Event) => {
+        e.preventDefault();
+        fields.push({ name: "", type: "string", description: "" });
+        renderFieldEditor(fieldEditor, fields);
+      });
+
+      runBtn.addEventListener("click", async (e: Event) => {
+        e.preventDefault();
+        activeFields = normalizeFields(fields);
+        if (!activeFields.length) {
+          status.textContent = "Add at least one named field.";
+          return;
+        }
+        setExtractionFields(activeFields);
+        const AbortControllerCtor = getAbortController();
+        abortController = AbortControllerCtor
+          ? new AbortControllerCtor()
+          : null;
+        updateButtons(true);
+        // Rows extracted with the same fields are kept; rerunning only
+        // processes papers that have not succeeded yet.
+        const fieldsKey = JSON.stringify(activeFields);
+        if (extractedFieldsKey !== fieldsKey) {
+          for (const row of rows) row.status = "pending";
+          extractedFieldsKey = fieldsKey;
+        }
+        const pending = rows.filter((row) => row.status !== "done");
+        for (const [index, row] of pending.entries()) {
+          if (abortController?.signal.aborted) break;
+          status.textContent = `Extracting ${index + 1}/${pending.length}…`;
+          row.status = "running";
+          renderResultsTable(results, rows, activeFields);
+          try {
+            await extractRow(row, activeFields, abortController?.signal);
+            row.status = "done";
+            row.error = undefined;
+          } catch (err) {
+            row.status = "failed";
+            row.error = err instanceof Error ? err.message : String(err);
+            ztoolkit.log(`LLM: Extraction failed for item ${row.item.id}`, err);
+          }
+        }
+        renderResultsTable(results, rows, activeFields);
+        const failed = rows.filter((row) => row.status === "failed").length;
+        const invalid = rows.filter(
+          (row) => Object.keys(row.errors).length,
+        ).length;
+        status.textContent = [
+          `${rows.filter((row) => row.status === "done").length}/${rows.length} extracted`,
+          failed ? `${failed} failed (run again to retry)` : "",
+          invalid ? `${invalid} with invalid values` : "",
+        ]
+          .filter(Boolean)
+          .join(", ");
+        abortController = null;
+        updateButtons(false);
+      });
+
+      csvBtn.addEventListener("click", async (e: Event) => {
+        e.preventDefault();
+        const path = await new ztoolkit.FilePicker(
+          "Export Extracted Data",
+          "save",
+          [["CSV (*.csv)", "*.csv"]],
+          "extracted-data.csv",
+        ).open();
+        if (!path) return;
+        try {
+          const done = rows.filter((row) => row.status === "done");
+          await Zotero.File.putContentsAsync(
+            path,
+            buildExtractionCsv(done, activeFields),
+          );
+          status.textContent = `Exported ${done.length} row${
+            done.length === 1 ? "" : "s"
+          }.`;
+        } catch (err) {
+          ztoolkit.log("LLM: CSV export failed", err);
+          status.textContent = "CSV export failed.";
+        }
+      });
+
+      extraBtn.addEventListener("click", async (e: Event) => {
+        e.preventDefault();
+        const done = rows.filter((row) => row.status === "done");
+        let written = 0;
+        for (const row of done) {
+          try {
+            await writeExtractionToExtra(row.item, activeFields, row.values);
+            written++;
+          } catch (err) {
+            ztoolkit.log(`LLM: Failed to write Extra of ${row.item.id}`, err);
+          }
+        }
+        status.textContent = `Wrote ${written}/${done.length} item${
+          done.length === 1 ? "" : "s"
+        } to Extra.`;
+      });
+    },
+    unloadCallback: () => {
+      abortController?.abort();
+    },
+  };
+
+  const dialog = new ztoolkit.Dialog(1, 1)
+    .addCell(
+      0,
+      0,
+      {
+        tag: "div",
+        namespace: "html",
+        id: "llm-extract-root",
+        styles: {
+          width: "720px",
+        },
+      },
+      false,
+    )
+    .addButton("Close", "close")
+    .setDialogData(dialogData)
+    .open("Extract Data");
+
+  addon.data.dialog = dialog;
+  await dialogData.unloadLock.promise;
+  addon.data.dialog = undefined;
+}
+
+export function registerExtractionMenu(): void {
+  ztoolkit.Menu.register("item", {
+    tag: "menuitem",
+    id: `${config.addonRef}-extract-data`,
+    label: getString("llm-menu-extract-data"),
+    icon: `chrome://${config.addonRef}/content/icons/icon-20.png`,
+    commandListener: () => {
+      const items = Zotero.getActiveZoteroPane()?.getSelectedItems() || [];
+      void openExtractionDialog(items).catch((err) =>
+        ztoolkit.log("LLM: Extraction dialog failed", err),
+      );
+    },
+  });
+}
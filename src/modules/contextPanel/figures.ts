@@ -0,0 +1,375 @@
+/**
+ * Figures and tables of a PDF, found by their captions.
+ *
+ * Caption lines ("Figure 2:", "Fig. 3.", "Table 1.") are looked up in the
+ * PDF.js text layer of the reader. A figure is assumed to fill the space
+ * above its caption up to the nearest paragraph line, a table the space
+ * below its caption down to the first large vertical gap. That region,
+ * caption included, is rendered from the page and cropped.
+ */
+
+import { FIGURE_CAPTION_MAX_LENGTH, FIGURE_RENDER_SCALE } from "./constants";
+import { resolveContextSourceItem } from "./contextResolution";
+import {
+  openReaderForAttachment,
+  waitForReaderPdfApp,
+  type PdfTextItem,
+} from "./pdfAnnotations";
+import { optimizeImageDataUrl } from "./screenshot";
+import { pdfFigureCache, pdfFigureLoadingTasks } from "./state";
+import { sanitizeText } from "./textUtils";
+import type { PdfFigure } from "./types";
+
+type TextLine = {
+  text: string;
+  x1: number;
+  x2: number;
+  /** Baseline in PDF units, y pointing up */
+  bottom: number;
+  top: number;
+  height: number;
+};
+
+type FigureRegion = {
+  kind: PdfFigure["kind"];
+  label: string;
+  caption: string;
+  /** [x1, y1, x2, y2] in PDF units */
+  rect: number[];
+};
+
+const CAPTION_PATTERN =
+  /^(fig(?:ure)?|tab(?:le)?)\.?\s*(\d+|[IVXL]+)\s*[.:|–—-](?!\d)/i;
+/** Lines with this many words are taken as running text, not figure labels */
+const PARAGRAPH_LINE_MIN_WORDS = 8;
+/** Vertical gap, in line heights, that ends a table */
+const TABLE_GAP_LINES = 2.5;
+/** Caption lines kept at most */
+const CAPTION_MAX_LINES = 8;
+/** Padding around the crop in PDF units */
+const CROP_PADDING = 4;
+
+function buildTextLines(items: PdfTextItem[]): TextLine[] {
+  const lines: TextLine[] = [];
+  let current: TextLine | null = null;
+  const flush = () => {
+    if (current && current.text.trim()) {
+      current.text = current.text.replace(/\s+/g, " ").trim();
+      lines.push(current);
+    }
+    current = null;
+  };
+  for (const item of items) {
+    const str = item.str || "";
+    const transform = item.transform || [];
+    if (str.trim() && transform.length >= 6) {
+      const x = transform[4];
+      const y = transform[5];
+      const height = Math.abs(item.height || transform[3] || 0) || 10;
+      const width = Math.max(0, item.width || 0);
+      const line = current as TextLine | null;
+      if (
+        line &&
+        Math.abs(line.bottom - y) < height * 0.5 &&
+        x >= line.x1 - 1 &&
+        x - line.x2 < height * 2
+      ) {
+        if (x - line.x2 > height * 0.2 && !/\s$/.test(line.text)) {
+          line.text += " ";
+        }
+        line.text += str;
+        line.x2 = Math.max(line.x2, x + width);
+        line.top = Math.max(line.top, y + height);
+        line.height = Math.max(line.height, height);
+      } else {
+        flush();
+        current = {
+          text: str,
+          x1: x,
+          x2: x + width,
+          bottom: y,
+          top: y + height,
+          height,
+        };
+      }
+    }
+    if (item.hasEOL) flush();
+  }
+  flush();
+  return lines;
+}
+
+/** Kind and label of a caption line, `null` for other lines */
+export function parseCaption(
+  text: string,
+): { kind: PdfFigure["kind"]; label: string } | null {
+  const match = CAPTION_PATTERN.exec(text);
+  if (!match) return null;
+  const kind = match[1].toLowerCase().startsWith("fig") ? "figure" : "table";
+  return {
+    kind,
+    label: `${kind === "figure" ? "Figure" : "Table"} ${match[2]}`,
+  };
+}
+
+function isParagraphLine(line: TextLine): boolean {
+  return line.text.split(/\s+/).length >= PARAGRAPH_LINE_MIN_WORDS;
+}
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function findFigureRegions(lines: TextLine[], view: number[]): FigureRegion[] {
+  if (!lines.length) return [];
+  const left = Math.min(...lines.map((line) => line.x1));
+  const right = Math.max(...lines.map((line) => line.x2));
+  const mid = (left + right) / 2;
+  // Most lines stay in one half of a two-column page.
+  const spanning = lines.filter(
+    (line) => line.x1 < mid - line.height && line.x2 > mid + line.height,
+  ).length;
+  const twoColumn = spanning < lines.length * 0.3;
+  const lineHeight = median(lines.map((line) => line.height)) || 10;
+
+  const getColumn = (line: TextLine): [number, number] => {
+    if (!twoColumn) return [left, right];
+    if (line.x2 <= mid + line.height) return [left, mid];
+    if (line.x1 >= mid - line.height) return [mid, right];
+    return [left, right];
+  };
+  const inColumn = (line: TextLine, column: [number, number]) =>
+    line.x2 > column[0] && line.x1 < column[1];
+
+  const regions: FigureRegion[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const parsed = parseCaption(lines[i].text);
+    if (!parsed) continue;
+    const column = getColumn(lines[i]);
+    const captionLines = [lines[i]];
+    for (let j = i + 1; j < lines.length; j++) {
+      const previous = captionLines[captionLines.length - 1];
+      const next = lines[j];
+      const gap = previous.bottom - next.top;
+      if (
+        captionLines.length >= CAPTION_MAX_LINES ||
+        !inColumn(next, column) ||
+        gap < -previous.height * 0.5 ||
+        gap > previous.height * 1.2 ||
+        parseCaption(next.text)
+      ) {
+        break;
+      }
+      captionLines.push(next);
+    }
+    const captionTop = captionLines[0].top;
+    const captionBottom = captionLines[captionLines.length - 1].bottom;
+    const caption = sanitizeText(
+      captionLines.map((line) => line.text).join(" "),
+    )
+      .replace(/-\s+(?=\p{Ll})/gu, "")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, FIGURE_CAPTION_MAX_LENGTH);
+
+    let top: number;
+    let bottom: number;
+    if (parsed.kind === "figure") {
+      const blockers = lines.filter(
+        (line) =>
+          line.bottom > captionTop &&
+          inColumn(line, column) &&
+          (isParagraphLine(line) || parseCaption(line.text)),
+      );
+      // Stop below the descenders of the nearest blocking line.
+      top = blockers.length
+        ? Math.min(...blockers.map((line) => line.bottom)) -
+          lineHeight * 0.3 -
+          CROP_PADDING
+        : view[3];
+      bottom = captionBottom - lineHeight * 0.3;
+      if (top - captionTop < lineHeight * 2) continue;
+    } else {
+      const below = lines
+        .filter((line) => line.top < captionBottom && inColumn(line, column))
+        .sort((a, b) => b.top - a.top);
+      let last = captionLines[captionLines.length - 1];
+      for (const line of below) {
+        if (last.bottom - line.top > lineHeight * TABLE_GAP_LINES) break;
+        if (parseCaption(line.text)) break;
+        last = line;
+      }
+      if (last === captionLines[captionLines.length - 1]) continue;
+      top = captionTop;
+      bottom = last.bottom - lineHeight * 0.3;
+    }
+    regions.push({
+      ...parsed,
+      caption,
+      rect: [
+        Math.max(view[0], column[0] - CROP_PADDING),
+        Math.max(view[1], bottom - CROP_PADDING),
+        Math.min(view[2], column[1] + CROP_PADDING),
+        Math.min(view[3], top + CROP_PADDING),
+      ],
+    });
+  }
+  return regions;
+}
+
+/**
+ * Plain object created in the reader's compartment, so PDF.js can read
+ * parameters handed over from chrome code.
+ */
+function toContentObject(
+  contentWindow: any,
+  values: Record<string, unknown>,
+): any {
+  const target = new contentWindow.Object();
+  for (const [key, value] of Object.entries(values)) target[key] = value;
+  return target;
+}
+
+async function renderRegions(
+  page: any,
+  view: number[],
+  rects: number[][],
+  contentWindow: any,
+  win: Window,
+): Promise<string[]> {
+  const viewport = page.getViewport(
+    toContentObject(contentWindow, { scale: FIGURE_RENDER_SCALE }),
+  );
+  const canvas = contentWindow.document.createElement("canvas");
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  await page.render(
+    toContentObject(contentWindow, {
+      canvasContext: canvas.getContext("2d"),
+      viewport,
+    }),
+  ).promise;
+
+  const images: string[] = [];
+  for (const rect of rects) {
+    const sx = Math.max(
+      0,
+      Math.floor((rect[0] - view[0]) * FIGURE_RENDER_SCALE),
+    );
+    const sy = Math.max(
+      0,
+      Math.floor((view[3] - rect[3]) * FIGURE_RENDER_SCALE),
+    );
+    const width = Math.min(
+      canvas.width - sx,
+      Math.ceil((rect[2] - rect[0]) * FIGURE_RENDER_SCALE),
+    );
+    const height = Math.min(
+      canvas.height - sy,
+      Math.ceil((rect[3] - rect[1]) * FIGURE_RENDER_SCALE),
+    );
+    if (width <= 0 || height <= 0) {
+      images.push("");
+      continue;
+    }
+    const crop = win.document.createElement("canvas") as HTMLCanvasElement;
+    crop.width = width;
+    crop.height = height;
+    const ctx = crop.getContext("2d") as CanvasRenderingContext2D | null;
+    if (!ctx) {
+      images.push("");
+      continue;
+    }
+    ctx.drawImage(canvas, sx, sy, width, height, 0, 0, width, height);
+    images.push(await optimizeImageDataUrl(win, crop.toDataURL("image/png")));
+  }
+  // Let the page-sized canvas go right away.
+  canvas.width = 0;
+  canvas.height = 0;
+  return images;
+}
+
+async function detectFigures(
+  attachment: Zotero.Item,
+  win: Window,
+): Promise<PdfFigure[]> {
+  const reader = await openReaderForAttachment(attachment);
+  const app = reader ? await waitForReaderPdfApp(reader) : null;
+  if (!app) throw new Error("The PDF could not be opened in the reader");
+  const viewWindow = reader._internalReader?._primaryView?._iframeWindow;
+  const contentWindow = viewWindow?.wrappedJSObject || viewWindow;
+
+  const pdfDocument = app.pdfDocument;
+  const figures: PdfFigure[] = [];
+  const seen = new Set<string>();
+  for (let pageIndex = 0; pageIndex < pdfDocument.numPages; pageIndex++) {
+    const page = await pdfDocument.getPage(pageIndex + 1);
+    const content = await page.getTextContent();
+    const view = Array.from((page.view || [0, 0, 0, 0]) as number[]);
+    const regions = findFigureRegions(
+      buildTextLines(Array.from((content?.items || []) as PdfTextItem[])),
+      view,
+    ).filter((region) => {
+      // The first caption wins; later matches are usually references.
+      if (seen.has(region.label)) return false;
+      seen.add(region.label);
+      return true;
+    });
+    if (!regions.length) continue;
+    let images: string[] = [];
+    try {
+      images = await renderRegions(
+        page,
+        view,
+        regions.map((region) => region.rect),
+        contentWindow,
+        win,
+      );
+    } catch (err) {
+      ztoolkit.log("LLM: Failed to render figures of page", pageIndex + 1, err);
+      continue;
+    }
+    regions.forEach((region, index) => {
+      if (!images[index]) return;
+      figures.push({
+        kind: region.kind,
+        label: region.label,
+        caption: region.caption,
+        pageIndex,
+        image: images[index],
+      });
+    });
+  }
+  return figures;
+}
+
+/**
+ * Figures and tables of the panel item's PDF, detected once per attachment.
+ * Opens the PDF in the reader when it is not open yet.
+ */
+export async function getPdfFigures(
+  panelItem: Zotero.Item,
+  win: Window,
+): Promise<PdfFigure[]> {
+  const attachment = resolveContextSourceItem(panelItem).contextItem;
+  if (!attachment?.isPDFAttachment?.()) {
+    throw new Error("No PDF attachment for this item");
+  }
+  const cached = pdfFigureCache.get(attachment.id);
+  if (cached) return cached;
+  let task = pdfFigureLoadingTasks.get(attachment.id);
+  if (!task) {
+    task = detectFigures(attachment, win)
+      .then((figures) => {
+        pdfFigureCache.set(attachment.id, figures);
+        return figures;
+      })
+      .finally(() => {
+        pdfFigureLoadingTasks.delete(attachment.id);
+      });
+    pdfFigureLoadingTasks.set(attachment.id, task);
+  }
+  return task;
+}
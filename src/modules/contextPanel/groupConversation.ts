@@ -0,0 +1,202 @@
+/**
+ * Multi-paper ("group") conversations started from the library pane.
+ *
+ * A group conversation is hosted in the panel of its first paper (the
+ * anchor). While it is active, the anchor's panel reads and writes the
+ * group's history and retrieves context from every paper in the group.
+ */
+
+import { getString } from "../../utils/locale";
+import {
+  getOrCreateGroupConversation,
+  type StoredGroupConversation,
+} from "../../utils/chatStore";
+import { config, MAX_GROUP_PAPERS } from "./constants";
+import { activeGroupConversations } from "./state";
+import { sanitizeText } from "./textUtils";
+import {
+  getContextAttachmentForItem,
+  revealItemPanel,
+} from "./contextResolution";
+
+export type GroupPaper = {
+  item: Zotero.Item;
+  contextItem: Zotero.Item;
+  label: string;
+  title: string;
+};
+
+function getHostItemId(item: Zotero.Item): number {
+  return item.isAttachment() && item.parentID ? item.parentID : item.id;
+}
+
+export function getActiveGroupConversation(
+  item: Zotero.Item | null | undefined,
+): StoredGroupConversation | null {
+  if (!item) return null;
+  return activeGroupConversations.get(getHostItemId(item)) || null;
+}
+
+export function leaveGroupConversation(item: Zotero.Item): void {
+  activeGroupConversations.delete(getHostItemId(item));
+}
+
+function getPaperCitationLabel(item: Zotero.Item): string {
+  const creator = sanitizeText(`${item.getField("firstCreator") || ""}`).trim();
+  const year = `${item.getField("date") || ""}`.match(/\b(\d{4})\b/)?.[1];
+  const label = [creator, year].filter(Boolean).join(" ");
+  if (label) return label;
+  const title = sanitizeText(`${item.getField("title") || ""}`).trim();
+  return title ? title.split(/\s+/).slice(0, 4).join(" ") : `Item ${item.id}`;
+}
+
+/**
+ * Resolve the papers of a group with their PDFs and citation labels.
+ * Duplicate labels get a letter suffix ("Smith 2021a", "Smith 2021b").
+ */
+export function resolveGroupPapers(
+  group: StoredGroupConversation,
+): GroupPaper[] {
+  const papers: GroupPaper[] = [];
+  for (const itemId of group.itemIds) {
+    const item = Zotero.Items.get(itemId);
+    if (!item || item.deleted) continue;
+    const contextItem = getContextAttachmentForItem(item);
+    if (!contextItem) continue;
+    papers.push({
+      item,
+      contextItem,
+      label: getPaperCitationLabel(item),
+      title: sanitizeText(`${item.getField("title") || ""}`).trim(),
+    });
+  }
+
+  const labelCounts = new Map<string, number>();
+  for (const paper of papers) {
+    labelCounts.set(paper.label, (labelCounts.get(paper.label) || 0) + 1);
+  }
+  const labelSeen = new Map<string, number>();
+  for (const paper of papers) {
+    if ((labelCounts.get(paper.label) || 0) < 2) continue;
+    const seen = labelSeen.get(paper.label) || 0;
+    labelSeen.set(paper.label, seen + 1);
+    paper.label = `${paper.label}${String.fromCharCode(97 + (seen % 26))}`;
+  }
+  return papers;
+}
+
+function collectGroupItems(items: Zotero.Item[]): Zotero.Item[] {
+  const collected = new Map<number, Zotero.Item>();
+  for (const item of items) {
+    if (!item || item.deleted) continue;
+    const hostItem =
+      item.isAttachment() && item.parentID
+        ? Zotero.Items.get(item.parentID)
+        : item;
+    if (!hostItem || collected.has(hostItem.id)) continue;
+    if (!hostItem.isRegularItem() && !hostItem.isAttachment()) continue;
+    if (!getContextAttachmentForItem(hostItem)) continue;
+    collected.set(hostItem.id, hostItem);
+  }
+  return Array.from(collected.values());
+}
+
+function showGroupMessage(text: string, type: "default" | "fail" = "default") {
+  new ztoolkit.ProgressWindow(config.addonName, {
+    closeOnClick: true,
+    closeTime: 4000,
+  })
+    .createLine({ text, type })
+    .show();
+}
+
+async function openGroupConversation(
+  items: Zotero.Item[],
+  label: string,
+): Promise<void> {
+  let papers = collectGroupItems(items);
+  if (papers.length < 2) {
+    showGroupMessage(getString("llm-group-too-few"), "fail");
+    return;
+  }
+  if (papers.length > MAX_GROUP_PAPERS) {
+    showGroupMessage(
+      getString("llm-group-truncated", { args: { count: MAX_GROUP_PAPERS } }),
+    );
+    papers = papers.slice(0, MAX_GROUP_PAPERS);
+  }
+
+  let group: StoredGroupConversation | null = null;
+  try {
+    group = await getOrCreateGroupConversation(
+      papers.map((paper) => paper.id),
+      label,
+    );
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to create group conversation", err);
+  }
+  if (!group) {
+    showGroupMessage(getString("llm-group-failed"), "fail");
+    return;
+  }
+
+  const anchor = papers[0];
+  activeGroupConversations.set(anchor.id, group);
+  // Selecting the anchor renders its panel, which now hosts the group.
+  await revealItemPanel(anchor.id);
+}
+
+/**
+ * Reopen a stored group in the panel of its first available paper.
+ * Returns false when none of its papers has a PDF any more.
+ */
+export async function showGroupConversation(
+  group: StoredGroupConversation,
+): Promise<boolean> {
+  const anchor = collectGroupItems(
+    group.itemIds
+      .map((itemId) => Zotero.Items.get(itemId))
+      .filter((item): item is Zotero.Item => Boolean(item)),
+  )[0];
+  if (!anchor) return false;
+  activeGroupConversations.set(anchor.id, group);
+  await revealItemPanel(anchor.id);
+  return true;
+}
+
+export function registerGroupConversationMenus(): void {
+  const icon = `chrome://${config.addonRef}/content/icons/icon-20.png`;
+  ztoolkit.Menu.register("item", {
+    tag: "menuitem",
+    id: `${config.addonRef}-ask-selected-items`,
+    label: getString("llm-menu-ask-selected"),
+    icon,
+    getVisibility: () =>
+      (Zotero.getActiveZoteroPane()?.getSelectedItems() || []).length > 1,
+    commandListener: () => {
+      const items = Zotero.getActiveZoteroPane()?.getSelectedItems() || [];
+      void openGroupConversation(
+        items,
+        getString("llm-group-selection-label", {
+          args: { count: items.length },
+        }),
+      );
+    },
+  });
+  ztoolkit.Menu.register("collection", {
+    tag: "menuitem",
+    id: `${config.addonRef}-ask-collection`,
+    label: getString("llm-menu-ask-collection"),
+    icon,
+    getVisibility: () =>
+      Boolean(Zotero.getActiveZoteroPane()?.getSelectedCollection()),
+    commandListener: () => {
+      const collection = Zotero.getActiveZoteroPane()?.getSelectedCollection();
+      if (!collection) return;
+      void openGroupConversation(
+        collection.getChildItems(false, false),
+        collection.name,
+      );
+    },
+  });
+}
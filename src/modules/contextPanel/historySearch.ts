@@ -0,0 +1,258 @@
+/**
+ * Full-text search over stored chat history across all papers.
+ *
+ * The dialog lists matching messages with their paper, thread, date and
+ * model; clicking one opens that conversation (and thread) in the panel.
+ */
+
+import { getString } from "../../utils/locale";
+import { createElement } from "../../utils/domHelpers";
+import {
+  getGroupConversationByKey,
+  isGroupConversationKey,
+  searchChatMessages,
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+  type ChatSearchHit,
+} from "../../utils/chatStore";
+import { config, HISTORY_SEARCH_MAX_RESULTS } from "./constants";
+import { revealItemPanel } from "./contextResolution";
+import {
+  leaveGroupConversation,
+  showGroupConversation,
+} from "./groupConversation";
+import { activateThread } from "./threads";
+import { formatTime, sanitizeText } from "./textUtils";
+
+async function getConversationTitle(conversationKey: number): Promise<string> {
+  if (isGroupConversationKey(conversationKey)) {
+    const group = await getGroupConversationByKey(conversationKey);
+    return group ? `Group: ${group.label}` : "Deleted group";
+  }
+  const item = Zotero.Items.get(conversationKey);
+  if (!item) return "Deleted item";
+  const title = sanitizeText(`${item.getField("title") || ""}`).trim();
+  return title || `Item ${conversationKey}`;
+}
+
+/** Open the conversation and thread of a search hit in the panel */
+export async function openChatSearchHit(hit: ChatSearchHit): Promise<boolean> {
+  if (isGroupConversationKey(hit.conversationKey)) {
+    const group = await getGroupConversationByKey(hit.conversationKey);
+    if (!group) return false;
+    if (hit.threadId) activateThread(hit.conversationKey, hit.threadId);
+    return showGroupConversation(group);
+  }
+
+  const item = Zotero.Items.get(hit.conversationKey);
+  if (!item || item.deleted) return false;
+  // Show the paper's own conversation even if it currently hosts a group.
+  leaveGroupConversation(item);
+  if (hit.threadId) activateThread(hit.conversationKey, hit.threadId);
+  await revealItemPanel(item.id);
+  return true;
+}
+
+const SNIPPET_MATCH_PATTERN = new RegExp(
+  `(${SNIPPET_MATCH_START}[^${SNIPPET_MATCH_END}]*${SNIPPET_MATCH_END})`,
+);
+
+function appendHighlightedSnippet(
+  doc: Document,
+  container: HTMLElement,
+  snippet: string,
+) {
+  // Split before sanitizing, which would strip the match markers.
+  const parts = snippet.split(SNIPPET_MATCH_PATTERN);
+  for (const part of parts) {
+    const isMatch = part.startsWith(SNIPPET_MATCH_START);
+    const text = sanitizeText(isMatch ? part.slice(1, -1) : part).replace(
+      /\s+/g,
+      " ",
+    );
+    if (!text) continue;
+    if (isMatch) {
+      container.appendChild(
+        createElement(doc, "mark", "", { textContent: text }),
+      );
+    } else {
+      container.appendChild(doc.createTextNode(text));
+    }
+  }
+}
+
+async function renderHits(
+  container: HTMLElement,
+  hits: ChatSearchHit[],
+  onOpen: (hit: ChatSearchHit) => void,
+): Promise<void> {
+  const doc = container.ownerDocument!;
+  const titles = new Map<number, string>();
+  for (const hit of hits) {
+    if (!titles.has(hit.conversationKey)) {
+      titles.set(
+        hit.conversationKey,
+        await getConversationTitle(hit.conversationKey),
+      );
+    }
+  }
+
+  container.innerHTML = "";
+  if (!hits.length) {
+    container.appendChild(
+      createElement(doc, "div", "", { textContent: "No matching messages." }),
+    );
+    return;
+  }
+  for (const hit of hits) {
+    const entry = createElement(doc, "button", "", {
+      type: "button",
+      title: "Open conversation",
+    });
+    Object.assign(entry.style, {
+      display: "block",
+      width: "100%",
+      margin: "0 0 6px 0",
+      padding: "6px 8px",
+      textAlign: "left",
+      cursor: "pointer",
+    });
+    const heading = createElement(doc, "div", "", {
+      textContent: `${titles.get(hit.conversationKey)} · ${hit.threadTitle}`,
+    });
+    heading.style.fontWeight = "600";
+    const meta = createElement(doc, "div", "", {
+      textContent: [
+        `${new Date(hit.timestamp).toLocaleDateString()} ${formatTime(hit.timestamp)}`,
+        hit.role === "assistant" ? hit.modelName || "assistant" : "you",
+      ].join(" · "),
+    });
+    meta.style.opacity = "0.7";
+    const snippet = createElement(doc, "div", "");
+    snippet.style.marginTop = "2px";
+    appendHighlightedSnippet(doc, snippet, hit.snippet);
+    entry.append(heading, meta, snippet);
+    entry.addEventListener("click", (e: Event) => {
+      e.preventDefault();
+      onOpen(hit);
+    });
+    container.appendChild(entry);
+  }
+}
+
+export async function openHistorySearchDialog(): Promise<void> {
+  const dialogData: { [key: string]: any } = {
+    loadCallback: () => {
+      const win = dialog.window;
+      const doc = win?.document;
+      const input = doc?.getElementById(
+        "llm-history-query",
+      ) as HTMLInputElement | null;
+      const results = doc?.getElementById(
+        "llm-history-results",
+      ) as HTMLDivElement | null;
+      if (!win || !input || !results) return;
+
+      let searchId = 0;
+      let timer: number | undefined;
+      const openHit = (hit: ChatSearchHit) => {
+        void openChatSearchHit(hit)
+          .then((opened) => {
+            if (opened) win.close();
+            else results.prepend("This conversation is no longer available.");
+          })
+          .catch((err) =>
+            ztoolkit.log("LLM: Failed to open chat history result", err),
+          );
+      };
+      const runSearch = async () => {
+        const currentId = ++searchId;
+        const query = input.value.trim();
+        if (!query) {
+          results.innerHTML = "";
+          return;
+        }
+        try {
+          const hits = await searchChatMessages(
+            query,
+            HISTORY_SEARCH_MAX_RESULTS,
+          );
+          if (currentId !== searchId) return;
+          await renderHits(results, hits, openHit);
+        } catch (err) {
+          ztoolkit.log("LLM: Chat history search failed", err);
+          if (currentId === searchId) {
+            results.textContent = "Search failed.";
+          }
+        }
+      };
+      input.addEventListener("input", () => {
+        if (timer !== undefined) win.clearTimeout(timer);
+        timer = win.setTimeout(() => void runSearch(), 250);
+      });
+      input.addEventListener("keydown", (e: KeyboardEvent) => {
+        if (e.key !== "Enter") return;
+        e.preventDefault();
+        if (timer !== undefined) win.clearTimeout(timer);
+        void runSearch();
+      });
+      input.focus();
+    },
+    unloadCallback: () => {
+      return;
+    },
+  };
+
+  const dialog = new ztoolkit.Dialog(2, 1)
+    .addCell(
+      0,
+      0,
+      {
+        tag: "input",
+        namespace: "html",
+        id: "llm-history-query",
+        attributes: {
+          type: "search",
+          placeholder: "Search questions and answers in all papers",
+        },
+        styles: {
+          width: "520px",
+          marginBottom: "8px",
+        },
+      },
+      false,
+    )
+    .addCell(
+      1,
+      0,
+      {
+        tag: "div",
+        namespace: "html",
+        id: "llm-history-results",
+        styles: {
+          width: "520px",
+          height: "360px",
+          overflowY: "auto",
+        },
+      },
+      false,
+    )
+    .addButton("Close", "close")
+    .setDialogData(dialogData)
+    .open("Search Chat History");
+
+  addon.data.dialog = dialog;
+  await dialogData.unloadLock.promise;
+  addon.data.dialog = undefined;
+}
+
+export function registerHistorySearchMenu(): void {
+  ztoolkit.Menu.register("menuTools", {
+    tag: "menuitem",
+    id: `${config.addonRef}-search-history`,
+    label: getString("llm-menu-search-history"),
+    commandListener: () => {
+      void openHistorySearchDialog();
+    },
+  });
+}
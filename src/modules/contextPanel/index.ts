@@ -11,11 +11,23 @@
  * - buildUI.ts     – UI construction
  * - setupHandlers.ts – event handler wiring
  * - chat.ts        – conversation logic, send/refresh
+ * - branches.ts    – message tree, edit/regenerate branches
+ * - threads.ts     – named conversation threads per paper
+ * - memory.ts      – rolling summaries of long conversations
+ * - historySearch.ts – full-text search over stored chat history
  * - shortcuts.ts   – shortcut rendering and management
  * - screenshot.ts  – screenshot capture from PDF reader
- * - pdfContext.ts   – PDF text extraction, chunking, BM25, embeddings
+ * - figures.ts     – figure/table detection from captions
+ * - ocr.ts         – transcription of scanned PDFs by a vision model
+ * - attachments.ts – images and text files dropped or pasted into the input
+ * - pdfContext.ts   – PDF/EPUB/snapshot text extraction, chunking, BM25, embeddings
+ * - sections.ts    – section headings, section boosting and pinning
+ * - retrieval.ts   – per-conversation override of the retrieval mode
+ * - references.ts  – reference list parsing, cited works added to Zotero
  * - notes.ts       – Zotero note creation from chat
  * - contextResolution.ts – tab/reader context resolution
+ * - groupConversation.ts – multi-paper conversations from the library pane
+ * - librarySearch.ts – library-wide `/search` over indexed PDFs
  * - menuPositioning.ts   – dropdown/context menu positioning
  * - prefHelpers.ts – preference access helpers
  * - textUtils.ts   – text sanitization, formatting
@@ -32,6 +44,8 @@ import {
   recentReaderSelectionCache,
   selectedTextCache,
   selectedTextPreviewExpandedCache,
+  conversationThreads,
+  activeThreadIds,
 } from "./state";
 import { clearConversation as clearStoredConversation } from "../../utils/chatStore";
 import { normalizeSelectedText, setStatus } from "./textUtils";
@@ -49,6 +63,14 @@ import {
   applySelectedTextPreview,
 } from "./contextResolution";
 import { ensurePDFTextCached } from "./pdfContext";
+import { updateOcrNotice } from "./ocr";
+import { renderSectionPicker } from "./sections";
+import { resetConversationBranches } from "./branches";
+
+export { registerGroupConversationMenus } from "./groupConversation";
+export { registerHistorySearchMenu } from "./historySearch";
+export { cancelBatchJob, registerBatchJobMenus } from "./batchJobs";
+export { registerExtractionMenu } from "./extraction";
 
 // =============================================================================
 // Public API
@@ -108,7 +130,11 @@ export function registerReaderContextPanel() {
       // Defer PDF extraction so the panel becomes interactive sooner.
       const activeContextItem = getActiveContextAttachmentFromTabs();
       if (activeContextItem) {
-        void ensurePDFTextCached(activeContextItem);
+        void ensurePDFTextCached(activeContextItem).then(() => {
+          if (!item) return;
+          updateOcrNotice(body, item);
+          renderSectionPicker(body, item);
+        });
       }
     },
   });
@@ -304,6 +330,9 @@ export function registerReaderSelectionTracking() {
 
 export function clearConversation(itemId: number) {
   chatHistory.delete(itemId);
+  resetConversationBranches(itemId);
+  conversationThreads.delete(itemId);
+  activeThreadIds.delete(itemId);
   loadedConversationKeys.add(itemId);
   void clearStoredConversation(itemId).catch((err) => {
     ztoolkit.log("LLM: Failed to clear persisted chat history", err);
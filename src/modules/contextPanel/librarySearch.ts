@@ -0,0 +1,234 @@
+/**
+ * Library-wide passage search (`/search <query>` in the panel input).
+ *
+ * Ranks chunks of every PDF that already has a persisted index in the
+ * current library, using the same BM25 + embedding hybrid as the chat
+ * context, and lists the best passages with their item titles.
+ */
+
+import { createElement } from "../../utils/domHelpers";
+import { getEmbeddingModel } from "../../utils/llmClient";
+import { loadLibraryEmbeddingIndexes } from "../../utils/embeddingStore";
+import {
+  LIBRARY_SEARCH_MAX_PER_ITEM,
+  LIBRARY_SEARCH_MAX_RESULTS,
+  LIBRARY_SEARCH_SNIPPET_LENGTH,
+  SEARCH_COMMAND_PREFIX,
+} from "./constants";
+import { embedQuery, getChunkPage, rankPooledChunks } from "./pdfContext";
+import { sanitizeText } from "./textUtils";
+import type { LibrarySearchResult } from "./types";
+
+/** Return the query of a `/search` command, or `null` for a normal question */
+export function parseSearchCommand(text: string): string | null {
+  const trimmed = text.trim();
+  if (!trimmed.toLowerCase().startsWith(SEARCH_COMMAND_PREFIX)) return null;
+  const rest = trimmed.slice(SEARCH_COMMAND_PREFIX.length);
+  if (rest && !/^\s/.test(rest)) return null;
+  return rest.trim();
+}
+
+function getItemTitle(attachmentId: number): string {
+  const attachment = Zotero.Items.get(attachmentId);
+  if (!attachment) return `Attachment ${attachmentId}`;
+  const parent = attachment.parentID
+    ? Zotero.Items.get(attachment.parentID)
+    : null;
+  const title = sanitizeText(
+    `${(parent || attachment).getField("title") || ""}`,
+  ).trim();
+  return title || `Attachment ${attachmentId}`;
+}
+
+/** Cut a passage around the first query term so the match is visible */
+function buildSnippet(text: string, query: string): string {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  if (normalized.length <= LIBRARY_SEARCH_SNIPPET_LENGTH) return normalized;
+  const lower = normalized.toLowerCase();
+  const terms = query
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length >= 3);
+  const hits = terms
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position >= 0);
+  const firstHit = hits.length ? Math.min(...hits) : 0;
+  const start = Math.max(
+    0,
+    Math.min(
+      firstHit - Math.floor(LIBRARY_SEARCH_SNIPPET_LENGTH / 4),
+      normalized.length - LIBRARY_SEARCH_SNIPPET_LENGTH,
+    ),
+  );
+  const end = start + LIBRARY_SEARCH_SNIPPET_LENGTH;
+  return `${start > 0 ? "…" : ""}${normalized.slice(start, end).trim()}${
+    end < normalized.length ? "…" : ""
+  }`;
+}
+
+export async function searchLibrary(
+  libraryID: number,
+  query: string,
+  apiOverrides?: { apiBase?: string; apiKey?: string },
+): Promise<LibrarySearchResult[]> {
+  const indexes = await loadLibraryEmbeddingIndexes(
+    libraryID,
+    getEmbeddingModel(apiOverrides?.apiBase),
+  );
+  if (!indexes.length) return [];
+
+  const queryEmbedding = indexes.some((index) => index.embeddings?.length)
+    ? await embedQuery(query, apiOverrides)
+    : null;
+  const ranked = rankPooledChunks(indexes, query, queryEmbedding);
+
+  const results: LibrarySearchResult[] = [];
+  const perItemCounts = new Map<number, number>();
+  for (const entry of ranked) {
+    if (results.length >= LIBRARY_SEARCH_MAX_RESULTS) break;
+    if (entry.score <= 0) break;
+    const index = indexes[entry.sourceIndex];
+    const count = perItemCounts.get(index.attachmentId) || 0;
+    if (count >= LIBRARY_SEARCH_MAX_PER_ITEM) continue;
+    perItemCounts.set(index.attachmentId, count + 1);
+    results.push({
+      attachmentId: index.attachmentId,
+      title: getItemTitle(index.attachmentId),
+      chunkIndex: entry.index,
+      chunkCount: index.chunks.length,
+      page: getChunkPage(index, entry.index) ?? undefined,
+      snippet: buildSnippet(index.chunks[entry.index] || "", query),
+      score: entry.score,
+    });
+  }
+  return results;
+}
+
+/**
+ * Estimate the page of a chunk from its position in the document, for
+ * indexes of text without page breaks.
+ */
+async function estimatePageIndex(
+  result: LibrarySearchResult,
+): Promise<number | null> {
+  try {
+    const pages = (await (
+      Zotero as unknown as {
+        Fulltext?: {
+          getPages?: (
+            itemID: number,
+          ) => Promise<{ total?: number | null } | false>;
+        };
+      }
+    ).Fulltext?.getPages?.(result.attachmentId)) as
+      | { total?: number | null }
+      | false
+      | undefined;
+    const total = Number(pages ? pages.total : 0);
+    if (!Number.isFinite(total) || total <= 0 || !result.chunkCount) {
+      return null;
+    }
+    return Math.min(
+      total - 1,
+      Math.floor((result.chunkIndex / result.chunkCount) * total),
+    );
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to read page count", err);
+    return null;
+  }
+}
+
+export async function openSearchResult(
+  result: LibrarySearchResult,
+): Promise<void> {
+  const pageIndex = result.page
+    ? result.page - 1
+    : await estimatePageIndex(result);
+  await Zotero.Reader.open(
+    result.attachmentId,
+    pageIndex === null ? undefined : { pageIndex },
+  );
+}
+
+export function hideSearchResults(body: Element): void {
+  const container = body.querySelector(
+    "#llm-search-results",
+  ) as HTMLDivElement | null;
+  if (!container || container.style.display === "none") return;
+  container.innerHTML = "";
+  container.style.display = "none";
+  const chatBox = body.querySelector("#llm-chat-box") as HTMLDivElement | null;
+  if (chatBox) chatBox.style.display = "";
+}
+
+export function renderSearchResults(
+  body: Element,
+  query: string,
+  results: LibrarySearchResult[],
+  onClose: () => void,
+): void {
+  const chatBox = body.querySelector("#llm-chat-box") as HTMLDivElement | null;
+  const container = body.querySelector(
+    "#llm-search-results",
+  ) as HTMLDivElement | null;
+  if (!container) return;
+  const doc = body.ownerDocument!;
+
+  container.innerHTML = "";
+  const header = createElement(doc, "div", "llm-search-results-header");
+  const heading = createElement(doc, "div", "llm-search-results-title", {
+    textContent: `${results.length} passage${results.length === 1 ? "" : "s"} for “${query}”`,
+  });
+  const closeBtn = createElement(doc, "button", "llm-btn-icon", {
+    type: "button",
+    textContent: "Back to chat",
+  });
+  closeBtn.addEventListener("click", (e: Event) => {
+    e.preventDefault();
+    e.stopPropagation();
+    hideSearchResults(body);
+    onClose();
+  });
+  header.append(heading, closeBtn);
+  container.appendChild(header);
+
+  if (!results.length) {
+    container.appendChild(
+      createElement(doc, "div", "llm-search-result-empty", {
+        textContent:
+          "No matching passages. Only PDFs that have been opened in the chat panel are indexed.",
+      }),
+    );
+  }
+  for (const result of results) {
+    const entry = createElement(doc, "button", "llm-search-result", {
+      type: "button",
+      title: "Open in reader",
+    });
+    entry.append(
+      createElement(doc, "div", "llm-search-result-title", {
+        textContent: result.title,
+      }),
+      createElement(doc, "div", "llm-search-result-meta", {
+        textContent: result.page
+          ? `Excerpt ${result.chunkIndex + 1}/${result.chunkCount} · p. ${result.page}`
+          : `Excerpt ${result.chunkIndex + 1}/${result.chunkCount}`,
+      }),
+      createElement(doc, "div", "llm-search-result-snippet", {
+        textContent: result.snippet,
+      }),
+    );
+    entry.addEventListener("click", (e: Event) => {
+      e.preventDefault();
+      e.stopPropagation();
+      void openSearchResult(result).catch((err) =>
+        ztoolkit.log("LLM: Failed to open search result", err),
+      );
+    });
+    container.appendChild(entry);
+  }
+
+  if (chatBox) chatBox.style.display = "none";
+  container.style.display = "";
+  container.scrollTop = 0;
+}
@@ -0,0 +1,241 @@
+/**
+ * Conversation memory for long chats.
+ *
+ * When memory mode is on, messages that have left the history window are
+ * folded into a rolling summary of the thread by a cheap model profile
+ * after each answer. The summary is sent as a system message with later
+ * questions and can be read and edited from the thread bar.
+ */
+
+import {
+  deleteConversationSummary,
+  loadConversationSummary,
+  saveConversationSummary,
+} from "../../utils/chatStore";
+import { callLLM } from "../../utils/llmClient";
+import {
+  config,
+  MAX_HISTORY_MESSAGES,
+  MEMORY_SUMMARY_MESSAGE_MAX_LENGTH,
+  MEMORY_SUMMARY_MIN_NEW_MESSAGES,
+  MODEL_PROFILE_ORDER,
+  type ModelProfileKey,
+} from "./constants";
+import { getApiProfiles, getStringPref } from "./prefHelpers";
+import { sanitizeText } from "./textUtils";
+import type { KeyedApiProfile, Message } from "./types";
+
+/** Threads whose summary is being updated */
+const summarizingThreadIds = new Set<number>();
+
+export function isMemoryModeEnabled(): boolean {
+  const value = Zotero.Prefs.get(`${config.prefsPrefix}.memoryMode`, true);
+  return value === true || `${value}`.toLowerCase() === "true";
+}
+
+/**
+ * Profile that writes the summaries (the secondary model by default), or
+ * the model that answered when that profile is not configured.
+ */
+function getMemoryProfile(fallback: KeyedApiProfile): KeyedApiProfile {
+  const pref = getStringPref("memoryProfile") as ModelProfileKey;
+  const key = MODEL_PROFILE_ORDER.includes(pref) ? pref : "secondary";
+  const profile = getApiProfiles()[key];
+  return profile.model && profile.apiBase ? { key, ...profile } : fallback;
+}
+
+/**
+ * System message with the summary of a thread and the messages of `branch`
+ * the summary does not cover. Without a summary the prompt is empty and the
+ * whole branch is returned. A summary built on another branch of the
+ * thread is not used.
+ */
+export async function getThreadMemory(
+  threadId: number,
+  branch: Message[],
+): Promise<{ prompt: string; history: Message[] }> {
+  const summary = await loadConversationSummary(threadId);
+  const text = summary?.text.trim();
+  if (!summary || !text) return { prompt: "", history: branch };
+  const coveredIndex =
+    summary.coveredMessageId === null
+      ? -1
+      : branch.findIndex((msg) => msg.id === summary.coveredMessageId);
+  if (summary.coveredMessageId !== null && coveredIndex < 0) {
+    return { prompt: "", history: branch };
+  }
+  return {
+    prompt: `Summary of the earlier conversation (older messages are not repeated below):\n${text}`,
+    history: branch.slice(coveredIndex + 1),
+  };
+}
+
+function formatMessageForSummary(msg: Message): string {
+  const text = sanitizeText(msg.text).trim();
+  const clipped =
+    text.length > MEMORY_SUMMARY_MESSAGE_MAX_LENGTH
+      ? `${text.slice(0, MEMORY_SUMMARY_MESSAGE_MAX_LENGTH)}…`
+      : text;
+  return `${msg.role === "user" ? "User" : "Assistant"}: ${clipped}`;
+}
+
+/**
+ * Fold the messages that have left the history window into the thread's
+ * summary. Runs only once enough new messages have accumulated; returns
+ * whether the summary changed.
+ */
+export async function updateConversationMemory(
+  conversationKey: number,
+  threadId: number,
+  branch: Message[],
+  fallback: KeyedApiProfile,
+): Promise<boolean> {
+  if (!isMemoryModeEnabled() || summarizingThreadIds.has(threadId)) {
+    return false;
+  }
+  const outside = branch.slice(
+    0,
+    Math.max(0, branch.length - MAX_HISTORY_MESSAGES),
+  );
+  if (outside.length < MEMORY_SUMMARY_MIN_NEW_MESSAGES) return false;
+
+  summarizingThreadIds.add(threadId);
+  try {
+    const summary = await loadConversationSummary(threadId);
+    // A summary from another branch is replaced rather than extended.
+    const coveredIndex = summary?.coveredMessageId
+      ? branch.findIndex((msg) => msg.id === summary.coveredMessageId)
+      : -1;
+    const onOtherBranch =
+      Boolean(summary?.coveredMessageId) && coveredIndex < 0;
+    const newMessages = outside.slice(coveredIndex + 1);
+    const lastMessageId = newMessages[newMessages.length - 1]?.id;
+    if (
+      newMessages.length < MEMORY_SUMMARY_MIN_NEW_MESSAGES ||
+      !lastMessageId ||
+      lastMessageId < 0
+    ) {
+      return false;
+    }
+
+    const currentSummary = onOtherBranch ? "" : summary?.text.trim() || "";
+    const profile = getMemoryProfile(fallback);
+    const raw = await callLLM({
+      prompt: [
+        "You keep a running summary of a conversation between a researcher and an assistant about academic papers.",
+        "Update the summary with the new messages below. Keep decisions, conclusions, definitions, open questions and the user's stated preferences; drop greetings and repetition.",
+        "Write concise markdown bullet points, at most about 250 words. Reply with the updated summary only.",
+        "",
+        "Current summary:",
+        currentSummary || "(none yet)",
+        "",
+        "New messages:",
+        newMessages.map(formatMessageForSummary).join("\n\n"),
+      ].join("\n"),
+      model: profile.model,
+      apiBase: profile.apiBase,
+      apiKey: profile.apiKey,
+      modelProfile: profile.key,
+    });
+    const text = sanitizeText(raw).trim();
+    if (!text) return false;
+    await saveConversationSummary({
+      threadId,
+      conversationKey,
+      text,
+      coveredMessageId: lastMessageId,
+    });
+    return true;
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to update conversation summary", err);
+    return false;
+  } finally {
+    summarizingThreadIds.delete(threadId);
+  }
+}
+
+async function openConversationSummaryDialog(
+  initialText: string,
+): Promise<{ action: "save"; text: string } | { action: "clear" } | null> {
+  const dialogData: { [key: string]: any } = {
+    summaryValue: initialText,
+    loadCallback: () => {
+      return;
+    },
+    unloadCallback: () => {
+      return;
+    },
+  };
+
+  const dialog = new ztoolkit.Dialog(2, 1)
+    .addCell(0, 0, {
+      tag: "div",
+      namespace: "html",
+      properties: {
+        textContent: isMemoryModeEnabled()
+          ? "Older messages of this thread are summarized here and sent with every question. Edit the summary to correct or add what the model should remember."
+          : "Memory mode is off in the preferences, so this summary is not sent or updated.",
+      },
+      styles: {
+        width: "480px",
+        lineHeight: "1.45",
+        marginBottom: "8px",
+      },
+    })
+    .addCell(
+      1,
+      0,
+      {
+        tag: "textarea",
+        namespace: "html",
+        id: "llm-memory-summary-input",
+        attributes: {
+          "data-bind": "summaryValue",
+          "data-prop": "value",
+          rows: "14",
+          placeholder: "No summary yet.",
+        },
+        styles: {
+          width: "480px",
+          resize: "vertical",
+        },
+      },
+      false,
+    )
+    .addButton("Save", "save")
+    .addButton("Clear", "clear")
+    .addButton("Cancel", "cancel")
+    .setDialogData(dialogData)
+    .open("Conversation Summary");
+
+  addon.data.dialog = dialog;
+  await dialogData.unloadLock.promise;
+  addon.data.dialog = undefined;
+
+  if (dialogData._lastButtonId === "clear") return { action: "clear" };
+  if (dialogData._lastButtonId !== "save") return null;
+  return {
+    action: "save",
+    text: sanitizeText(dialogData.summaryValue || "").trim(),
+  };
+}
+
+/** Show the summary of a thread for reading and editing */
+export async function editConversationSummary(
+  conversationKey: number,
+  threadId: number,
+): Promise<void> {
+  const summary = await loadConversationSummary(threadId);
+  const result = await openConversationSummaryDialog(summary?.text || "");
+  if (!result) return;
+  if (result.action === "clear" || !result.text) {
+    await deleteConversationSummary(threadId);
+    return;
+  }
+  await saveConversationSummary({
+    threadId,
+    conversationKey,
+    text: result.text,
+    coveredMessageId: summary?.coveredMessageId ?? null,
+  });
+}
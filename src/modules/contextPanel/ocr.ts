@@ -0,0 +1,156 @@
+/**
+ * Transcription of scanned PDFs.
+ *
+ * PDFs without a text layer give the assistant nothing but the title. On
+ * request, their pages are rendered in the reader and transcribed one by
+ * one by a vision-capable model profile. The transcription then replaces
+ * the extracted text, so later questions use the normal retrieval.
+ */
+
+import { callLLM } from "../../utils/llmClient";
+import {
+  MODEL_PROFILE_ORDER,
+  OCR_MAX_PAGES,
+  OCR_RENDER_SCALE,
+  type ModelProfileKey,
+} from "./constants";
+import { resolveContextSourceItem } from "./contextResolution";
+import { cacheTranscribedText } from "./pdfContext";
+import { openReaderForAttachment, waitForReaderPdfApp } from "./pdfAnnotations";
+import {
+  getApiProfiles,
+  getSelectedProfileForItem,
+  getStringPref,
+} from "./prefHelpers";
+import { pdfOcrPages, pdfOcrTasks, pdfTextCache } from "./state";
+import { sanitizeText } from "./textUtils";
+import type { KeyedApiProfile, OcrResult } from "./types";
+
+const TRANSCRIPTION_PROMPT = [
+  "This image is one page of a scanned document. Transcribe all of its text.",
+  "Keep the reading order, headings and paragraphs. Write tables as markdown tables and equations as LaTeX.",
+  "Reply with the transcription only, or with nothing if the page has no text.",
+].join("\n");
+
+/**
+ * Profile that transcribes pages (the primary model by default), or the
+ * panel's selected model when that profile is not configured.
+ */
+function getOcrProfile(fallback: KeyedApiProfile): KeyedApiProfile {
+  const pref = getStringPref("ocrProfile") as ModelProfileKey;
+  const key = MODEL_PROFILE_ORDER.includes(pref) ? pref : "primary";
+  const profile = getApiProfiles()[key];
+  return profile.model && profile.apiBase ? { key, ...profile } : fallback;
+}
+
+/** Attachment of the panel item that has no text layer, if any */
+export function getScannedPdfAttachment(
+  panelItem: Zotero.Item,
+): Zotero.Item | null {
+  const attachment = resolveContextSourceItem(panelItem).contextItem;
+  if (!attachment?.isPDFAttachment?.()) return null;
+  return pdfTextCache.get(attachment.id)?.needsOcr ? attachment : null;
+}
+
+/** Show the transcription offer when the panel item's PDF is scanned */
+export function updateOcrNotice(body: Element, panelItem: Zotero.Item): void {
+  const notice = body.querySelector("#llm-ocr-notice") as HTMLElement | null;
+  if (!notice) return;
+  const attachment = getScannedPdfAttachment(panelItem);
+  notice.style.display = attachment ? "" : "none";
+  const button = notice.querySelector(
+    "#llm-ocr-transcribe",
+  ) as HTMLButtonElement | null;
+  if (button) {
+    button.disabled = Boolean(attachment && pdfOcrTasks.has(attachment.id));
+  }
+}
+
+/** Page rendered as a JPEG data URL */
+async function renderPageImage(page: any, contentWindow: any): Promise<string> {
+  const params = new contentWindow.Object();
+  params.scale = OCR_RENDER_SCALE;
+  const viewport = page.getViewport(params);
+  const canvas = contentWindow.document.createElement("canvas");
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const renderParams = new contentWindow.Object();
+  renderParams.canvasContext = canvas.getContext("2d");
+  renderParams.viewport = viewport;
+  await page.render(renderParams).promise;
+  const image = canvas.toDataURL("image/jpeg", 0.85) as string;
+  canvas.width = 0;
+  canvas.height = 0;
+  return image;
+}
+
+/**
+ * Transcribe the first `OCR_MAX_PAGES` pages. Finished pages are kept in
+ * `pdfOcrPages`, so a run that fails on one page resumes there next time.
+ */
+async function transcribePages(
+  attachment: Zotero.Item,
+  profile: KeyedApiProfile,
+  onProgress?: (page: number, total: number) => void,
+): Promise<OcrResult> {
+  const reader = await openReaderForAttachment(attachment);
+  const app = reader ? await waitForReaderPdfApp(reader) : null;
+  if (!app) throw new Error("The PDF could not be opened in the reader");
+  const viewWindow = reader._internalReader?._primaryView?._iframeWindow;
+  const contentWindow = viewWindow?.wrappedJSObject || viewWindow;
+
+  const pdfDocument = app.pdfDocument;
+  const total = Math.min(pdfDocument.numPages, OCR_MAX_PAGES);
+  const pages = pdfOcrPages.get(attachment.id) || [];
+  pdfOcrPages.set(attachment.id, pages);
+  for (let pageIndex = pages.length; pageIndex < total; pageIndex++) {
+    onProgress?.(pageIndex + 1, total);
+    try {
+      const page = await pdfDocument.getPage(pageIndex + 1);
+      const image = await renderPageImage(page, contentWindow);
+      const text = await callLLM({
+        prompt: TRANSCRIPTION_PROMPT,
+        images: [image],
+        model: profile.model,
+        apiBase: profile.apiBase,
+        apiKey: profile.apiKey,
+        modelProfile: profile.key,
+      });
+      pages.push(sanitizeText(text).trim());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(
+        `Page ${pageIndex + 1} failed: ${message}. Transcribe again to continue from there.`,
+      );
+    }
+  }
+  pdfOcrPages.delete(attachment.id);
+  if (!pages.some(Boolean)) {
+    throw new Error("No text was found on the scanned pages");
+  }
+  await cacheTranscribedText(attachment, pages.join("\f"));
+  return {
+    transcribedPages: total,
+    skippedPages: pdfDocument.numPages - total,
+  };
+}
+
+/**
+ * Transcribe the panel item's scanned PDF and use the result as its text.
+ * Resolves to the number of transcribed and of skipped pages.
+ */
+export async function transcribeScannedPdf(
+  panelItem: Zotero.Item,
+  onProgress?: (page: number, total: number) => void,
+): Promise<OcrResult> {
+  const attachment = getScannedPdfAttachment(panelItem);
+  if (!attachment) throw new Error("This PDF already has a text layer");
+  const running = pdfOcrTasks.get(attachment.id);
+  if (running) return running;
+  const profile = getOcrProfile(getSelectedProfileForItem(panelItem.id));
+  const task = transcribePages(attachment, profile, onProgress).finally(() => {
+    pdfOcrTasks.delete(attachment.id);
+  });
+  pdfOcrTasks.set(attachment.id, task);
+  return task;
+}
@@ -0,0 +1,426 @@
+/**
+ * "Highlight in PDF": turn passages quoted in an assistant answer into
+ * Zotero highlight annotations.
+ *
+ * Quotes are matched against the PDF.js text layer of the reader, first
+ * exactly (ignoring case, spacing, punctuation and hyphenation), then by
+ * word overlap to tolerate small paraphrases. The highlight rectangles are
+ * derived from the positions of the matched text items.
+ */
+
+import {
+  HIGHLIGHT_ANNOTATION_COLOR,
+  HIGHLIGHT_COMMENT_MAX_LENGTH,
+  HIGHLIGHT_FUZZY_MIN_SCORE,
+  HIGHLIGHT_QUOTE_MIN_LENGTH,
+  HIGHLIGHT_SELECTION_MAX_LENGTH,
+} from "./constants";
+import { resolveContextSourceItem } from "./contextResolution";
+import { sanitizeText } from "./textUtils";
+
+export type PdfTextItem = {
+  str?: string;
+  transform?: number[];
+  width?: number;
+  height?: number;
+  hasEOL?: boolean;
+};
+
+type CharPosition = { item: number; char: number };
+
+type PageWord = { norm: string; positions: CharPosition[] };
+
+type PageTextIndex = {
+  pageIndex: number;
+  /** Page height in PDF units, for the annotation sort index */
+  height: number;
+  items: PdfTextItem[];
+  words: PageWord[];
+};
+
+type QuoteMatch = {
+  pageIndex: number;
+  start: CharPosition;
+  end: CharPosition;
+  /** Offset of the match in the page's normalized text */
+  offset: number;
+};
+
+export type QuotedPassage = {
+  text: string;
+  /** 1-based page from a `[p. N]` citation following the quote */
+  page?: number;
+};
+
+export type HighlightResult = {
+  created: number;
+  quotes: number;
+  firstAnnotationKey?: string;
+};
+
+const WORD_CHAR_PATTERN = /[\p{L}\p{N}]/u;
+
+/**
+ * Normalize text for matching: NFKC (splits ligatures), lowercase, letters
+ * and digits only. Hyphens never break words, so "self-\nsupervised" and
+ * "self-supervised" both become "selfsupervised".
+ */
+function splitMatchWords(text: string): string[] {
+  const words: string[] = [];
+  let current = "";
+  for (const ch of text.normalize("NFKC").toLowerCase()) {
+    if (WORD_CHAR_PATTERN.test(ch)) {
+      current += ch;
+    } else if (ch !== "-" && ch !== "­") {
+      if (current) words.push(current);
+      current = "";
+    }
+  }
+  if (current) words.push(current);
+  return words;
+}
+
+function buildPageTextIndex(
+  pageIndex: number,
+  height: number,
+  items: PdfTextItem[],
+): PageTextIndex {
+  const words: PageWord[] = [];
+  let current: PageWord = { norm: "", positions: [] };
+  const endWord = () => {
+    if (current.norm) words.push(current);
+    current = { norm: "", positions: [] };
+  };
+  items.forEach((item, itemIndex) => {
+    const str = item.str || "";
+    let lastChar = "";
+    for (let charIndex = 0; charIndex < str.length; charIndex++) {
+      for (const ch of str[charIndex].normalize("NFKC").toLowerCase()) {
+        if (WORD_CHAR_PATTERN.test(ch)) {
+          current.norm += ch;
+          current.positions.push({ item: itemIndex, char: charIndex });
+        } else if (ch !== "-" && ch !== "­") {
+          endWord();
+        }
+      }
+      if (str[charIndex].trim()) lastChar = str[charIndex];
+    }
+    // A line ending in a hyphen continues the word on the next line.
+    if (item.hasEOL && lastChar !== "-" && lastChar !== "­") endWord();
+  });
+  endWord();
+  return { pageIndex, height, items, words };
+}
+
+function findExactMatch(
+  page: PageTextIndex,
+  quoteWords: string[],
+): QuoteMatch | null {
+  const quote = quoteWords.join("");
+  const positions: CharPosition[] = [];
+  let text = "";
+  for (const word of page.words) {
+    text += word.norm;
+    positions.push(...word.positions);
+  }
+  const offset = text.indexOf(quote);
+  if (offset < 0) return null;
+  return {
+    pageIndex: page.pageIndex,
+    start: positions[offset],
+    end: positions[offset + quote.length - 1],
+    offset,
+  };
+}
+
+/**
+ * Find the window of page words sharing the most words with the quote
+ * (bag of words), trimmed to its first and last shared word.
+ */
+function findFuzzyMatch(
+  page: PageTextIndex,
+  quoteWords: string[],
+): { match: QuoteMatch; score: number } | null {
+  const size = quoteWords.length;
+  const words = page.words;
+  if (!size || words.length < size) return null;
+
+  const wanted = new Map<string, number>();
+  for (const word of quoteWords) wanted.set(word, (wanted.get(word) || 0) + 1);
+  const seen = new Map<string, number>();
+  let overlap = 0;
+  const add = (word: string) => {
+    const count = (seen.get(word) || 0) + 1;
+    seen.set(word, count);
+    if (count <= (wanted.get(word) || 0)) overlap++;
+  };
+  const remove = (word: string) => {
+    const count = seen.get(word) || 0;
+    if (count <= (wanted.get(word) || 0)) overlap--;
+    seen.set(word, count - 1);
+  };
+
+  let bestStart = -1;
+  let bestOverlap = 0;
+  for (let i = 0; i < words.length; i++) {
+    add(words[i].norm);
+    if (i >= size) remove(words[i - size].norm);
+    if (i >= size - 1 && overlap > bestOverlap) {
+      bestOverlap = overlap;
+      bestStart = i - size + 1;
+    }
+  }
+  const score = bestOverlap / size;
+  if (bestStart < 0 || score < HIGHLIGHT_FUZZY_MIN_SCORE) return null;
+
+  let first = bestStart;
+  let last = bestStart + size - 1;
+  while (first < last && !wanted.has(words[first].norm)) first++;
+  while (last > first && !wanted.has(words[last].norm)) last--;
+  let offset = 0;
+  for (let i = 0; i < first; i++) offset += words[i].norm.length;
+  const lastWord = words[last];
+  return {
+    match: {
+      pageIndex: page.pageIndex,
+      start: words[first].positions[0],
+      end: lastWord.positions[lastWord.positions.length - 1],
+      offset,
+    },
+    score,
+  };
+}
+
+function findQuoteInPages(
+  pages: PageTextIndex[],
+  quote: QuotedPassage,
+): QuoteMatch | null {
+  const quoteWords = splitMatchWords(quote.text);
+  if (quoteWords.join("").length < HIGHLIGHT_QUOTE_MIN_LENGTH) return null;
+  // Try the cited page first; the citation may be off by one.
+  const ordered = quote.page
+    ? [...pages].sort(
+        (a, b) =>
+          Math.abs(a.pageIndex + 1 - quote.page!) -
+          Math.abs(b.pageIndex + 1 - quote.page!),
+      )
+    : pages;
+  for (const page of ordered) {
+    const match = findExactMatch(page, quoteWords);
+    if (match) return match;
+  }
+  let best: { match: QuoteMatch; score: number } | null = null;
+  for (const page of ordered) {
+    const candidate = findFuzzyMatch(page, quoteWords);
+    if (candidate && (!best || candidate.score > best.score)) {
+      best = candidate;
+    }
+  }
+  return best?.match || null;
+}
+
+/** Rectangles (PDF user space) covering a match, merged per line */
+function getMatchRects(page: PageTextIndex, match: QuoteMatch): number[][] {
+  const rects: number[][] = [];
+  for (let index = match.start.item; index <= match.end.item; index++) {
+    const item = page.items[index];
+    const str = item?.str || "";
+    const transform = item?.transform;
+    if (!str.trim() || !transform || transform.length < 6) continue;
+    const from = index === match.start.item ? match.start.char : 0;
+    const to = index === match.end.item ? match.end.char + 1 : str.length;
+    const width = item.width || 0;
+    const height = item.height || Math.hypot(transform[2], transform[3]) || 10;
+    const x = transform[4];
+    const y = transform[5];
+    const rect = [
+      x + (width * from) / str.length,
+      y - height * 0.2,
+      x + (width * to) / str.length,
+      y + height * 0.8,
+    ];
+    const previous = rects[rects.length - 1];
+    if (
+      previous &&
+      Math.abs(previous[1] - rect[1]) < height * 0.5 &&
+      rect[0] <= previous[2] + height
+    ) {
+      previous[0] = Math.min(previous[0], rect[0]);
+      previous[1] = Math.min(previous[1], rect[1]);
+      previous[2] = Math.max(previous[2], rect[2]);
+      previous[3] = Math.max(previous[3], rect[3]);
+    } else {
+      rects.push(rect);
+    }
+  }
+  return rects;
+}
+
+function getMatchText(page: PageTextIndex, match: QuoteMatch): string {
+  const parts: string[] = [];
+  for (let index = match.start.item; index <= match.end.item; index++) {
+    const item = page.items[index];
+    const str = item?.str || "";
+    const from = index === match.start.item ? match.start.char : 0;
+    const to = index === match.end.item ? match.end.char + 1 : str.length;
+    parts.push(str.slice(from, to));
+    if (item?.hasEOL && index !== match.end.item) parts.push(" ");
+  }
+  return parts.join("").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Collect passages the answer quotes: text in straight or curly double
+ * quotes and markdown blockquotes, with the page of a following `[p. N]`.
+ */
+export function extractQuotedPassages(text: string): QuotedPassage[] {
+  const passages: QuotedPassage[] = [];
+  const seen = new Set<string>();
+  const patterns = [
+    /"([^"\n]+)"(\s*\[pp?\.\s*(\d+))?/g,
+    /“([^”\n]+)”(\s*\[pp?\.\s*(\d+))?/g,
+    /^[ \t]*>[ \t]?(.+)$()()/gm,
+  ];
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const quote = sanitizeText(match[1] || "").trim();
+      if (splitMatchWords(quote).join("").length < HIGHLIGHT_QUOTE_MIN_LENGTH) {
+        continue;
+      }
+      if (seen.has(quote)) continue;
+      seen.add(quote);
+      const page = Number.parseInt(match[3] || "", 10);
+      passages.push({
+        text: quote,
+        page: Number.isFinite(page) && page > 0 ? page : undefined,
+      });
+    }
+  }
+  return passages;
+}
+
+function getReaderPdfApp(reader: any): any | null {
+  const viewWindow = reader?._internalReader?._primaryView?._iframeWindow;
+  const app =
+    viewWindow?.wrappedJSObject?.PDFViewerApplication ||
+    viewWindow?.PDFViewerApplication;
+  return app?.pdfDocument ? app : null;
+}
+
+export async function waitForReaderPdfApp(reader: any): Promise<any | null> {
+  for (let attempt = 0; attempt < 40; attempt++) {
+    const app = getReaderPdfApp(reader);
+    if (app) return app;
+    await Zotero.Promise.delay(250);
+  }
+  return null;
+}
+
+export async function openReaderForAttachment(
+  attachment: Zotero.Item,
+): Promise<any | null> {
+  const readers = (Zotero as unknown as { Reader?: { _readers?: any[] } })
+    .Reader?._readers;
+  const existing = readers?.find((reader) => reader?.itemID === attachment.id);
+  if (existing) return existing;
+  return (await Zotero.Reader.open(attachment.id)) || null;
+}
+
+async function loadPageTextIndexes(app: any): Promise<PageTextIndex[]> {
+  const pdfDocument = app.pdfDocument;
+  const pages: PageTextIndex[] = [];
+  for (let pageIndex = 0; pageIndex < pdfDocument.numPages; pageIndex++) {
+    const page = await pdfDocument.getPage(pageIndex + 1);
+    const content = await page.getTextContent();
+    const view = Array.from((page.view || [0, 0, 0, 0]) as number[]);
+    pages.push(
+      buildPageTextIndex(
+        pageIndex,
+        view[3] - view[1],
+        Array.from((content?.items || []) as PdfTextItem[]),
+      ),
+    );
+  }
+  return pages;
+}
+
+function buildSortIndex(page: PageTextIndex, rects: number[][], offset = 0) {
+  const top = Math.max(0, Math.floor(page.height - (rects[0]?.[3] || 0)));
+  return [
+    `${page.pageIndex}`.padStart(5, "0"),
+    `${offset}`.padStart(6, "0"),
+    `${top}`.padStart(5, "0"),
+  ].join("|");
+}
+
+/**
+ * Create a highlight annotation for every passage quoted in `contentText`
+ * that can be found in the panel item's PDF. When the text quotes nothing
+ * (e.g. the user selected a passage in the answer), the text itself is
+ * matched. `answerText` becomes the annotation comment.
+ */
+export async function createHighlightsFromAnswer(
+  panelItem: Zotero.Item,
+  contentText: string,
+  answerText: string,
+): Promise<HighlightResult> {
+  const attachment = resolveContextSourceItem(panelItem).contextItem;
+  if (!attachment?.isPDFAttachment?.()) {
+    throw new Error("No PDF attachment for this item");
+  }
+  const quotes = extractQuotedPassages(contentText);
+  if (!quotes.length && contentText.length <= HIGHLIGHT_SELECTION_MAX_LENGTH) {
+    quotes.push({ text: contentText });
+  }
+  if (!quotes.length) return { created: 0, quotes: 0 };
+
+  const reader = await openReaderForAttachment(attachment);
+  const app = reader ? await waitForReaderPdfApp(reader) : null;
+  if (!app) throw new Error("The PDF could not be opened in the reader");
+  const pages = await loadPageTextIndexes(app);
+
+  const comment = sanitizeText(answerText)
+    .trim()
+    .slice(0, HIGHLIGHT_COMMENT_MAX_LENGTH);
+  const { Annotations: annotations, DataObjectUtilities: dataObjects } =
+    Zotero as unknown as {
+      Annotations: {
+        saveFromJSON: (
+          attachment: Zotero.Item,
+          json: Record<string, unknown>,
+        ) => Promise<Zotero.Item>;
+      };
+      DataObjectUtilities: { generateKey: () => string };
+    };
+  const result: HighlightResult = { created: 0, quotes: quotes.length };
+  for (const quote of quotes) {
+    const match = findQuoteInPages(pages, quote);
+    if (!match) continue;
+    const page = pages[match.pageIndex];
+    const rects = getMatchRects(page, match);
+    if (!rects.length) continue;
+    const key = dataObjects.generateKey();
+    await annotations.saveFromJSON(attachment, {
+      key,
+      type: "highlight",
+      text: getMatchText(page, match),
+      comment,
+      color: HIGHLIGHT_ANNOTATION_COLOR,
+      pageLabel: `${match.pageIndex + 1}`,
+      sortIndex: buildSortIndex(page, rects, match.offset),
+      position: { pageIndex: match.pageIndex, rects },
+      tags: [],
+    });
+    result.created++;
+    result.firstAnnotationKey ||= key;
+  }
+
+  if (result.firstAnnotationKey) {
+    try {
+      await reader.navigate?.({ annotationID: result.firstAnnotationKey });
+    } catch (_err) {
+      void _err;
+    }
+  }
+  return result;
+}
@@ -1,59 +1,311 @@
-import { callEmbeddings } from "../../utils/llmClient";
 import {
-  CHUNK_TARGET_LENGTH,
-  CHUNK_OVERLAP,
-  MAX_CONTEXT_CHUNKS,
+  callEmbeddings,
+  getEmbeddingModel,
+  supportsEmbeddings,
+} from "../../utils/llmClient";
+import {
+  deleteEmbeddingIndex,
+  hashDocumentText,
+  loadEmbeddingIndex,
+  saveEmbeddingIndex,
+  updateEmbeddingIndexFileTime,
+  type StoredEmbeddingIndex,
+} from "../../utils/embeddingStore";
+import { estimateTokens } from "../../utils/tokenBudget";
+import {
+  getChunkingKey,
+  getRetrievalSettings,
+  type RetrievalMode,
+} from "../../utils/retrievalSettings";
+import {
+  MAX_GROUP_CONTEXT_CHUNKS,
+  MAX_GROUP_CONTEXT_LENGTH,
   EMBEDDING_BATCH_SIZE,
-  HYBRID_WEIGHT_BM25,
-  HYBRID_WEIGHT_EMBEDDING,
+  SECTION_MATCH_BOOST,
   MAX_CONTEXT_LENGTH,
   MAX_CONTEXT_LENGTH_WITH_IMAGE,
-  FORCE_FULL_CONTEXT,
   FULL_CONTEXT_CHAR_LIMIT,
+  OCR_MIN_CHARS_PER_PAGE,
   STOPWORDS,
 } from "./constants";
 import { pdfTextCache, pdfTextLoadingTasks } from "./state";
-import type { PdfContext, ChunkStat } from "./types";
+import { isSupportedContextAttachment } from "./contextResolution";
+import {
+  buildSectionIndex,
+  findSectionByLabel,
+  findSectionsInQuestion,
+  getSectionLabel,
+  isBackMatterQuestion,
+  isChunkInSections,
+} from "./sections";
+import type { PdfContext, ChunkStat, GroupPaperContext } from "./types";
+
+async function getAttachmentFileTime(
+  item: Zotero.Item,
+): Promise<number | null> {
+  try {
+    const mtime = await item.attachmentModificationTime;
+    return typeof mtime === "number" && Number.isFinite(mtime) ? mtime : null;
+  } catch (_err) {
+    return null;
+  }
+}
+
+function pdfContextFromStoredIndex(
+  title: string,
+  stored: StoredEmbeddingIndex,
+): PdfContext {
+  return {
+    title,
+    chunks: stored.chunks,
+    chunkPages: stored.chunkPages,
+    chunkingKey: stored.chunking,
+    chunkStats: stored.chunkStats,
+    docFreq: stored.docFreq,
+    avgChunkLength: stored.avgChunkLength,
+    fullLength: stored.fullLength,
+    attachmentId: stored.attachmentId,
+    contentHash: stored.contentHash,
+    fileModifiedAt: stored.fileModifiedAt,
+    embeddingModel: stored.embeddingModel,
+    embeddings: stored.embeddings,
+    embeddingFailed: false,
+    ...buildSectionIndex(stored.chunks),
+  };
+}
+
+type FullTextIndexer = {
+  getItemCacheFile: (item: Zotero.Item) => { path: string } | null;
+  indexItems: (
+    itemIDs: number[],
+    options?: { complete?: boolean },
+  ) => Promise<unknown>;
+};
+
+async function readTextFile(path: string | null | undefined): Promise<string> {
+  if (!path) return "";
+  try {
+    return ((await Zotero.File.getContentsAsync(path)) as string) || "";
+  } catch (_err) {
+    return "";
+  }
+}
+
+/** Visible text of a saved web page, one line per block element */
+async function parseSnapshotText(item: Zotero.Item): Promise<string> {
+  const path = await item.getFilePathAsync();
+  if (!path) return "";
+  const html = await readTextFile(path);
+  if (!html) return "";
+  const DOMParserCtor = ztoolkit.getGlobal("DOMParser") as typeof DOMParser;
+  const doc = new DOMParserCtor().parseFromString(html, "text/html");
+  const hidden = Array.from(
+    doc.querySelectorAll("script, style, noscript, template"),
+  ) as Element[];
+  for (const el of hidden) el.remove();
+  const blocks = Array.from(
+    doc.querySelectorAll("p, div, li, h1, h2, h3, h4, h5, h6, tr, br, pre"),
+  ) as Element[];
+  for (const el of blocks) el.after(doc.createTextNode("\n\n"));
+  return (doc.body?.textContent || "")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n\s*/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Text of an EPUB or HTML snapshot from Zotero's full-text cache, indexing
+ * the attachment first when it has no cache yet. Snapshots fall back to
+ * parsing the saved page.
+ */
+async function getIndexedAttachmentText(item: Zotero.Item): Promise<string> {
+  const fullText = Zotero.FullText as unknown as FullTextIndexer;
+  const readCache = () => readTextFile(fullText.getItemCacheFile(item)?.path);
+  let text = await readCache();
+  if (!text) {
+    try {
+      await fullText.indexItems([item.id], { complete: true });
+      text = await readCache();
+    } catch (e) {
+      ztoolkit.log("LLM: Full-text indexing failed", e);
+    }
+  }
+  if (!text && item.attachmentContentType === "text/html") {
+    text = await parseSnapshotText(item);
+  }
+  return text;
+}
+
+/**
+ * Whether a PDF has too little text for its page count to be anything but
+ * scanned images.
+ */
+function isTextLayerMissing(text: string, pageCount: number): boolean {
+  const length = text.replace(/\s+/g, "").length;
+  return length < OCR_MIN_CHARS_PER_PAGE * Math.max(1, pageCount);
+}
+
+/** Chunk and index a document's text and persist the index */
+function indexDocumentText(
+  title: string,
+  text: string,
+  attachment: Zotero.Item | null,
+  fileModifiedAt: number | null,
+  embeddingModel: string,
+): PdfContext {
+  const contentHash = hashDocumentText(text);
+  const settings = getRetrievalSettings();
+  const chunkingKey = getChunkingKey(settings);
+  const { chunks, chunkPages } = splitIntoPageChunks(
+    text,
+    settings.chunkSize,
+    settings.chunkOverlap,
+  );
+  const { chunkStats, docFreq, avgChunkLength } = buildChunkIndex(chunks);
+  if (attachment) {
+    void saveEmbeddingIndex({
+      attachmentId: attachment.id,
+      embeddingModel,
+      contentHash,
+      fileModifiedAt,
+      chunks,
+      chunkPages,
+      chunking: chunkingKey,
+      chunkStats,
+      docFreq,
+      avgChunkLength,
+      fullLength: text.length,
+    }).catch((e) => ztoolkit.log("LLM: Failed to save embedding index", e));
+  }
+  return {
+    title,
+    chunks,
+    chunkPages,
+    chunkingKey,
+    chunkStats,
+    docFreq,
+    avgChunkLength,
+    fullLength: text.length,
+    attachmentId: attachment?.id,
+    contentHash,
+    fileModifiedAt,
+    embeddingModel,
+    embeddingFailed: false,
+    ...buildSectionIndex(chunks),
+  };
+}
+
+function getContextTitle(item: Zotero.Item): string {
+  const mainItem =
+    item.isAttachment() && item.parentID
+      ? Zotero.Items.get(item.parentID)
+      : null;
+  return mainItem?.getField("title") || item.getField("title") || "";
+}
 
 async function cachePDFText(item: Zotero.Item) {
   if (pdfTextCache.has(item.id)) return;
 
   try {
     let pdfText = "";
-    const mainItem =
-      item.isAttachment() && item.parentID
-        ? Zotero.Items.get(item.parentID)
-        : null;
+    let pageCount = 0;
+    const title = getContextTitle(item);
 
-    const title = mainItem?.getField("title") || item.getField("title") || "";
-
-    const pdfItem =
-      item.isAttachment() && item.attachmentContentType === "application/pdf"
-        ? item
-        : null;
+    const pdfItem = isSupportedContextAttachment(item) ? item : null;
 
+    const embeddingModel = getEmbeddingModel();
+    let fileModifiedAt: number | null = null;
+    let stored: StoredEmbeddingIndex | null = null;
+    let rechunk = false;
     if (pdfItem) {
+      fileModifiedAt = await getAttachmentFileTime(pdfItem);
+      try {
+        stored = await loadEmbeddingIndex(pdfItem.id, embeddingModel);
+      } catch (e) {
+        ztoolkit.log("LLM: Failed to load embedding index", e);
+      }
+      // Indexes from before page tracking are rebuilt once.
+      if (stored && !stored.chunkPages) stored = null;
+      // Chunk size or overlap changed in preferences: split the text again.
+      rechunk = Boolean(stored && stored.chunking !== getChunkingKey());
+      // Unchanged file: reuse the stored index without re-extracting text.
+      if (
+        stored &&
+        !rechunk &&
+        fileModifiedAt !== null &&
+        stored.fileModifiedAt === fileModifiedAt
+      ) {
+        pdfTextCache.set(item.id, pdfContextFromStoredIndex(title, stored));
+        return;
+      }
+
       try {
-        const result = await Zotero.PDFWorker.getFullText(pdfItem.id);
-        if (result && result.text) {
-          pdfText = result.text;
+        if (pdfItem.attachmentContentType === "application/pdf") {
+          const result = await Zotero.PDFWorker.getFullText(pdfItem.id);
+          if (result && result.text) {
+            pdfText = result.text;
+          }
+          pageCount = Number(result?.totalPages) || 0;
+        } else {
+          pdfText = await getIndexedAttachmentText(pdfItem);
         }
       } catch (e) {
         ztoolkit.log("PDF extraction failed:", e);
       }
     }
 
+    const needsOcr =
+      pdfItem?.attachmentContentType === "application/pdf" &&
+      isTextLayerMissing(pdfText, pageCount);
+    // Scanned PDF that was transcribed before: keep the transcription.
+    if (pdfItem && stored && needsOcr) {
+      if (rechunk) {
+        pdfTextCache.set(
+          item.id,
+          indexDocumentText(
+            title,
+            joinStoredPages(stored),
+            pdfItem,
+            fileModifiedAt,
+            embeddingModel,
+          ),
+        );
+        return;
+      }
+      pdfTextCache.set(
+        item.id,
+        pdfContextFromStoredIndex(title, { ...stored, fileModifiedAt }),
+      );
+      return;
+    }
+
     if (pdfText) {
-      const chunks = splitIntoChunks(pdfText, CHUNK_TARGET_LENGTH);
-      const { chunkStats, docFreq, avgChunkLength } = buildChunkIndex(chunks);
+      const contentHash = hashDocumentText(pdfText);
+      // File was touched but its text is the same: keep the stored index.
+      if (pdfItem && stored && !rechunk && stored.contentHash === contentHash) {
+        pdfTextCache.set(
+          item.id,
+          pdfContextFromStoredIndex(title, { ...stored, fileModifiedAt }),
+        );
+        void updateEmbeddingIndexFileTime(
+          pdfItem.id,
+          contentHash,
+          fileModifiedAt,
+        ).catch((e) =>
+          ztoolkit.log("LLM: Failed to update embedding index", e),
+        );
+        return;
+      }
+
       pdfTextCache.set(item.id, {
-        title,
-        chunks,
-        chunkStats,
-        docFreq,
-        avgChunkLength,
-        fullLength: pdfText.length,
-        embeddingFailed: false,
+        ...indexDocumentText(
+          title,
+          pdfText,
+          pdfItem,
+          fileModifiedAt,
+          embeddingModel,
+        ),
+        needsOcr,
       });
     } else {
       pdfTextCache.set(item.id, {
@@ -64,6 +316,7 @@ async function cachePDFText(item: Zotero.Item) {
         avgChunkLength: 0,
         fullLength: 0,
         embeddingFailed: false,
+        needsOcr,
       });
     }
   } catch (e) {
@@ -80,7 +333,35 @@ async function cachePDFText(item: Zotero.Item) {
   }
 }
 
+/**
+ * Drop cached text for changed attachments so the next question re-checks
+ * the file, and remove the persisted index of deleted ones.
+ */
+export async function handleAttachmentNotify(
+  event: string,
+  ids: Array<string | number>,
+): Promise<void> {
+  for (const rawId of ids) {
+    const id = Number(rawId);
+    if (!Number.isFinite(id)) continue;
+    if (!pdfTextCache.has(id) && event !== "delete") continue;
+    pdfTextCache.delete(id);
+    if (event === "delete") {
+      try {
+        await deleteEmbeddingIndex(id);
+      } catch (e) {
+        ztoolkit.log("LLM: Failed to delete embedding index", e);
+      }
+    }
+  }
+}
+
 export async function ensurePDFTextCached(item: Zotero.Item): Promise<void> {
+  const cached = pdfTextCache.get(item.id);
+  // Chunk size or overlap changed in preferences since the text was indexed.
+  if (cached?.chunkingKey && cached.chunkingKey !== getChunkingKey()) {
+    pdfTextCache.delete(item.id);
+  }
   if (pdfTextCache.has(item.id)) return;
   const existingTask = pdfTextLoadingTasks.get(item.id);
   if (existingTask) {
@@ -98,7 +379,33 @@ export async function ensurePDFTextCached(item: Zotero.Item): Promise<void> {
   await task;
 }
 
-function splitIntoChunks(text: string, targetLength: number): string[] {
+/**
+ * Use text transcribed from page images as the document text of a scanned
+ * PDF. Pages are separated by form feeds, like PDFWorker output, and the
+ * index is persisted so the transcription survives restarts.
+ */
+export async function cacheTranscribedText(
+  item: Zotero.Item,
+  text: string,
+): Promise<void> {
+  const fileModifiedAt = await getAttachmentFileTime(item);
+  pdfTextCache.set(
+    item.id,
+    indexDocumentText(
+      getContextTitle(item),
+      text,
+      item,
+      fileModifiedAt,
+      getEmbeddingModel(),
+    ),
+  );
+}
+
+function splitIntoChunks(
+  text: string,
+  targetLength: number,
+  overlap: number,
+): string[] {
   if (!text) return [];
   const normalized = text.replace(/\r\n?/g, "\n").trim();
   if (!normalized) return [];
@@ -123,7 +430,7 @@ function splitIntoChunks(text: string, targetLength: number): string[] {
         const slice = p.slice(start, end).trim();
         if (slice) chunks.push(slice);
         if (end === p.length) break;
-        start = Math.max(0, end - CHUNK_OVERLAP);
+        start = Math.max(0, end - overlap);
       }
       continue;
     }
@@ -138,6 +445,62 @@ function splitIntoChunks(text: string, targetLength: number): string[] {
   return chunks;
 }
 
+/**
+ * Chunk the extracted text page by page so every chunk knows its page.
+ * PDFWorker separates pages with form feeds; without them the whole text is
+ * chunked at once and `chunkPages` stays empty.
+ */
+function splitIntoPageChunks(
+  text: string,
+  targetLength: number,
+  overlap: number,
+): {
+  chunks: string[];
+  chunkPages: number[];
+} {
+  const pages = text.split("\f");
+  if (pages.length < 2) {
+    return {
+      chunks: splitIntoChunks(text, targetLength, overlap),
+      chunkPages: [],
+    };
+  }
+  const chunks: string[] = [];
+  const chunkPages: number[] = [];
+  pages.forEach((pageText, pageIndex) => {
+    for (const chunk of splitIntoChunks(pageText, targetLength, overlap)) {
+      chunks.push(chunk);
+      chunkPages.push(pageIndex + 1);
+    }
+  });
+  return { chunks, chunkPages };
+}
+
+/**
+ * Text of a stored index with its pages separated by form feeds again, for
+ * re-chunking text that cannot be extracted anew (transcribed scans).
+ * Paragraphs that were split keep their overlap.
+ */
+function joinStoredPages(stored: StoredEmbeddingIndex): string {
+  if (!stored.chunkPages?.length) return stored.chunks.join("\n\n");
+  const pages: string[][] = [];
+  stored.chunks.forEach((chunk, index) => {
+    const page = Math.max(1, stored.chunkPages![index] || 1);
+    while (pages.length < page) pages.push([]);
+    pages[page - 1].push(chunk);
+  });
+  return pages.map((chunks) => chunks.join("\n\n")).join("\f");
+}
+
+/** 1-based page of a chunk, or `null` when pages are unknown */
+export function getChunkPage(
+  pdfContext: Pick<PdfContext, "chunkPages">,
+  index: number,
+): number | null {
+  const page = pdfContext.chunkPages?.[index];
+  return typeof page === "number" && page > 0 ? page : null;
+}
+
 function tokenizeText(text: string): string[] {
   const tokens = text.toLowerCase().match(/[a-z0-9]+/g) || [];
   return tokens.filter((t) => t.length >= 3 && !STOPWORDS.has(t));
@@ -176,7 +539,7 @@ function tokenizeQuery(query: string): string[] {
   return Array.from(new Set(tokens));
 }
 
-function scoreChunkBM25(
+export function scoreChunkBM25(
   chunk: ChunkStat,
   terms: string[],
   docFreq: Record<string, number>,
@@ -202,7 +565,7 @@ function scoreChunkBM25(
   return score;
 }
 
-function cosineSimilarity(a: number[], b: number[]): number {
+export function cosineSimilarity(a: number[], b: number[]): number {
   if (!a.length || !b.length || a.length !== b.length) return 0;
   let dot = 0;
   let normA = 0;
@@ -247,6 +610,17 @@ async function ensureEmbeddings(
   pdfContext: PdfContext,
   overrides?: { apiBase?: string; apiKey?: string },
 ): Promise<boolean> {
+  if (!supportsEmbeddings(overrides?.apiBase)) return false;
+  // Vectors from a different embedding model are not comparable.
+  const embeddingModel = getEmbeddingModel(overrides?.apiBase);
+  if (
+    pdfContext.embeddingModel &&
+    pdfContext.embeddingModel !== embeddingModel
+  ) {
+    pdfContext.embeddings = undefined;
+    pdfContext.embeddingFailed = false;
+    pdfContext.embeddingModel = embeddingModel;
+  }
   if (pdfContext.embeddingFailed) return false;
   if (pdfContext.embeddings && pdfContext.embeddings.length) {
     return pdfContext.embeddings.length === pdfContext.chunks.length;
@@ -275,36 +649,173 @@ async function ensureEmbeddings(
   pdfContext.embeddingPromise = undefined;
   if (result) {
     pdfContext.embeddings = result;
+    if (
+      pdfContext.attachmentId &&
+      pdfContext.contentHash &&
+      result.length === pdfContext.chunks.length
+    ) {
+      void persistEmbeddings(pdfContext, embeddingModel, result);
+    }
     return result.length === pdfContext.chunks.length;
   }
   pdfContext.embeddingFailed = true;
   return false;
 }
 
+/** Why a mode that asks for vectors ranked the excerpts on BM25 alone */
+function getEmbeddingFallbackReason(apiBase?: string): string {
+  return supportsEmbeddings(apiBase)
+    ? `no embeddings from ${getEmbeddingModel(apiBase)}`
+    : "the Anthropic API has no embeddings";
+}
+
+async function persistEmbeddings(
+  pdfContext: PdfContext,
+  embeddingModel: string,
+  embeddings: number[][],
+): Promise<void> {
+  if (!pdfContext.attachmentId || !pdfContext.contentHash) return;
+  try {
+    await saveEmbeddingIndex({
+      attachmentId: pdfContext.attachmentId,
+      embeddingModel,
+      contentHash: pdfContext.contentHash,
+      fileModifiedAt: pdfContext.fileModifiedAt ?? null,
+      chunks: pdfContext.chunks,
+      chunkPages: pdfContext.chunkPages,
+      chunking: pdfContext.chunkingKey || getChunkingKey(),
+      chunkStats: pdfContext.chunkStats,
+      docFreq: pdfContext.docFreq,
+      avgChunkLength: pdfContext.avgChunkLength,
+      fullLength: pdfContext.fullLength,
+      embeddings,
+    });
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to persist embeddings", err);
+  }
+}
+
+const PAGE_CITATION_HINT =
+  '[Page markers like [p. 7] give the page of the text. When citing it, quote the passage and add the page in the same form, e.g. "..." [p. 7].]';
+
+/**
+ * Full text, or the chunks `indexes` of it, with a `[p. N]` marker wherever
+ * a new page starts
+ */
+function joinChunksWithPageMarkers(
+  pdfContext: PdfContext,
+  indexes?: number[],
+): string {
+  const chunkIndexes = indexes || pdfContext.chunks.map((_chunk, i) => i);
+  const chunks = chunkIndexes.map((index) => pdfContext.chunks[index]);
+  if (!pdfContext.chunkPages?.length) return chunks.join("\n\n");
+  const parts: string[] = [];
+  let currentPage: number | null = null;
+  chunkIndexes.forEach((index, position) => {
+    const chunk = chunks[position];
+    const page = getChunkPage(pdfContext, index);
+    if (page && page !== currentPage) {
+      parts.push(`[p. ${page}]`);
+      currentPage = page;
+    }
+    parts.push(chunk);
+  });
+  parts.push(PAGE_CITATION_HINT);
+  return parts.join("\n\n");
+}
+
+/** Characters of `text` that fit in `tokens`, at the text's own density */
+function charsForTokens(text: string, tokens: number): number {
+  const estimate = estimateTokens(text);
+  return estimate ? Math.floor((tokens * text.length) / estimate) : tokens * 4;
+}
+
+/**
+ * Paper context for a question: the full text when it fits, otherwise the
+ * best-matching excerpts. `maxTokens` is the share of the model's context
+ * window the budgeter gave to the paper; without it only the fixed
+ * character limits apply. With a `pinnedSection` label only that section
+ * is used. `retrievalMode` overrides the mode set in preferences.
+ * `onEmbeddingFallback` is told why when that mode wanted vectors but the
+ * excerpts were ranked on BM25 alone.
+ */
 export async function buildContext(
   pdfContext: PdfContext | undefined,
   question: string,
   hasImage: boolean,
   apiOverrides?: { apiBase?: string; apiKey?: string },
+  maxTokens?: number,
+  options: {
+    pinnedSection?: string;
+    retrievalMode?: RetrievalMode;
+    onEmbeddingFallback?: (reason: string) => void;
+  } = {},
 ): Promise<string> {
   if (!pdfContext) return "";
-  const { title, chunks, chunkStats, docFreq, avgChunkLength, fullLength } =
-    pdfContext;
+  const { pinnedSection } = options;
+  const settings = getRetrievalSettings();
+  const mode = options.retrievalMode || settings.mode;
+  const { title, chunks, docFreq, avgChunkLength } = pdfContext;
   const contextParts: string[] = [];
   if (title) contextParts.push(`Title: ${title}`);
   if (!chunks.length) return contextParts.join("\n\n");
-  if (FORCE_FULL_CONTEXT && !hasImage) {
+
+  const sections = pdfContext.sections || [];
+  const pinnedIndex = pinnedSection
+    ? findSectionByLabel(pdfContext, pinnedSection)
+    : -1;
+  const pinned = pinnedIndex >= 0 ? sections[pinnedIndex] : null;
+  // References, acknowledgments and appendix only go with questions about
+  // them, or when their section is pinned.
+  let backMatter = new Set(
+    pinned || isBackMatterQuestion(question) ? [] : pdfContext.backMatterChunks,
+  );
+  if (backMatter.size >= chunks.length) backMatter = new Set();
+  const inScope = (index: number) =>
+    !backMatter.has(index) &&
+    (!pinned || (index >= pinned.startChunk && index <= pinned.endChunk));
+  const chunkStats = pdfContext.chunkStats.filter((chunk) =>
+    inScope(chunk.index),
+  );
+  const scopeIndexes = chunkStats.map((chunk) => chunk.index);
+  const scoped = Boolean(pinned || backMatter.size);
+  const fullLength = scoped
+    ? scopeIndexes.reduce((sum, index) => sum + chunks[index].length, 0)
+    : pdfContext.fullLength;
+  if (pinned) {
+    contextParts.push(
+      `Section: ${getSectionLabel(pinned)} (the user limited the context to this section)`,
+    );
+  }
+  if (backMatter.size) {
+    contextParts.push(
+      "[References, acknowledgments and appendix are left out of this context.]",
+    );
+  }
+
+  if (mode === "full" && !hasImage) {
     if (!fullLength || fullLength <= FULL_CONTEXT_CHAR_LIMIT) {
-      contextParts.push("Paper Text:");
-      contextParts.push(chunks.join("\n\n"));
-      if (fullLength) {
-        contextParts.push(`\n[Full context ${fullLength} chars]`);
+      const fullText = joinChunksWithPageMarkers(
+        pdfContext,
+        scoped ? scopeIndexes : undefined,
+      );
+      const fullTokens = maxTokens === undefined ? 0 : estimateTokens(fullText);
+      if (maxTokens === undefined || fullTokens <= maxTokens) {
+        contextParts.push("Paper Text:");
+        contextParts.push(fullText);
+        if (fullLength) {
+          contextParts.push(`\n[Full context ${fullLength} chars]`);
+        }
+        return contextParts.join("\n\n");
       }
-      return contextParts.join("\n\n");
+      contextParts.push(
+        `\n[Full context of about ${fullTokens} tokens exceeds the ${maxTokens}-token budget for this model. Falling back to retrieval.]`,
+      );
+    } else {
+      contextParts.push(
+        `\n[Full context ${fullLength} chars exceeds ${FULL_CONTEXT_CHAR_LIMIT}. Falling back to retrieval.]`,
+      );
     }
-    contextParts.push(
-      `\n[Full context ${fullLength} chars exceeds ${FULL_CONTEXT_CHAR_LIMIT}. Falling back to retrieval.]`,
-    );
   }
 
   const terms = tokenizeQuery(question);
@@ -313,73 +824,99 @@ export async function buildContext(
   );
 
   let embeddingScores: number[] | null = null;
-  const embeddingsReady = await ensureEmbeddings(pdfContext, apiOverrides);
+  const embeddingsReady =
+    mode !== "bm25" && (await ensureEmbeddings(pdfContext, apiOverrides));
   if (embeddingsReady && pdfContext.embeddings) {
     try {
       const queryEmbedding =
         (await callEmbeddings([question], apiOverrides))[0] || [];
       if (queryEmbedding.length) {
-        embeddingScores = pdfContext.embeddings.map((vec) =>
-          cosineSimilarity(queryEmbedding, vec),
+        const embeddings = pdfContext.embeddings;
+        embeddingScores = chunkStats.map((chunk) =>
+          cosineSimilarity(queryEmbedding, embeddings[chunk.index] || []),
         );
       }
     } catch (err) {
       ztoolkit.log("Query embedding failed:", err);
     }
   }
+  if (mode !== "bm25" && !embeddingScores) {
+    options.onEmbeddingFallback?.(
+      getEmbeddingFallbackReason(apiOverrides?.apiBase),
+    );
+  }
 
   const bm25Norm = normalizeScores(bm25Scores);
   const embedNorm = embeddingScores ? normalizeScores(embeddingScores) : null;
 
-  const bm25Weight = embedNorm ? HYBRID_WEIGHT_BM25 : 1;
-  const embedWeight = embedNorm ? HYBRID_WEIGHT_EMBEDDING : 0;
+  // Without vectors every mode ranks on BM25 alone.
+  const bm25Weight = !embedNorm
+    ? 1
+    : mode === "embedding"
+      ? 0
+      : settings.bm25Weight;
+  const embedWeight = embedNorm ? 1 - bm25Weight : 0;
 
+  // Chunks of the sections the question names ("the Methods") rank higher.
+  const namedSections = pinned
+    ? new Set<number>()
+    : findSectionsInQuestion(sections, question);
   const scored = chunkStats.map((chunk, idx) => ({
     index: chunk.index,
     chunk: chunks[chunk.index],
     score:
       bm25Norm[idx] * bm25Weight +
-      (embedNorm ? embedNorm[idx] * embedWeight : 0),
+      (embedNorm ? embedNorm[idx] * embedWeight : 0) +
+      (namedSections.size &&
+      isChunkInSections(pdfContext, chunk.index, namedSections)
+        ? SECTION_MATCH_BOOST
+        : 0),
   }));
 
   scored.sort((a, b) => b.score - a.score);
   const picked = new Set<number>();
   const addIndex = (idx: number) => {
-    if (idx < 0 || idx >= chunks.length) return;
-    if (picked.size >= MAX_CONTEXT_CHUNKS) return;
+    if (idx < 0 || idx >= chunks.length || !inScope(idx)) return;
+    if (picked.size >= settings.topK) return;
     picked.add(idx);
   };
 
   for (const entry of scored) {
-    if (picked.size >= MAX_CONTEXT_CHUNKS) break;
+    if (picked.size >= settings.topK) break;
     if (entry.score === 0 && picked.size > 0) break;
     addIndex(entry.index);
   }
 
   if (picked.size === 0) {
-    addIndex(0);
-    addIndex(1);
+    addIndex(scopeIndexes[0] ?? 0);
+    addIndex(scopeIndexes[1] ?? 1);
   }
 
-  if (picked.size < MAX_CONTEXT_CHUNKS) {
+  if (picked.size < settings.topK) {
     const primary = Array.from(picked);
     for (const idx of primary) {
-      if (picked.size >= MAX_CONTEXT_CHUNKS) break;
+      if (picked.size >= settings.topK) break;
       addIndex(idx - 1);
-      if (picked.size >= MAX_CONTEXT_CHUNKS) break;
+      if (picked.size >= settings.topK) break;
       addIndex(idx + 1);
     }
   }
 
   const totalChunks = chunks.length;
+  const sortedPicked = Array.from(picked).sort((a, b) => a - b);
   let remaining = hasImage ? MAX_CONTEXT_LENGTH_WITH_IMAGE : MAX_CONTEXT_LENGTH;
+  if (maxTokens !== undefined) {
+    const sample = sortedPicked.map((index) => chunks[index] || "").join("");
+    remaining = Math.min(remaining, charsForTokens(sample, maxTokens));
+  }
   if (title) remaining -= `Title: ${title}`.length + 2;
 
   const excerpts: string[] = [];
-  const sortedPicked = Array.from(picked).sort((a, b) => a - b);
   for (const index of sortedPicked) {
     if (index < 0 || index >= totalChunks) continue;
-    const label = `Excerpt ${index + 1}/${totalChunks}`;
+    const page = getChunkPage(pdfContext, index);
+    const section = sections[pdfContext.chunkSections?.[index] ?? -1];
+    const label = `Excerpt ${index + 1}/${totalChunks}${page ? ` [p. ${page}]` : ""}${section ? ` (${getSectionLabel(section)})` : ""}`;
     const body = chunks[index];
     const block = `${label}\n${body}`;
     if (remaining <= 0) break;
@@ -395,6 +932,9 @@ export async function buildContext(
   if (excerpts.length) {
     contextParts.push("Paper Text:");
     contextParts.push(excerpts.join("\n\n"));
+    if (pdfContext.chunkPages?.length) {
+      contextParts.push(PAGE_CITATION_HINT);
+    }
   }
 
   if (fullLength) {
@@ -403,3 +943,216 @@ export async function buildContext(
 
   return contextParts.join("\n\n");
 }
+
+export type PooledChunkSource = Pick<
+  PdfContext,
+  "chunks" | "chunkStats" | "docFreq" | "avgChunkLength" | "embeddings"
+>;
+
+export type PooledChunkScore = {
+  sourceIndex: number;
+  index: number;
+  score: number;
+};
+
+export async function embedQuery(
+  question: string,
+  apiOverrides?: { apiBase?: string; apiKey?: string },
+): Promise<number[] | null> {
+  if (!supportsEmbeddings(apiOverrides?.apiBase)) return null;
+  try {
+    const embedding = (await callEmbeddings([question], apiOverrides))[0];
+    return embedding?.length ? embedding : null;
+  } catch (err) {
+    ztoolkit.log("Query embedding failed:", err);
+    return null;
+  }
+}
+
+/**
+ * Rank the chunks of several documents against one query, best first. BM25
+ * uses each document's own statistics; both score kinds are normalized over
+ * the pooled chunks so documents compete on equal terms. Documents without
+ * vectors are ranked on BM25 alone.
+ */
+export function rankPooledChunks(
+  sources: PooledChunkSource[],
+  question: string,
+  queryEmbedding: number[] | null,
+  bm25Weight = getRetrievalSettings().bm25Weight,
+): PooledChunkScore[] {
+  const terms = tokenizeQuery(question);
+  const candidates: Array<{
+    sourceIndex: number;
+    index: number;
+    bm25: number;
+    embedding: number | null;
+  }> = [];
+  sources.forEach((source, sourceIndex) => {
+    const embeddings =
+      queryEmbedding && source.embeddings?.length === source.chunks.length
+        ? source.embeddings
+        : null;
+    for (const chunk of source.chunkStats) {
+      candidates.push({
+        sourceIndex,
+        index: chunk.index,
+        bm25: scoreChunkBM25(
+          chunk,
+          terms,
+          source.docFreq,
+          source.chunks.length,
+          source.avgChunkLength || 1,
+        ),
+        embedding:
+          embeddings && queryEmbedding
+            ? cosineSimilarity(queryEmbedding, embeddings[chunk.index] || [])
+            : null,
+      });
+    }
+  });
+
+  const bm25Norm = normalizeScores(candidates.map((entry) => entry.bm25));
+  const embedded = candidates.filter((entry) => entry.embedding !== null);
+  const embedNorm = normalizeScores(
+    embedded.map((entry) => entry.embedding as number),
+  );
+  const embedNormByCandidate = new Map(
+    embedded.map((entry, idx) => [entry, embedNorm[idx]]),
+  );
+  return candidates
+    .map((entry, idx) => {
+      const embedScore = embedNormByCandidate.get(entry);
+      return {
+        sourceIndex: entry.sourceIndex,
+        index: entry.index,
+        score:
+          embedScore === undefined
+            ? bm25Norm[idx]
+            : bm25Norm[idx] * bm25Weight + embedScore * (1 - bm25Weight),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Retrieve excerpts across all papers of a group conversation. Scores are
+ * normalized over the pooled chunks so papers compete on equal terms, and
+ * each excerpt is labelled for citation as `[Smith 2021, Excerpt 4]`.
+ * Groups never get the full text; the `full` mode ranks like `hybrid`.
+ * `onEmbeddingFallback` works as in `buildContext`.
+ */
+export async function buildGroupContext(
+  papers: GroupPaperContext[],
+  question: string,
+  hasImage: boolean,
+  apiOverrides?: { apiBase?: string; apiKey?: string },
+  maxTokens?: number,
+  retrievalMode?: RetrievalMode,
+  onEmbeddingFallback?: (reason: string) => void,
+): Promise<string> {
+  if (!papers.length) return "";
+  const contextParts: string[] = [];
+  contextParts.push(
+    `Papers:\n${papers
+      .map((paper) => {
+        const missing = paper.pdfContext?.chunks.length ? "" : " (no PDF text)";
+        return `[${paper.label}] ${paper.title || "Untitled"}${missing}`;
+      })
+      .join("\n")}`,
+  );
+
+  const usable = papers.filter((paper) => paper.pdfContext?.chunks.length);
+  if (!usable.length) return contextParts.join("\n\n");
+
+  const settings = getRetrievalSettings();
+  const mode = retrievalMode || settings.mode;
+  let embeddingsReady = mode !== "bm25";
+  for (const paper of embeddingsReady ? usable : []) {
+    if (!(await ensureEmbeddings(paper.pdfContext!, apiOverrides))) {
+      embeddingsReady = false;
+    }
+  }
+  const queryEmbedding = embeddingsReady
+    ? await embedQuery(question, apiOverrides)
+    : null;
+  if (mode !== "bm25" && !queryEmbedding) {
+    onEmbeddingFallback?.(getEmbeddingFallbackReason(apiOverrides?.apiBase));
+  }
+  const backMatterQuestion = isBackMatterQuestion(question);
+  const backMatter = usable.map(
+    (paper) =>
+      new Set(backMatterQuestion ? [] : paper.pdfContext!.backMatterChunks),
+  );
+  const scored = rankPooledChunks(
+    usable.map((paper) => paper.pdfContext!),
+    question,
+    queryEmbedding,
+    mode === "embedding" ? 0 : settings.bm25Weight,
+  ).filter((entry) => !backMatter[entry.sourceIndex].has(entry.index));
+
+  const picked = usable.map(() => new Set<number>());
+  let pickedCount = 0;
+  const pick = (paperIndex: number, index: number) => {
+    if (pickedCount >= MAX_GROUP_CONTEXT_CHUNKS) return;
+    if (picked[paperIndex].has(index)) return;
+    picked[paperIndex].add(index);
+    pickedCount++;
+  };
+
+  // Give every paper its best excerpt first so none is silently dropped,
+  // then fill the remaining slots by pooled score.
+  const seenPapers = new Set<number>();
+  for (const entry of scored) {
+    if (seenPapers.has(entry.sourceIndex)) continue;
+    seenPapers.add(entry.sourceIndex);
+    pick(entry.sourceIndex, entry.index);
+  }
+  for (const entry of scored) {
+    if (pickedCount >= MAX_GROUP_CONTEXT_CHUNKS) break;
+    if (entry.score === 0) break;
+    pick(entry.sourceIndex, entry.index);
+  }
+
+  let remaining = hasImage
+    ? MAX_CONTEXT_LENGTH_WITH_IMAGE
+    : MAX_GROUP_CONTEXT_LENGTH;
+  if (maxTokens !== undefined) {
+    const sample = usable
+      .flatMap((paper, paperIndex) =>
+        Array.from(picked[paperIndex]).map(
+          (index) => paper.pdfContext!.chunks[index] || "",
+        ),
+      )
+      .join("");
+    remaining = Math.min(
+      remaining,
+      charsForTokens(sample, maxTokens) - contextParts[0].length,
+    );
+  }
+  const excerpts: string[] = [];
+  usable.forEach((paper, paperIndex) => {
+    const sortedPicked = Array.from(picked[paperIndex]).sort((a, b) => a - b);
+    for (const index of sortedPicked) {
+      if (remaining <= 0) return;
+      const page = getChunkPage(paper.pdfContext!, index);
+      const block = `[${paper.label}, Excerpt ${index + 1}${page ? `, p. ${page}` : ""}]\n${paper.pdfContext!.chunks[index]}`;
+      if (block.length > remaining) {
+        excerpts.push(block.slice(0, Math.max(0, remaining)));
+        remaining = 0;
+        return;
+      }
+      excerpts.push(block);
+      remaining -= block.length + 2;
+    }
+  });
+
+  if (excerpts.length) {
+    contextParts.push(
+      "Paper Excerpts (cite claims with the excerpt label, e.g. [Smith 2021, Excerpt 4]):",
+    );
+    contextParts.push(excerpts.join("\n\n"));
+  }
+
+  return contextParts.join("\n\n");
+}
@@ -12,9 +12,18 @@ import {
   MODEL_PROFILE_SUFFIX,
   ASSISTANT_NOTE_MAP_PREF_KEY,
   CUSTOM_SHORTCUT_ID_PREFIX,
+  DEFAULT_EXTRACTION_FIELDS,
+  DEFAULT_HISTORY_IMAGE_LIMIT,
+  EXTRACTION_FIELD_TYPES,
   type ModelProfileKey,
 } from "./constants";
-import type { ApiProfile, CustomShortcut } from "./types";
+import type {
+  ApiProfile,
+  CustomShortcut,
+  ExtractionField,
+  ExtractionFieldType,
+  KeyedApiProfile,
+} from "./types";
 import { selectedModelCache, panelFontScalePercent } from "./state";
 
 export function getStringPref(key: string): string {
@@ -64,12 +73,7 @@ export function getApiProfiles(): Record<ModelProfileKey, ApiProfile> {
   return profiles;
 }
 
-export function getSelectedProfileForItem(itemId: number): {
-  key: ModelProfileKey;
-  apiBase: string;
-  apiKey: string;
-  model: string;
-} {
+export function getSelectedProfileForItem(itemId: number): KeyedApiProfile {
   const profiles = getApiProfiles();
   const selected = selectedModelCache.get(itemId) || "primary";
   if (selected !== "primary" && profiles[selected].model) {
@@ -91,6 +95,15 @@ export function getAdvancedModelParamsForProfile(profileKey: ModelProfileKey): {
   };
 }
 
+/** Screenshots of earlier messages sent again with a question; 0 disables */
+export function getHistoryImageLimit(): number {
+  const raw = getStringPref("historyImageLimit").trim();
+  const limit = Number.parseInt(raw, 10);
+  return raw && Number.isFinite(limit) && limit >= 0
+    ? limit
+    : DEFAULT_HISTORY_IMAGE_LIMIT;
+}
+
 export function applyPanelFontScale(panel: HTMLElement | null): void {
   if (!panel) return;
   panel.style.setProperty("--llm-font-scale", `${panelFontScalePercent / 100}`);
@@ -190,6 +203,49 @@ function setCustomShortcutsPref(
   Zotero.Prefs.set(`${config.prefsPrefix}.${key}`, JSON.stringify(value), true);
 }
 
+/** Fields of the data extraction schema; the defaults until edited */
+export function getExtractionFields(): ExtractionField[] {
+  const raw =
+    (Zotero.Prefs.get(
+      `${config.prefsPrefix}.extractionFields`,
+      true,
+    ) as string) || "";
+  const defaults = DEFAULT_EXTRACTION_FIELDS.map((field) => ({ ...field }));
+  if (!raw) return defaults;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return defaults;
+    const fields: ExtractionField[] = [];
+    for (const entry of parsed) {
+      if (!entry || typeof entry !== "object") continue;
+      const name =
+        typeof (entry as any).name === "string"
+          ? (entry as any).name.trim()
+          : "";
+      const type = EXTRACTION_FIELD_TYPES.includes((entry as any).type)
+        ? ((entry as any).type as ExtractionFieldType)
+        : "string";
+      const description =
+        typeof (entry as any).description === "string"
+          ? (entry as any).description.trim()
+          : "";
+      if (!name) continue;
+      fields.push({ name, type, description });
+    }
+    return fields;
+  } catch {
+    return defaults;
+  }
+}
+
+export function setExtractionFields(value: ExtractionField[]): void {
+  Zotero.Prefs.set(
+    `${config.prefsPrefix}.extractionFields`,
+    JSON.stringify(value),
+    true,
+  );
+}
+
 export function createCustomShortcutId(): string {
   const token = Math.random().toString(36).slice(2, 8);
   return `${CUSTOM_SHORTCUT_ID_PREFIX}-${Date.now()}-${token}`;
@@ -0,0 +1,355 @@
+/**
+ * Reference lists of papers and the works they cite.
+ *
+ * The reference section found by sections.ts is split into entries, either
+ * numbered ("[23]", "23.") or author-year. Markers such as "[23]", "[4-6]",
+ * "reference 12" or "(Smith et al., 2020)" in a question are resolved to
+ * entries, whose full text is then added to the context. A cited work can
+ * be added to Zotero: it is looked up by DOI or arXiv ID with Zotero's
+ * search translators, created in the selected collection and related to the
+ * paper that cites it.
+ */
+
+import { resolveContextSourceItem } from "./contextResolution";
+import { ensurePDFTextCached } from "./pdfContext";
+import { isReferencesSection } from "./sections";
+import { pdfTextCache } from "./state";
+import type { BibliographyEntry, PdfContext } from "./types";
+
+const BRACKET_ENTRY = /(?:^|\n)\s*\[(\d{1,3})\]\s*/g;
+const DOT_ENTRY = /(?:^|\n)\s*(\d{1,3})\.\s+(?=\p{Lu})/gu;
+/** Start of an author-year entry, e.g. "Smith, J." or "Smith JA," */
+const AUTHOR_YEAR_ENTRY =
+  /^\p{Lu}[\p{L}'’-]+,?\s+(?:\p{Lu}\.|\p{Lu}\p{Ll}+|\p{Lu}{1,3}\b)/u;
+const DOI_PATTERN = /\b10\.\d{4,9}\/[^\s"<>]+/;
+const ARXIV_PATTERN = /\barxiv:?\s*(\d{4}\.\d{4,5})/i;
+const YEAR_PATTERN = /\b(?:19|20)\d{2}[a-z]?\b/;
+const NUMERIC_MARKER = /\[(\d{1,3}(?:\s*[-–,]\s*\d{1,3})*)\]/g;
+const REFERENCE_WORD_MARKER = /\b(?:references?|refs?\.?)\s*#?\s*(\d{1,3})\b/gi;
+const AUTHOR_YEAR_MARKER =
+  /(\p{Lu}[\p{L}'’-]+)(?:\s+et\s+al\.?|\s+(?:and|&)\s+\p{Lu}[\p{L}'’-]+)?,?\s*\(?((?:19|20)\d{2})[a-z]?/gu;
+/** Entries added to the context of one question at most */
+const MAX_CITED_REFERENCES = 10;
+/** Longest marker range ("[3-9]") that is expanded */
+const MAX_MARKER_RANGE = 20;
+
+function cleanEntryText(text: string): string {
+  return text
+    .replace(/-\n(?=\p{Ll})/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function toEntry(number: number | null, raw: string): BibliographyEntry {
+  const text = cleanEntryText(raw);
+  const author = /^(?:\p{Lu}\.\s*)*(\p{Lu}[\p{L}'’-]+)/u.exec(text);
+  return {
+    number,
+    text,
+    firstAuthor: author?.[1] || "",
+    year: YEAR_PATTERN.exec(text)?.[0] || "",
+    doi: (DOI_PATTERN.exec(text)?.[0] || "").replace(/[.,;)\]]+$/, ""),
+    arxivId: ARXIV_PATTERN.exec(text)?.[1] || "",
+  };
+}
+
+/**
+ * Entries of a numbered list. Markers must mostly count up by one, which
+ * tells the list apart from numbers inside the entries.
+ */
+function splitNumbered(text: string, pattern: RegExp): BibliographyEntry[] {
+  const markers = Array.from(text.matchAll(pattern));
+  if (markers.length < 3) return [];
+  let sequential = 0;
+  for (let i = 1; i < markers.length; i++) {
+    if (Number(markers[i][1]) === Number(markers[i - 1][1]) + 1) sequential++;
+  }
+  if (sequential < (markers.length - 1) / 2) return [];
+  return markers.map((marker, i) => {
+    const start = (marker.index || 0) + marker[0].length;
+    const end = markers[i + 1]?.index ?? text.length;
+    return toEntry(Number(marker[1]), text.slice(start, end));
+  });
+}
+
+function splitAuthorYear(text: string): BibliographyEntry[] {
+  const raws: string[] = [];
+  let current = "";
+  for (const rawLine of text.split("\n")) {
+    const line = rawLine.trim();
+    if (!line) continue;
+    if (
+      current &&
+      AUTHOR_YEAR_ENTRY.test(line) &&
+      /[.\d)]$/.test(current.trim())
+    ) {
+      raws.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n${line}` : line;
+  }
+  if (current) raws.push(current);
+  const entries = raws
+    .map((raw) => toEntry(null, raw))
+    .filter((entry) => entry.year);
+  return entries.length >= 2 ? entries : [];
+}
+
+export function parseBibliography(text: string): BibliographyEntry[] {
+  for (const entries of [
+    splitNumbered(text, BRACKET_ENTRY),
+    splitNumbered(text, DOT_ENTRY),
+  ]) {
+    if (entries.length) return entries;
+  }
+  return splitAuthorYear(text);
+}
+
+/** Text of the reference section(s), without their headings */
+function getReferencesText(pdfContext: PdfContext): string {
+  const parts: string[] = [];
+  for (const section of pdfContext.sections || []) {
+    if (!isReferencesSection(section)) continue;
+    const text = pdfContext.chunks
+      .slice(section.startChunk, section.endChunk + 1)
+      .join("\n");
+    const headingAt = text.indexOf(section.title);
+    parts.push(
+      headingAt >= 0 ? text.slice(headingAt + section.title.length) : text,
+    );
+  }
+  return parts.join("\n");
+}
+
+/** Entries of a paper's reference list, parsed once per text */
+export function getBibliography(pdfContext: PdfContext): BibliographyEntry[] {
+  if (!pdfContext.bibliography) {
+    pdfContext.bibliography = parseBibliography(getReferencesText(pdfContext));
+  }
+  return pdfContext.bibliography;
+}
+
+function expandMarker(marker: string): number[] {
+  const numbers: number[] = [];
+  for (const part of marker.split(",")) {
+    const [from, to] = part.split(/[-–]/).map((value) => Number(value));
+    if (to === undefined) {
+      numbers.push(from);
+    } else if (to >= from && to - from <= MAX_MARKER_RANGE) {
+      for (let n = from; n <= to; n++) numbers.push(n);
+    }
+  }
+  return numbers;
+}
+
+/** Entries cited in `text`, in order of appearance */
+export function findCitedEntries(
+  entries: BibliographyEntry[],
+  text: string,
+): BibliographyEntry[] {
+  const found: Array<{ at: number; entry: BibliographyEntry }> = [];
+  const add = (at: number, entry: BibliographyEntry | undefined) => {
+    if (entry && !found.some((item) => item.entry === entry)) {
+      found.push({ at, entry });
+    }
+  };
+  const byNumber = new Map(
+    entries
+      .filter((entry) => entry.number !== null)
+      .map((entry) => [entry.number, entry]),
+  );
+  if (byNumber.size) {
+    for (const match of text.matchAll(NUMERIC_MARKER)) {
+      for (const n of expandMarker(match[1])) {
+        add(match.index || 0, byNumber.get(n));
+      }
+    }
+    for (const match of text.matchAll(REFERENCE_WORD_MARKER)) {
+      add(match.index || 0, byNumber.get(Number(match[1])));
+    }
+  }
+  for (const match of text.matchAll(AUTHOR_YEAR_MARKER)) {
+    const author = match[1].toLowerCase();
+    for (const entry of entries) {
+      if (
+        entry.firstAuthor.toLowerCase() === author &&
+        entry.year.startsWith(match[2])
+      ) {
+        add(match.index || 0, entry);
+      }
+    }
+  }
+  return found
+    .sort((a, b) => a.at - b.at)
+    .slice(0, MAX_CITED_REFERENCES)
+    .map((item) => item.entry);
+}
+
+/** e.g. "[23]" or "Smith 2020" */
+export function getEntryLabel(entry: BibliographyEntry): string {
+  if (entry.number !== null) return `[${entry.number}]`;
+  return [entry.firstAuthor, entry.year].filter(Boolean).join(" ");
+}
+
+/** Full entries of the references a question cites, for the context */
+export function formatCitedReferences(
+  pdfContext: PdfContext,
+  question: string,
+): string {
+  const cited = findCitedEntries(getBibliography(pdfContext), question);
+  if (!cited.length) return "";
+  return `Cited references:\n${cited
+    .map((entry) => `${getEntryLabel(entry)} ${entry.text}`)
+    .join("\n")}`;
+}
+
+/** References cited in the given texts, from the panel item's paper */
+export async function findCitedReferences(
+  panelItem: Zotero.Item,
+  texts: string[],
+): Promise<BibliographyEntry[]> {
+  const attachment = resolveContextSourceItem(panelItem).contextItem;
+  if (!attachment) return [];
+  await ensurePDFTextCached(attachment);
+  const pdfContext = pdfTextCache.get(attachment.id);
+  if (!pdfContext) return [];
+  return findCitedEntries(getBibliography(pdfContext), texts.join("\n"));
+}
+
+export type ReferenceTarget = {
+  libraryID: number;
+  collectionID: number | null;
+};
+
+/** Creates the Zotero item of a cited work, or `null` when not found */
+export type ReferenceTranslator = (
+  entry: BibliographyEntry,
+  target: ReferenceTarget,
+) => Promise<Zotero.Item | null>;
+
+type SearchTranslation = {
+  setIdentifier: (identifier: Record<string, string>) => void;
+  getTranslators: () => Promise<unknown[]>;
+  setTranslator: (translators: unknown[]) => void;
+  translate: (options: {
+    libraryID: number;
+    collections?: number[] | false;
+    saveAttachments?: boolean;
+  }) => Promise<Zotero.Item[]>;
+};
+
+const translateByIdentifier: ReferenceTranslator = async (entry, target) => {
+  const identifier: Record<string, string> | null = entry.doi
+    ? { DOI: entry.doi }
+    : entry.arxivId
+      ? { arXiv: entry.arxivId }
+      : null;
+  if (!identifier) {
+    throw new Error("The reference has no DOI or arXiv ID to look up");
+  }
+  const { Translate } = Zotero as unknown as {
+    Translate: { Search: new () => SearchTranslation };
+  };
+  const translation = new Translate.Search();
+  translation.setIdentifier(identifier);
+  const translators = await translation.getTranslators();
+  if (!translators.length) return null;
+  translation.setTranslator(translators);
+  const items = await translation.translate({
+    libraryID: target.libraryID,
+    collections: target.collectionID ? [target.collectionID] : false,
+    saveAttachments: false,
+  });
+  return items[0] || null;
+};
+
+function guessEntryTitle(entry: BibliographyEntry): string {
+  const quoted = /[“"]([^”"]{10,300})[”"]/.exec(entry.text);
+  if (quoted) return quoted[1].replace(/[,.]$/, "").trim();
+  const afterYear = /\(?(?:19|20)\d{2}[a-z]?\)?\.\s+([^.?!]{10,300}[.?!])/.exec(
+    entry.text,
+  );
+  if (afterYear) return afterYear[1].replace(/\.$/, "").trim();
+  return entry.text.slice(0, 200);
+}
+
+/**
+ * Builds the item from the parsed entry alone, without network access.
+ * Meant for tests, see `setReferenceTranslator`.
+ */
+export const offlineReferenceTranslator: ReferenceTranslator = async (
+  entry,
+  target,
+) => {
+  const item = new Zotero.Item("journalArticle");
+  item.libraryID = target.libraryID;
+  item.setField("title", guessEntryTitle(entry));
+  if (entry.firstAuthor) {
+    item.setCreators([
+      { lastName: entry.firstAuthor, firstName: "", creatorType: "author" },
+    ]);
+  }
+  if (entry.year) item.setField("date", entry.year.slice(0, 4));
+  if (entry.doi) item.setField("DOI", entry.doi);
+  item.setField("extra", entry.text);
+  if (target.collectionID) item.setCollections([target.collectionID]);
+  await item.saveTx();
+  return item;
+};
+
+let referenceTranslator: ReferenceTranslator = translateByIdentifier;
+
+/** Replace the lookup, or restore Zotero's translators with `null` */
+export function setReferenceTranslator(
+  translator: ReferenceTranslator | null,
+): void {
+  referenceTranslator = translator || translateByIdentifier;
+}
+
+async function findItemByDOI(
+  doi: string,
+  libraryID: number,
+): Promise<Zotero.Item | null> {
+  const search = new Zotero.Search({ libraryID });
+  search.addCondition("DOI", "is", doi);
+  const ids = await search.search();
+  return ids.length ? (Zotero.Items.get(ids[0]) as Zotero.Item) : null;
+}
+
+/**
+ * Add a cited work to the library, or find it there by DOI, and relate it
+ * to the citing paper. The selected collection receives new items.
+ */
+export async function addReferenceToZotero(
+  panelItem: Zotero.Item,
+  entry: BibliographyEntry,
+): Promise<{ item: Zotero.Item; existing: boolean }> {
+  const attachment = resolveContextSourceItem(panelItem).contextItem;
+  const citing = attachment?.parentID
+    ? (Zotero.Items.get(attachment.parentID) as Zotero.Item)
+    : attachment || panelItem;
+  const collection = Zotero.getActiveZoteroPane()?.getSelectedCollection();
+  const target: ReferenceTarget = {
+    libraryID: citing.libraryID,
+    collectionID:
+      collection && collection.libraryID === citing.libraryID
+        ? collection.id
+        : null,
+  };
+
+  let item = entry.doi
+    ? await findItemByDOI(entry.doi, target.libraryID)
+    : null;
+  const existing = Boolean(item);
+  if (!item) {
+    item = await referenceTranslator(entry, target);
+    if (!item) throw new Error("No metadata found for this reference");
+  }
+  if (item.id !== citing.id) {
+    item.addRelatedItem(citing);
+    await item.saveTx();
+    citing.addRelatedItem(item);
+    await citing.saveTx();
+  }
+  return { item, existing };
+}
@@ -0,0 +1,67 @@
+/**
+ * Retrieval mode of a conversation.
+ *
+ * Preferences set the mode for every paper; the panel's picker overrides it
+ * for one conversation, e.g. to send the full text of a paper that is
+ * usually answered from excerpts. Overrides last until Zotero restarts.
+ */
+
+import { createElement } from "../../utils/domHelpers";
+import {
+  RETRIEVAL_MODE_LABELS,
+  RETRIEVAL_MODES,
+  getRetrievalSettings,
+  type RetrievalMode,
+} from "../../utils/retrievalSettings";
+import { retrievalModeOverrides } from "./state";
+
+export function getRetrievalModeOverride(
+  conversationKey: number,
+): RetrievalMode | undefined {
+  return retrievalModeOverrides.get(conversationKey);
+}
+
+/** Override the preferred mode for a conversation, or follow it with "" */
+export function setRetrievalModeOverride(
+  conversationKey: number,
+  mode: string,
+): void {
+  if (RETRIEVAL_MODES.includes(mode as RetrievalMode)) {
+    retrievalModeOverrides.set(conversationKey, mode as RetrievalMode);
+  } else {
+    retrievalModeOverrides.delete(conversationKey);
+  }
+}
+
+/** Fill the retrieval picker; the first option follows the preferences */
+export function renderRetrievalPicker(
+  body: Element,
+  conversationKey: number,
+): void {
+  const select = body.querySelector(
+    "#llm-retrieval-select",
+  ) as HTMLSelectElement | null;
+  if (!select) return;
+  const doc = body.ownerDocument!;
+  const preferred = RETRIEVAL_MODE_LABELS[getRetrievalSettings().mode];
+  select.innerHTML = "";
+  select.appendChild(
+    createElement(doc, "option", "", {
+      value: "",
+      textContent: `Default (${preferred})`,
+    }),
+  );
+  for (const mode of RETRIEVAL_MODES) {
+    select.appendChild(
+      createElement(doc, "option", "", {
+        value: mode,
+        textContent: RETRIEVAL_MODE_LABELS[mode],
+      }),
+    );
+  }
+  const override = getRetrievalModeOverride(conversationKey);
+  select.value = override || "";
+  select.title = override
+    ? `Retrieval for this conversation: ${RETRIEVAL_MODE_LABELS[override]}`
+    : `Retrieval set in preferences: ${preferred}`;
+}
@@ -1,5 +1,11 @@
 import { HTML_NS } from "../../utils/domHelpers";
 
+/** Models whose API rejects image input */
+function isScreenshotUnsupportedModel(modelName: string): boolean {
+  const normalized = modelName.trim().toLowerCase();
+  return /^deepseek-(?:chat|reasoner)(?:$|[.-])/.test(normalized);
+}
+
 async function optimizeImageDataUrl(
   win: Window,
   dataUrl: string,
@@ -379,4 +385,9 @@ async function captureRegion(
   }
 }
 
-export { optimizeImageDataUrl, captureScreenshotSelection, captureRegion };
+export {
+  isScreenshotUnsupportedModel,
+  optimizeImageDataUrl,
+  captureScreenshotSelection,
+  captureRegion,
+};
@@ -0,0 +1,370 @@
+/**
+ * Section structure of a document's text.
+ *
+ * Headings are found line by line in the chunked text: numbered headings
+ * ("3 Methods", "3.2 Data", "IV. RESULTS") and the usual unnumbered ones of
+ * a paper (Abstract, Introduction, Methods, ...). Numbered headings must
+ * continue the numbering seen so far, which keeps list items, page numbers
+ * and table rows out. Retrieval boosts the chunks of sections a question
+ * names, and one section can be pinned as the only context of a paper.
+ */
+
+import { createElement } from "../../utils/domHelpers";
+import { resolveContextSourceItem } from "./contextResolution";
+import { getActiveGroupConversation } from "./groupConversation";
+import { pdfTextCache, pinnedSectionCache } from "./state";
+import type { DocumentSection, PdfContext } from "./types";
+
+type SectionKind = {
+  key: string;
+  /** Whole line that is an unnumbered heading of this kind */
+  heading: RegExp;
+  /** Words that name this kind in a heading title or a question */
+  mention: RegExp;
+};
+
+const SECTION_KINDS: SectionKind[] = [
+  { key: "abstract", heading: /^abstract$/i, mention: /\babstracts?\b/i },
+  {
+    key: "introduction",
+    heading: /^introduction$/i,
+    mention: /\bintro(?:duction)?\b/i,
+  },
+  {
+    key: "background",
+    heading: /^(?:background|related work|literature review|preliminaries)$/i,
+    mention:
+      /\b(?:background|related work|prior work|literature review|preliminaries)\b/i,
+  },
+  {
+    key: "methods",
+    heading: /^(?:methods?|methodology|materials and methods)$/i,
+    mention: /\b(?:methods?|methodology|experimental setup)\b/i,
+  },
+  {
+    key: "experiments",
+    heading: /^experiments?$/i,
+    mention: /\bexperiments?\b/i,
+  },
+  { key: "results", heading: /^results?$/i, mention: /\bresults?\b/i },
+  {
+    key: "discussion",
+    heading: /^(?:results and )?discussion$/i,
+    mention: /\bdiscussion\b/i,
+  },
+  {
+    key: "conclusion",
+    heading: /^(?:conclusions?|concluding remarks)$/i,
+    mention: /\b(?:conclusions?|concluding remarks)\b/i,
+  },
+  {
+    key: "acknowledgments",
+    heading: /^acknowledge?ments?$/i,
+    mention: /\backnowledge?ments?\b/i,
+  },
+  {
+    key: "references",
+    heading: /^(?:references|bibliography|works cited|literature cited)$/i,
+    mention: /\b(?:references|bibliography)\b/i,
+  },
+  {
+    key: "appendix",
+    heading: /^(?:appendix|appendices)\b/i,
+    mention: /\b(?:appendix|appendices|supplementary)\b/i,
+  },
+];
+
+/** Headings of sections that are left out of the default context */
+const BACK_MATTER_HEADING =
+  /^(?:references|bibliography|works cited|literature cited|acknowledge?ments?|appendix|appendices|supplementary\b)/i;
+/** Questions about citations, funding or the appendix */
+const BACK_MATTER_QUESTION =
+  /\b(?:cit(?:e|es|ed|ing|ation|ations)|references?|bibliograph\w*|builds? (?:up)?on|(?:which|what) (?:other )?(?:papers|works|studies|articles)|reading list|acknowledg\w*|fund(?:ing|ed)|grants?|appendix|appendices|supplementary)\b/i;
+const NUMBERED_HEADING = /^(\d{1,2}(?:\.\d{1,2}){0,3})\.?\s+(\p{Lu}.*)$/u;
+const ROMAN_HEADING = /^([IVX]{1,5})\.\s+(\p{Lu}.*)$/u;
+const SECTION_REFERENCE = /(?:\bsections?|\bsec\.|§)\s*(\d+(?:\.\d+)*)/gi;
+const MAX_HEADING_LENGTH = 80;
+const MAX_HEADING_WORDS = 10;
+
+function romanToNumber(roman: string): number {
+  const values: Record<string, number> = { I: 1, V: 5, X: 10 };
+  let total = 0;
+  for (let i = 0; i < roman.length; i++) {
+    const value = values[roman[i]];
+    const next = values[roman[i + 1]] || 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+}
+
+/** Whether a heading title reads like one (not a sentence or table row) */
+function isHeadingTitle(title: string): boolean {
+  return (
+    title.length <= MAX_HEADING_LENGTH &&
+    title.split(/\s+/).length <= MAX_HEADING_WORDS &&
+    /\p{L}{2}/u.test(title) &&
+    !/[.,;:]$/.test(title) &&
+    !/\.\s|\bet al\b/.test(title) &&
+    (title.match(/\d/g) || []).length <= 3
+  );
+}
+
+/**
+ * Whether `numbers` continues `last`: the next sibling of one of its
+ * levels, or the first subsection of its deepest level.
+ */
+function continuesNumbering(numbers: number[], last: number[]): boolean {
+  const depth = numbers.length;
+  if (depth > last.length + 1) return false;
+  for (let i = 0; i < depth - 1; i++) {
+    if (numbers[i] !== last[i]) return false;
+  }
+  return numbers[depth - 1] === (last[depth - 1] ?? 0) + 1;
+}
+
+function parseHeading(
+  line: string,
+  lastNumbers: number[],
+): { number: string; numbers: number[]; title: string } | null {
+  if (line.length > MAX_HEADING_LENGTH + 8) return null;
+  const numbered = NUMBERED_HEADING.exec(line);
+  if (numbered) {
+    const title = numbered[2].trim();
+    const numbers = numbered[1].split(".").map(Number);
+    if (isHeadingTitle(title) && continuesNumbering(numbers, lastNumbers)) {
+      return { number: numbered[1], numbers, title };
+    }
+    return null;
+  }
+  const roman = ROMAN_HEADING.exec(line);
+  if (roman) {
+    const title = roman[2].trim();
+    const numbers = [romanToNumber(roman[1])];
+    if (
+      title === title.toUpperCase() &&
+      isHeadingTitle(title) &&
+      continuesNumbering(numbers, lastNumbers.slice(0, 1))
+    ) {
+      return { number: roman[1], numbers, title };
+    }
+    return null;
+  }
+  const title = line.replace(/[:.]$/, "");
+  if (SECTION_KINDS.some((kind) => kind.heading.test(title))) {
+    return { number: "", numbers: [], title };
+  }
+  return null;
+}
+
+/**
+ * Find the headings of a document and the section of every chunk. A chunk
+ * belongs to the section that has the most of its text. Chunks of the
+ * references, acknowledgments and appendix are listed as back matter.
+ */
+export function buildSectionIndex(chunks: string[]): {
+  sections: DocumentSection[];
+  chunkSections: number[];
+  backMatterChunks: number[];
+} {
+  const sections: DocumentSection[] = [];
+  const chunkSections: number[] = [];
+  let current = -1;
+  let lastNumbers: number[] = [];
+  chunks.forEach((chunk, chunkIndex) => {
+    const lengths = new Map<number, number>();
+    for (const rawLine of chunk.split("\n")) {
+      const line = rawLine.replace(/\s+/g, " ").trim();
+      if (!line) continue;
+      const heading = parseHeading(line, lastNumbers);
+      const previous = sections[sections.length - 1];
+      // Overlapping chunks can repeat a heading.
+      if (
+        heading &&
+        !(
+          previous &&
+          previous.title === heading.title &&
+          previous.number === heading.number &&
+          chunkIndex - previous.startChunk <= 1
+        )
+      ) {
+        if (heading.numbers.length) lastNumbers = heading.numbers;
+        const level = heading.numbers.length || 1;
+        let parent = current;
+        while (parent >= 0 && sections[parent].level >= level) {
+          parent = sections[parent].parent;
+        }
+        sections.push({
+          number: heading.number,
+          title: heading.title,
+          level,
+          parent,
+          startChunk: chunkIndex,
+          endChunk: chunkIndex,
+        });
+        current = sections.length - 1;
+        continue;
+      }
+      lengths.set(current, (lengths.get(current) || 0) + line.length);
+      for (let index = current; index >= 0; index = sections[index].parent) {
+        sections[index].endChunk = chunkIndex;
+      }
+    }
+    let best = current;
+    let bestLength = 0;
+    for (const [index, length] of lengths) {
+      if (length > bestLength) {
+        best = index;
+        bestLength = length;
+      }
+    }
+    chunkSections.push(best);
+  });
+  const backMatter = new Set<number>();
+  sections.forEach((section, index) => {
+    if (BACK_MATTER_HEADING.test(section.title)) backMatter.add(index);
+  });
+  const backMatterChunks: number[] = [];
+  chunkSections.forEach((_section, chunkIndex) => {
+    if (
+      isChunkInSections({ sections, chunkSections }, chunkIndex, backMatter)
+    ) {
+      backMatterChunks.push(chunkIndex);
+    }
+  });
+  return { sections, chunkSections, backMatterChunks };
+}
+
+/** Whether a section is the reference list */
+export function isReferencesSection(section: DocumentSection): boolean {
+  return SECTION_KINDS.some(
+    (kind) => kind.key === "references" && kind.heading.test(section.title),
+  );
+}
+
+/** Whether a question needs the references, acknowledgments or appendix */
+export function isBackMatterQuestion(question: string): boolean {
+  return BACK_MATTER_QUESTION.test(question);
+}
+
+/** e.g. "3.2 Data" or "Abstract" */
+export function getSectionLabel(section: DocumentSection): string {
+  return section.number ? `${section.number} ${section.title}` : section.title;
+}
+
+/** Index of the section with this label, or -1 */
+export function findSectionByLabel(
+  pdfContext: Pick<PdfContext, "sections">,
+  label: string,
+): number {
+  return (pdfContext.sections || []).findIndex(
+    (section) => getSectionLabel(section) === label,
+  );
+}
+
+/**
+ * Sections a question asks about: by number ("Section 3", "§2.1"), by kind
+ * ("the methods") or by their full title.
+ */
+export function findSectionsInQuestion(
+  sections: DocumentSection[],
+  question: string,
+): Set<number> {
+  const matched = new Set<number>();
+  if (!sections.length) return matched;
+  const numbers = new Set(
+    Array.from(question.matchAll(SECTION_REFERENCE), (match) => match[1]),
+  );
+  const kinds = SECTION_KINDS.filter((kind) => kind.mention.test(question));
+  const lowerQuestion = question.toLowerCase();
+  sections.forEach((section, index) => {
+    const title = section.title.toLowerCase();
+    if (
+      (section.number && numbers.has(section.number)) ||
+      kinds.some((kind) => kind.mention.test(section.title)) ||
+      (title.length >= 5 && lowerQuestion.includes(title))
+    ) {
+      matched.add(index);
+    }
+  });
+  return matched;
+}
+
+/** Whether a chunk lies in one of the sections or their subsections */
+export function isChunkInSections(
+  pdfContext: Pick<PdfContext, "sections" | "chunkSections">,
+  chunkIndex: number,
+  sectionIndexes: Set<number>,
+): boolean {
+  const sections = pdfContext.sections || [];
+  let index = pdfContext.chunkSections?.[chunkIndex] ?? -1;
+  while (index >= 0) {
+    if (sectionIndexes.has(index)) return true;
+    index = sections[index]?.parent ?? -1;
+  }
+  return false;
+}
+
+function getSectionAttachment(panelItem: Zotero.Item): Zotero.Item | null {
+  if (getActiveGroupConversation(panelItem)) return null;
+  return resolveContextSourceItem(panelItem).contextItem;
+}
+
+/** Label of the section pinned for the panel item's paper, if any */
+export function getPinnedSection(panelItem: Zotero.Item): string {
+  const attachment = getSectionAttachment(panelItem);
+  return attachment ? pinnedSectionCache.get(attachment.id) || "" : "";
+}
+
+/** Pin a section as the only context of the paper, or unpin with "" */
+export function setPinnedSection(panelItem: Zotero.Item, label: string): void {
+  const attachment = getSectionAttachment(panelItem);
+  if (!attachment) return;
+  if (label) {
+    pinnedSectionCache.set(attachment.id, label);
+  } else {
+    pinnedSectionCache.delete(attachment.id);
+  }
+}
+
+/** Fill the section picker once the paper's text is loaded */
+export function renderSectionPicker(
+  body: Element,
+  panelItem: Zotero.Item,
+): void {
+  const bar = body.querySelector("#llm-section-bar") as HTMLElement | null;
+  const select = body.querySelector(
+    "#llm-section-select",
+  ) as HTMLSelectElement | null;
+  if (!bar || !select) return;
+  const attachment = getSectionAttachment(panelItem);
+  const sections =
+    (attachment && pdfTextCache.get(attachment.id)?.sections) || [];
+  bar.style.display = sections.length ? "" : "none";
+  if (!sections.length) return;
+
+  const doc = body.ownerDocument!;
+  select.innerHTML = "";
+  select.appendChild(
+    createElement(doc, "option", "", {
+      value: "",
+      textContent: "Whole paper",
+    }),
+  );
+  for (const section of sections) {
+    const label = getSectionLabel(section);
+    select.appendChild(
+      createElement(doc, "option", "", {
+        value: label,
+        textContent: `${"  ".repeat(section.level - 1)}${label}`,
+      }),
+    );
+  }
+  const pinned = getPinnedSection(panelItem);
+  select.value =
+    pinned && sections.some((section) => getSectionLabel(section) === pinned)
+      ? pinned
+      : "";
+  select.title = select.value
+    ? `Questions use only ${select.value}`
+    : "Questions use the whole paper";
+}
@@ -1,6 +1,9 @@
 import { createElement } from "../../utils/domHelpers";
 import {
   MAX_SELECTED_IMAGES,
+  MAX_ATTACHED_FILES,
+  ATTACHED_FILE_MAX_BYTES,
+  ATTACHED_FILE_MAX_LENGTH,
   FONT_SCALE_MIN_PERCENT,
   FONT_SCALE_MAX_PERCENT,
   FONT_SCALE_STEP_PERCENT,
@@ -9,6 +12,8 @@ import {
   SELECT_TEXT_COMPACT_LABEL,
   SCREENSHOT_EXPANDED_LABEL,
   SCREENSHOT_COMPACT_LABEL,
+  FIGURES_EXPANDED_LABEL,
+  FIGURES_COMPACT_LABEL,
   REASONING_COMPACT_LABEL,
   ACTION_LAYOUT_FULL_MODE_BUFFER_PX,
   ACTION_LAYOUT_PARTIAL_MODE_BUFFER_PX,
@@ -17,6 +22,7 @@ import {
   ACTION_LAYOUT_MODEL_WRAP_MIN_CHARS,
   ACTION_LAYOUT_MODEL_FULL_MAX_LINES,
   MODEL_PROFILE_ORDER,
+  OCR_MAX_PAGES,
   type ModelProfileKey,
 } from "./constants";
 import {
@@ -27,6 +33,7 @@ import {
   selectedImagePreviewActiveIndexCache,
   selectedTextCache,
   selectedTextPreviewExpandedCache,
+  selectedFileCache,
   setCancelledRequestId,
   currentAbortController,
   panelFontScalePercent,
@@ -36,6 +43,8 @@ import {
   chatHistory,
   loadedConversationKeys,
   currentRequestId,
+  pendingMessageEdits,
+  activeThreadIds,
 } from "./state";
 import {
   sanitizeText,
@@ -43,6 +52,7 @@ import {
   clampNumber,
   buildQuestionWithSelectedText,
   getSelectedTextWithinBubble,
+  normalizeSelectedText,
 } from "./textUtils";
 import {
   positionMenuBelowButton,
@@ -72,15 +82,64 @@ import {
   getActiveReaderSelectionText,
   applySelectedTextPreview,
   includeSelectedTextFromReader,
+  navigateToPageCitation,
 } from "./contextResolution";
-import { captureScreenshotSelection, optimizeImageDataUrl } from "./screenshot";
+import {
+  captureScreenshotSelection,
+  isScreenshotUnsupportedModel,
+  optimizeImageDataUrl,
+} from "./screenshot";
 import {
   createNoteFromAssistantText,
   createNoteFromChatHistory,
   buildChatHistoryNotePayload,
 } from "./notes";
-import { clearConversation as clearStoredConversation } from "../../utils/chatStore";
+import { clearThread as clearStoredThread } from "../../utils/chatStore";
+import { leaveGroupConversation } from "./groupConversation";
+import {
+  hideSearchResults,
+  parseSearchCommand,
+  renderSearchResults,
+  searchLibrary,
+} from "./librarySearch";
+import { buildUI } from "./buildUI";
+import { renderShortcuts } from "./shortcuts";
+import { resetConversationBranches, switchBranch } from "./branches";
+import {
+  activateThread,
+  deleteConversationThread,
+  getActiveThreadId,
+  getThreadTitle,
+  openDeleteThreadDialog,
+  openThreadRenameDialog,
+  renameConversationThread,
+  renderThreadPicker,
+  startNewThread,
+} from "./threads";
+import { editConversationSummary } from "./memory";
+import { openHistorySearchDialog } from "./historySearch";
+import { createHighlightsFromAnswer } from "./pdfAnnotations";
+import { getPdfFigures } from "./figures";
+import { transcribeScannedPdf, updateOcrNotice } from "./ocr";
+import { renderRetrievalPicker, setRetrievalModeOverride } from "./retrieval";
+import { renderSectionPicker, setPinnedSection } from "./sections";
+import {
+  addReferenceToZotero,
+  findCitedReferences,
+  getEntryLabel,
+} from "./references";
+import {
+  getTransferFiles,
+  hasTransferFiles,
+  isImageFile,
+  isTextFile,
+  readImageFile,
+  readTextFile,
+} from "./attachments";
 import type {
+  BibliographyEntry,
+  Message,
+  PdfFigure,
   ReasoningLevelSelection,
   ReasoningOption,
   ReasoningProviderKind,
@@ -135,9 +194,18 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
   const screenshotBtn = body.querySelector(
     "#llm-screenshot",
   ) as HTMLButtonElement | null;
+  const figuresBtn = body.querySelector(
+    "#llm-figures",
+  ) as HTMLButtonElement | null;
+  const figuresMenu = body.querySelector(
+    "#llm-figures-menu",
+  ) as HTMLDivElement | null;
   const imagePreview = body.querySelector(
     "#llm-image-preview",
   ) as HTMLDivElement | null;
+  const filePreview = body.querySelector(
+    "#llm-file-preview",
+  ) as HTMLDivElement | null;
   const selectedContextClear = body.querySelector(
     "#llm-selected-context-clear",
   ) as HTMLButtonElement | null;
@@ -171,6 +239,15 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
   const responseMenuNoteBtn = body.querySelector(
     "#llm-response-menu-note",
   ) as HTMLButtonElement | null;
+  const responseMenuHighlightBtn = body.querySelector(
+    "#llm-response-menu-highlight",
+  ) as HTMLButtonElement | null;
+  const responseMenuReferencesBtn = body.querySelector(
+    "#llm-response-menu-references",
+  ) as HTMLButtonElement | null;
+  const referenceMenu = body.querySelector(
+    "#llm-reference-menu",
+  ) as HTMLDivElement | null;
   const exportMenu = body.querySelector(
     "#llm-export-menu",
   ) as HTMLDivElement | null;
@@ -214,6 +291,26 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
       persistChatScrollSnapshot(item, chatBox);
     };
     chatBox.addEventListener("scroll", persistScroll, { passive: true });
+
+    // Page citations in answers jump to the page in the reader.
+    chatBox.addEventListener("click", (e: Event) => {
+      const target = e.target as Element | null;
+      const link = target?.closest?.(
+        "a.llm-page-citation",
+      ) as HTMLAnchorElement | null;
+      if (!link) return;
+      e.preventDefault();
+      e.stopPropagation();
+      const page = Number.parseInt(link.dataset.page || "", 10);
+      if (!Number.isFinite(page) || page <= 0) return;
+      void navigateToPageCitation(item, page, link.dataset.quote).then(
+        (navigated) => {
+          if (!navigated && status) {
+            setStatus(status, "No PDF to open for this citation", "warning");
+          }
+        },
+      );
+    });
   }
 
   // Capture scroll before click/focus interactions that may trigger a panel
@@ -251,6 +348,69 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
   const closeExportMenu = () => {
     if (exportMenu) exportMenu.style.display = "none";
   };
+  const closeReferenceMenu = () => {
+    if (referenceMenu) referenceMenu.style.display = "none";
+  };
+
+  const addCitedWork = async (
+    targetItem: Zotero.Item,
+    entry: BibliographyEntry,
+  ) => {
+    const label = getEntryLabel(entry);
+    if (status) setStatus(status, `Looking up ${label}...`, "sending");
+    try {
+      const result = await addReferenceToZotero(targetItem, entry);
+      if (status) {
+        setStatus(
+          status,
+          result.existing
+            ? `${label} is already in the library; related to this paper`
+            : `Added ${label} to Zotero`,
+          "ready",
+        );
+      }
+    } catch (err) {
+      ztoolkit.log("LLM: Adding cited work failed", err);
+      if (status) {
+        setStatus(
+          status,
+          err instanceof Error ? err.message : "Failed to add the reference",
+          "error",
+        );
+      }
+    }
+  };
+
+  const openReferenceMenu = (
+    targetItem: Zotero.Item,
+    entries: BibliographyEntry[],
+    clientX: number,
+    clientY: number,
+  ) => {
+    if (!referenceMenu) return;
+    const ownerDoc = body.ownerDocument as Document;
+    referenceMenu.innerHTML = "";
+    for (const entry of entries) {
+      const option = createElement(
+        ownerDoc,
+        "button",
+        "llm-response-menu-item llm-reference-option",
+        {
+          type: "button",
+          textContent: `${getEntryLabel(entry)} ${entry.text}`,
+          title: entry.doi ? `${entry.text}\nDOI: ${entry.doi}` : entry.text,
+        },
+      );
+      option.addEventListener("click", (e: Event) => {
+        e.preventDefault();
+        e.stopPropagation();
+        closeReferenceMenu();
+        void addCitedWork(targetItem, entry);
+      });
+      referenceMenu.appendChild(option);
+    }
+    positionMenuAtPointer(body, referenceMenu, clientX, clientY);
+  };
 
   if (responseMenu && responseMenuCopyBtn && responseMenuNoteBtn) {
     if (!responseMenu.dataset.listenerAttached) {
@@ -316,9 +476,95 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
           if (status) setStatus(status, "Failed to create note", "error");
         }
       });
+      responseMenuHighlightBtn?.addEventListener("click", async (e: Event) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const target = responseMenuTarget;
+        closeResponseMenu();
+        if (!target) return;
+        if (status) setStatus(status, "Finding passages in PDF...", "sending");
+        try {
+          const result = await createHighlightsFromAnswer(
+            target.item,
+            target.contentText,
+            target.answerText,
+          );
+          if (!status) return;
+          if (!result.quotes) {
+            setStatus(status, "No quoted passage to highlight", "warning");
+          } else if (!result.created) {
+            setStatus(status, "Quoted text not found in the PDF", "warning");
+          } else {
+            setStatus(
+              status,
+              `Highlighted ${result.created} of ${result.quotes} passage${
+                result.quotes === 1 ? "" : "s"
+              }`,
+              "ready",
+            );
+          }
+        } catch (err) {
+          ztoolkit.log("LLM: Highlight in PDF failed", err);
+          if (status) {
+            setStatus(
+              status,
+              err instanceof Error ? err.message : "Failed to highlight",
+              "error",
+            );
+          }
+        }
+      });
     }
   }
 
+  if (referenceMenu && !referenceMenu.dataset.listenerAttached) {
+    referenceMenu.dataset.listenerAttached = "true";
+    referenceMenu.addEventListener("pointerdown", (e: Event) => {
+      e.stopPropagation();
+    });
+    referenceMenu.addEventListener("mousedown", (e: Event) => {
+      e.stopPropagation();
+    });
+  }
+
+  responseMenuReferencesBtn?.addEventListener("click", async (e: Event) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const target = responseMenuTarget;
+    const menuRect = responseMenu?.getBoundingClientRect();
+    closeResponseMenu();
+    if (!target) return;
+    if (status) setStatus(status, "Finding cited references...", "sending");
+    try {
+      const entries = await findCitedReferences(target.item, [
+        target.questionText,
+        target.answerText,
+      ]);
+      if (!entries.length) {
+        if (status) {
+          setStatus(status, "No cited reference found", "warning");
+        }
+        return;
+      }
+      if (status) {
+        setStatus(
+          status,
+          `${entries.length} cited reference${entries.length === 1 ? "" : "s"} found`,
+          "ready",
+        );
+      }
+      openReferenceMenu(
+        target.item,
+        entries,
+        menuRect?.left ?? 0,
+        menuRect?.top ?? 0,
+      );
+    } catch (err) {
+      ztoolkit.log("LLM: Reference lookup failed", err);
+      if (status) setStatus(status, "Failed to read the references", "error");
+    }
+  });
+
   if (exportMenu && exportMenuCopyBtn && exportMenuNoteBtn) {
     if (!exportMenu.dataset.listenerAttached) {
       exportMenu.dataset.listenerAttached = "true";
@@ -417,6 +663,50 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
     selectedTextPreviewExpandedCache.delete(itemId);
   };
 
+  const updateFilePreview = () => {
+    if (!item || !filePreview) return;
+    const ownerDoc = body.ownerDocument;
+    if (!ownerDoc) return;
+    const files = selectedFileCache.get(item.id) || [];
+    filePreview.innerHTML = "";
+    filePreview.style.display = files.length ? "flex" : "none";
+    files.forEach((file, index) => {
+      const chip = createElement(ownerDoc, "span", "llm-file-chip", {
+        title: file.truncated
+          ? `${file.name} (only the first ${ATTACHED_FILE_MAX_LENGTH} characters are sent)`
+          : file.name,
+      });
+      const name = createElement(ownerDoc, "span", "llm-file-chip-name", {
+        textContent: `📄 ${file.name}`,
+      });
+      const removeBtn = createElement(
+        ownerDoc,
+        "button",
+        "llm-file-chip-remove",
+        {
+          type: "button",
+          textContent: "×",
+          title: `Remove ${file.name}`,
+        },
+      );
+      removeBtn.addEventListener("click", (e: Event) => {
+        e.preventDefault();
+        e.stopPropagation();
+        if (!item) return;
+        const nextFiles = files.filter((_, fileIndex) => fileIndex !== index);
+        if (nextFiles.length) {
+          selectedFileCache.set(item.id, nextFiles);
+        } else {
+          selectedFileCache.delete(item.id);
+        }
+        updateFilePreview();
+        if (status) setStatus(status, `${file.name} removed`, "ready");
+      });
+      chip.append(name, removeBtn);
+      filePreview.appendChild(chip);
+    });
+  };
+
   // Helper to update image preview UI
   const updateImagePreview = () => {
     if (
@@ -569,6 +859,12 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
         ? screenshotDisabledHint
         : "Select figure screenshot";
     }
+    if (figuresBtn) {
+      figuresBtn.disabled = screenshotBtn.disabled;
+      figuresBtn.title = screenshotUnsupported
+        ? screenshotDisabledHint
+        : "Attach a figure or table of this paper";
+    }
     applyResponsiveActionButtonsLayout();
   };
 
@@ -627,11 +923,6 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
     };
   };
 
-  const isScreenshotUnsupportedModel = (modelName: string): boolean => {
-    const normalized = modelName.trim().toLowerCase();
-    return /^deepseek-(?:chat|reasoner)(?:$|[.-])/.test(normalized);
-  };
-
   const getScreenshotDisabledHint = (modelName: string): string => {
     const label = modelName.trim() || "current model";
     return `Screenshots are disabled for ${label}`;
@@ -817,6 +1108,7 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
       };
       const selectTextSlot = selectTextBtn?.parentElement as HTMLElement | null;
       const screenshotSlot = screenshotBtn?.parentElement as HTMLElement | null;
+      const figuresSlot = figuresBtn?.parentElement as HTMLElement | null;
       const leftSlotWidths = [
         contextButtonMode === "full"
           ? getFullSlotRequiredWidth(
@@ -842,6 +1134,18 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
                 ACTION_LAYOUT_CONTEXT_ICON_WIDTH_PX,
               )
             : 0,
+        contextButtonMode === "full"
+          ? getFullSlotRequiredWidth(
+              figuresSlot,
+              figuresBtn,
+              FIGURES_EXPANDED_LABEL,
+            )
+          : figuresBtn
+            ? getRenderedWidthPx(
+                figuresBtn,
+                ACTION_LAYOUT_CONTEXT_ICON_WIDTH_PX,
+              )
+            : 0,
         dropdownMode === "full"
           ? getFullSlotRequiredWidth(
               modelSlot,
@@ -923,6 +1227,12 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
         SCREENSHOT_COMPACT_LABEL,
         contextButtonMode,
       );
+      setActionButtonLabel(
+        figuresBtn,
+        FIGURES_EXPANDED_LABEL,
+        FIGURES_COMPACT_LABEL,
+        contextButtonMode,
+      );
 
       modelBtn.classList.remove("llm-model-btn-collapsed");
       modelSlot?.classList.remove("llm-model-dropdown-collapsed");
@@ -1198,6 +1508,7 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
   // Initialize image preview state
   updateImagePreview();
   updateSelectedTextPreview();
+  updateFilePreview();
   syncModelFromPrefs();
 
   // Preferences can change outside this panel (e.g., settings window).
@@ -1247,16 +1558,53 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
     return { provider, level: selectedLevel as LLMReasoningLevel };
   };
 
+  const runLibrarySearch = async (query: string) => {
+    if (!item) return;
+    if (!query) {
+      if (status) {
+        setStatus(status, "Type a query after /search", "warning");
+      }
+      return;
+    }
+    inputBox.value = "";
+    if (status) setStatus(status, "Searching library...", "sending");
+    const selectedProfile = getSelectedProfile();
+    try {
+      const results = await searchLibrary(item.libraryID, query, {
+        apiBase: selectedProfile?.apiBase,
+        apiKey: selectedProfile?.apiKey,
+      });
+      renderSearchResults(body, query, results, () => refreshChat(body, item));
+      if (status) {
+        setStatus(status, `Found ${results.length} passages`, "ready");
+      }
+    } catch (err) {
+      ztoolkit.log("LLM: Library search failed", err);
+      if (status) setStatus(status, "Library search failed", "error");
+    }
+  };
+
   const doSend = async () => {
     if (!item) return;
     const text = inputBox.value.trim();
+    const searchQuery = parseSearchCommand(text);
+    if (searchQuery !== null) {
+      await runLibrarySearch(searchQuery);
+      return;
+    }
+    hideSearchResults(body);
     const selectedText = selectedTextCache.get(item.id) || "";
-    if (!text && !selectedText) return;
-    const promptText = text || "Please explain this selected text.";
+    const attachedFiles = selectedFileCache.get(item.id) || [];
+    if (!text && !selectedText && !attachedFiles.length) return;
+    const promptText =
+      text ||
+      (selectedText
+        ? "Please explain this selected text."
+        : "Please explain the attached files.");
     const composedQuestion = selectedText
       ? buildQuestionWithSelectedText(selectedText, text)
-      : text;
-    const displayQuestion = selectedText ? promptText : text;
+      : promptText;
+    const displayQuestion = promptText;
     inputBox.value = "";
     const selectedProfile = getSelectedProfile();
     const activeModelName = (
@@ -1278,8 +1626,15 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
       clearSelectedTextState(item.id);
       updateSelectedTextPreview();
     }
+    selectedFileCache.delete(item.id);
+    updateFilePreview();
     const selectedReasoning = getSelectedReasoning();
     const advancedParams = getAdvancedModelParams(selectedProfile?.key);
+    const editOf =
+      conversationKey !== null
+        ? pendingMessageEdits.get(conversationKey)
+        : undefined;
+    if (conversationKey !== null) pendingMessageEdits.delete(conversationKey);
     await sendQuestion(
       body,
       item,
@@ -1292,9 +1647,128 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
       advancedParams,
       displayQuestion,
       selectedText || undefined,
+      editOf ? { editOf } : undefined,
+      attachedFiles,
     );
   };
 
+  const startMessageEdit = (message: Message) => {
+    if (!item || conversationKey === null) return;
+    hideSearchResults(body);
+    pendingMessageEdits.set(conversationKey, message);
+    inputBox.value = message.text;
+    if (message.selectedText) {
+      selectedTextCache.set(item.id, message.selectedText);
+      updateSelectedTextPreview();
+    }
+    if (message.screenshotImages?.length) {
+      selectedImageCache.set(
+        item.id,
+        message.screenshotImages.slice(0, MAX_SELECTED_IMAGES),
+      );
+      updateImagePreview();
+    }
+    if (message.attachedFiles?.length) {
+      selectedFileCache.set(item.id, message.attachedFiles.slice());
+      updateFilePreview();
+    }
+    refreshChat(body, item);
+    inputBox.focus({ preventScroll: true });
+    if (status) {
+      setStatus(
+        status,
+        "Editing message: send to branch, Esc to cancel",
+        "warning",
+      );
+    }
+  };
+
+  const cancelMessageEdit = () => {
+    if (!item || conversationKey === null) return false;
+    if (!pendingMessageEdits.delete(conversationKey)) return false;
+    inputBox.value = "";
+    clearSelectedImageState(item.id);
+    clearSelectedTextState(item.id);
+    selectedFileCache.delete(item.id);
+    updateImagePreview();
+    updateSelectedTextPreview();
+    updateFilePreview();
+    refreshChat(body, item);
+    if (status) setStatus(status, "Edit cancelled", "ready");
+    return true;
+  };
+
+  const regenerateAnswer = async (assistantMessage: Message) => {
+    if (!item || conversationKey === null) return;
+    const history = chatHistory.get(conversationKey) || [];
+    const userMessage = history[history.indexOf(assistantMessage) - 1];
+    if (!userMessage || userMessage.role !== "user") return;
+    hideSearchResults(body);
+    const selectedText = userMessage.selectedText || "";
+    const selectedProfile = getSelectedProfile();
+    const activeModelName = (
+      selectedProfile?.model ||
+      getSelectedModelInfo().currentModel ||
+      ""
+    ).trim();
+    const images = isScreenshotUnsupportedModel(activeModelName)
+      ? []
+      : userMessage.screenshotImages || [];
+    await sendQuestion(
+      body,
+      item,
+      selectedText
+        ? buildQuestionWithSelectedText(selectedText, userMessage.text)
+        : userMessage.text,
+      images,
+      selectedProfile?.model,
+      selectedProfile?.apiBase,
+      selectedProfile?.apiKey,
+      getSelectedReasoning(),
+      getAdvancedModelParams(selectedProfile?.key),
+      userMessage.text,
+      selectedText || undefined,
+      { regenerateFor: userMessage },
+      userMessage.attachedFiles,
+    );
+  };
+
+  // Edit / regenerate / branch switcher buttons under each message
+  chatBox?.addEventListener("click", (e: Event) => {
+    if (!item || conversationKey === null) return;
+    const target = e.target as Element | null;
+    const btn = target?.closest?.(
+      "button.llm-message-action",
+    ) as HTMLButtonElement | null;
+    if (!btn || btn.disabled) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const history = chatHistory.get(conversationKey) || [];
+    const message = history[Number(btn.dataset.messageIndex)];
+    if (!message) return;
+    switch (btn.dataset.action) {
+      case "edit":
+        startMessageEdit(message);
+        break;
+      case "regenerate":
+        void regenerateAnswer(message);
+        break;
+      case "branch-prev":
+      case "branch-next":
+        if (
+          switchBranch(
+            conversationKey,
+            message,
+            btn.dataset.action === "branch-prev" ? -1 : 1,
+          )
+        ) {
+          pendingMessageEdits.delete(conversationKey);
+          refreshChat(body, item);
+        }
+        break;
+    }
+  });
+
   // Send button - use addEventListener
   sendBtn.addEventListener("click", (e: Event) => {
     e.preventDefault();
@@ -1302,6 +1776,101 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
     doSend();
   });
 
+  // Images and text files dropped or pasted into the input
+  const attachLocalFiles = async (files: File[]) => {
+    if (!item) return;
+    const win = body.ownerDocument?.defaultView;
+    if (!win) return;
+    const { currentModel } = getSelectedModelInfo();
+    const imagesSupported = !isScreenshotUnsupportedModel(currentModel);
+    let attachedImages = 0;
+    let attachedTexts = 0;
+    const skipped: string[] = [];
+    for (const file of files) {
+      try {
+        if (isImageFile(file)) {
+          const currentImages = selectedImageCache.get(item.id) || [];
+          if (!imagesSupported || currentImages.length >= MAX_SELECTED_IMAGES) {
+            skipped.push(file.name || "image");
+            continue;
+          }
+          const nextImages = [...currentImages, await readImageFile(win, file)];
+          selectedImageCache.set(item.id, nextImages);
+          selectedImagePreviewExpandedCache.set(item.id, true);
+          selectedImagePreviewActiveIndexCache.set(
+            item.id,
+            nextImages.length - 1,
+          );
+          attachedImages++;
+        } else if (isTextFile(file)) {
+          const currentFiles = selectedFileCache.get(item.id) || [];
+          if (
+            currentFiles.length >= MAX_ATTACHED_FILES ||
+            file.size > ATTACHED_FILE_MAX_BYTES
+          ) {
+            skipped.push(file.name);
+            continue;
+          }
+          selectedFileCache.set(item.id, [
+            ...currentFiles,
+            await readTextFile(file),
+          ]);
+          attachedTexts++;
+        } else {
+          skipped.push(file.name || "file");
+        }
+      } catch (err) {
+        ztoolkit.log("LLM: Failed to attach file", err);
+        skipped.push(file.name || "file");
+      }
+    }
+    updateImagePreview();
+    updateFilePreview();
+    if (!status) return;
+    const attached = [
+      attachedImages
+        ? `${attachedImages} image${attachedImages === 1 ? "" : "s"}`
+        : "",
+      attachedTexts
+        ? `${attachedTexts} file${attachedTexts === 1 ? "" : "s"}`
+        : "",
+    ].filter(Boolean);
+    if (skipped.length) {
+      setStatus(
+        status,
+        `${attached.length ? `Attached ${attached.join(" and ")} · ` : ""}Skipped ${skipped.join(", ")} (unsupported type or over the limit)`,
+        attached.length ? "warning" : "error",
+      );
+    } else if (attached.length) {
+      setStatus(status, `Attached ${attached.join(" and ")}`, "ready");
+    }
+  };
+
+  inputBox.addEventListener("paste", (e: Event) => {
+    const files = getTransferFiles((e as ClipboardEvent).clipboardData);
+    if (!files.length) return;
+    e.preventDefault();
+    void attachLocalFiles(files);
+  });
+  inputBox.addEventListener("dragover", (e: Event) => {
+    const transfer = (e as DragEvent).dataTransfer;
+    if (!hasTransferFiles(transfer)) return;
+    e.preventDefault();
+    if (transfer) transfer.dropEffect = "copy";
+    inputBox.classList.add("llm-input-drop-target");
+  });
+  inputBox.addEventListener("dragleave", () => {
+    inputBox.classList.remove("llm-input-drop-target");
+  });
+  inputBox.addEventListener("drop", (e: Event) => {
+    inputBox.classList.remove("llm-input-drop-target");
+    const files = getTransferFiles((e as DragEvent).dataTransfer);
+    if (!files.length) return;
+    e.preventDefault();
+    e.stopPropagation();
+    void attachLocalFiles(files);
+  });
+
   // Enter key (Shift+Enter for newline)
   inputBox.addEventListener("keydown", (e: Event) => {
     const ke = e as KeyboardEvent;
@@ -1309,6 +1878,9 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
       e.preventDefault();
       e.stopPropagation();
       doSend();
+    } else if (ke.key === "Escape" && cancelMessageEdit()) {
+      e.preventDefault();
+      e.stopPropagation();
     }
   });
 
@@ -1584,6 +2156,7 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
   const openModelMenu = () => {
     if (!modelMenu || !modelBtn) return;
     closeReasoningMenu();
+    closeFiguresMenu();
     updateModelButton();
     rebuildModelMenu();
     if (!modelMenu.childElementCount) {
@@ -1601,6 +2174,7 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
   const openReasoningMenu = () => {
     if (!reasoningMenu || !reasoningBtn) return;
     closeModelMenu();
+    closeFiguresMenu();
     updateReasoningButton();
     rebuildReasoningMenu();
     if (!reasoningMenu.childElementCount) {
@@ -1659,6 +2233,146 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
     });
   }
 
+  const FIGURES_MENU_OPEN_CLASS = "llm-figures-menu-open";
+  const closeFiguresMenu = () => {
+    setFloatingMenuOpen(figuresMenu, FIGURES_MENU_OPEN_CLASS, false);
+  };
+
+  // Picking a figure attaches its rendering as a screenshot and its caption
+  // as selected text, so both go out with the next question.
+  const attachFigure = (figure: PdfFigure) => {
+    if (!item) return;
+    const currentImages = selectedImageCache.get(item.id) || [];
+    if (currentImages.length >= MAX_SELECTED_IMAGES) {
+      if (status) {
+        setStatus(
+          status,
+          `Maximum ${MAX_SELECTED_IMAGES} screenshots allowed`,
+          "error",
+        );
+      }
+      return;
+    }
+    const nextImages = [...currentImages, figure.image];
+    selectedImageCache.set(item.id, nextImages);
+    selectedImagePreviewExpandedCache.set(item.id, true);
+    selectedImagePreviewActiveIndexCache.set(item.id, nextImages.length - 1);
+    updateImagePreview();
+    if (figure.caption) {
+      const existingText = selectedTextCache.get(item.id) || "";
+      selectedTextCache.set(
+        item.id,
+        normalizeSelectedText(
+          existingText
+            ? `${existingText}\n\n${figure.caption}`
+            : figure.caption,
+        ),
+      );
+      selectedTextPreviewExpandedCache.set(item.id, false);
+      updateSelectedTextPreview();
+    }
+    if (status) {
+      setStatus(
+        status,
+        `${figure.label} attached (${nextImages.length}/${MAX_SELECTED_IMAGES})`,
+        "ready",
+      );
+    }
+  };
+
+  const rebuildFiguresMenu = (figures: PdfFigure[]) => {
+    if (!figuresMenu) return;
+    const ownerDoc = body.ownerDocument as Document;
+    figuresMenu.innerHTML = "";
+    if (!figures.length) {
+      figuresMenu.appendChild(
+        createElement(ownerDoc, "div", "llm-figures-empty", {
+          textContent: "No figure or table captions found",
+        }),
+      );
+      return;
+    }
+    for (const figure of figures) {
+      const option = createElement(ownerDoc, "button", "llm-figure-option", {
+        type: "button",
+        title: figure.caption,
+      });
+      const thumb = createElement(ownerDoc, "img", "llm-figure-thumb", {
+        src: figure.image,
+        alt: figure.label,
+      });
+      const label = createElement(ownerDoc, "span", "llm-figure-label", {
+        textContent: `${figure.label} · p. ${figure.pageIndex + 1}`,
+      });
+      option.append(thumb, label);
+      option.addEventListener("click", (e: Event) => {
+        e.preventDefault();
+        e.stopPropagation();
+        closeFiguresMenu();
+        attachFigure(figure);
+      });
+      figuresMenu.appendChild(option);
+    }
+  };
+
+  const openFiguresMenu = async () => {
+    const win = body.ownerDocument?.defaultView;
+    if (!item || !figuresMenu || !figuresBtn || !win) return;
+    closeModelMenu();
+    closeReasoningMenu();
+    if (status) setStatus(status, "Detecting figures...", "sending");
+    let figures: PdfFigure[];
+    try {
+      figures = await getPdfFigures(item, win);
+    } catch (err) {
+      ztoolkit.log("LLM: Figure detection failed", err);
+      if (status) {
+        setStatus(
+          status,
+          err instanceof Error ? err.message : "Figure detection failed",
+          "error",
+        );
+      }
+      return;
+    }
+    if (status) {
+      if (figures.length) {
+        setStatus(
+          status,
+          `${figures.length} figures and tables found`,
+          "ready",
+        );
+      } else {
+        setStatus(status, "No figures or tables found", "warning");
+      }
+    }
+    rebuildFiguresMenu(figures);
+    positionFloatingMenu(figuresMenu, figuresBtn);
+    setFloatingMenuOpen(figuresMenu, FIGURES_MENU_OPEN_CLASS, true);
+  };
+
+  if (figuresMenu) {
+    figuresMenu.addEventListener("pointerdown", (e: Event) => {
+      e.stopPropagation();
+    });
+    figuresMenu.addEventListener("mousedown", (e: Event) => {
+      e.stopPropagation();
+    });
+  }
+
+  if (figuresBtn) {
+    figuresBtn.addEventListener("click", (e: Event) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (!item || !figuresMenu || figuresBtn.disabled) return;
+      if (!isFloatingMenuOpen(figuresMenu)) {
+        void openFiguresMenu();
+      } else {
+        closeFiguresMenu();
+      }
+    });
+  }
+
   const doc = body.ownerDocument;
   if (
     doc &&
@@ -1685,6 +2399,15 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
       const exportMenuEl = doc.querySelector(
         "#llm-export-menu",
       ) as HTMLDivElement | null;
+      const referenceMenuEl = doc.querySelector(
+        "#llm-reference-menu",
+      ) as HTMLDivElement | null;
+      const figuresMenuEl = doc.querySelector(
+        "#llm-figures-menu",
+      ) as HTMLDivElement | null;
+      const figuresButtonEl = doc.querySelector(
+        "#llm-figures",
+      ) as HTMLButtonElement | null;
       const exportButtonEl = doc.querySelector(
         "#llm-export",
       ) as HTMLButtonElement | null;
@@ -1706,6 +2429,15 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
       ) {
         setFloatingMenuOpen(reasoningMenuEl, REASONING_MENU_OPEN_CLASS, false);
       }
+      if (
+        figuresMenuEl &&
+        isFloatingMenuOpen(figuresMenuEl) &&
+        (!target ||
+          (!figuresMenuEl.contains(target) &&
+            !figuresButtonEl?.contains(target)))
+      ) {
+        setFloatingMenuOpen(figuresMenuEl, "llm-figures-menu-open", false);
+      }
       if (
         responseMenuEl &&
         responseMenuEl.style.display !== "none" &&
@@ -1715,6 +2447,14 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
         responseMenuEl.style.display = "none";
         setResponseMenuTarget(null);
       }
+      if (
+        referenceMenuEl &&
+        referenceMenuEl.style.display !== "none" &&
+        me.button === 0 &&
+        (!target || !referenceMenuEl.contains(target))
+      ) {
+        referenceMenuEl.style.display = "none";
+      }
       if (
         exportMenuEl &&
         exportMenuEl.style.display !== "none" &&
@@ -1832,18 +2572,224 @@ export function setupHandlers(body: Element, item?: Zotero.Item | null) {
       closeExportMenu();
       if (item) {
         const conversationKey = getConversationKey(item);
+        const threadId = activeThreadIds.get(conversationKey);
         chatHistory.delete(conversationKey);
+        resetConversationBranches(conversationKey);
         loadedConversationKeys.add(conversationKey);
-        void clearStoredConversation(conversationKey).catch((err) => {
-          ztoolkit.log("LLM: Failed to clear persisted chat history", err);
-        });
+        if (threadId) {
+          void clearStoredThread(threadId).catch((err) => {
+            ztoolkit.log("LLM: Failed to clear persisted chat history", err);
+          });
+        }
         clearSelectedImageState(item.id);
         clearSelectedTextState(item.id);
+        selectedFileCache.delete(item.id);
         updateImagePreview();
         updateSelectedTextPreview();
+        updateFilePreview();
         refreshChat(body, item);
         if (status) setStatus(status, "Cleared", "ready");
       }
     });
   }
+
+  // Leave group conversation: rebuild the panel for the item's own chat.
+  const groupLeaveBtn = body.querySelector(
+    "#llm-group-leave",
+  ) as HTMLButtonElement | null;
+  const rerenderPanel = async () => {
+    if (!item) return;
+    buildUI(body, item);
+    await ensureConversationLoaded(item);
+    await renderShortcuts(body, item);
+    setupHandlers(body, item);
+    refreshChat(body, item);
+  };
+
+  if (groupLeaveBtn && item) {
+    groupLeaveBtn.addEventListener("click", async (e: Event) => {
+      e.preventDefault();
+      e.stopPropagation();
+      leaveGroupConversation(item);
+      await rerenderPanel();
+    });
+  }
+
+  const ocrBtn = body.querySelector(
+    "#llm-ocr-transcribe",
+  ) as HTMLButtonElement | null;
+  if (ocrBtn && item) {
+    ocrBtn.addEventListener("click", async (e: Event) => {
+      e.preventDefault();
+      e.stopPropagation();
+      ocrBtn.disabled = true;
+      try {
+        const result = await transcribeScannedPdf(item, (page, total) => {
+          if (status) {
+            setStatus(
+              status,
+              `Transcribing page ${page}/${total}...`,
+              "sending",
+            );
+          }
+        });
+        if (status && result.skippedPages) {
+          setStatus(
+            status,
+            `Transcribed ${result.transcribedPages} pages · ${result.skippedPages} later page${result.skippedPages === 1 ? "" : "s"} skipped (limit ${OCR_MAX_PAGES})`,
+            "warning",
+          );
+        } else if (status) {
+          setStatus(
+            status,
+            `Transcribed ${result.transcribedPages} pages`,
+            "ready",
+          );
+        }
+      } catch (err) {
+        ztoolkit.log("LLM: PDF transcription failed", err);
+        if (status) {
+          setStatus(
+            status,
+            err instanceof Error ? err.message : "Transcription failed",
+            "error",
+          );
+        }
+      }
+      updateOcrNotice(body, item);
+      renderSectionPicker(body, item);
+    });
+  }
+  if (item) updateOcrNotice(body, item);
+
+  const sectionSelect = body.querySelector(
+    "#llm-section-select",
+  ) as HTMLSelectElement | null;
+  if (sectionSelect && item) {
+    renderSectionPicker(body, item);
+    sectionSelect.addEventListener("change", () => {
+      setPinnedSection(item, sectionSelect.value);
+      renderSectionPicker(body, item);
+      if (status) {
+        setStatus(
+          status,
+          sectionSelect.value
+            ? `Questions use only ${sectionSelect.value}`
+            : "Questions use the whole paper",
+          "ready",
+        );
+      }
+    });
+  }
+
+  const retrievalSelect = body.querySelector(
+    "#llm-retrieval-select",
+  ) as HTMLSelectElement | null;
+  if (retrievalSelect && item) {
+    const conversationKey = getConversationKey(item);
+    renderRetrievalPicker(body, conversationKey);
+    retrievalSelect.addEventListener("change", () => {
+      setRetrievalModeOverride(conversationKey, retrievalSelect.value);
+      renderRetrievalPicker(body, conversationKey);
+      if (status) setStatus(status, retrievalSelect.title, "ready");
+    });
+  }
+
+  const historySearchBtn = body.querySelector(
+    "#llm-history-search",
+  ) as HTMLButtonElement | null;
+  historySearchBtn?.addEventListener("click", (e: Event) => {
+    e.preventDefault();
+    e.stopPropagation();
+    void openHistorySearchDialog();
+  });
+
+  // Thread picker
+  const threadSelect = body.querySelector(
+    "#llm-thread-select",
+  ) as HTMLSelectElement | null;
+  const threadNewBtn = body.querySelector(
+    "#llm-thread-new",
+  ) as HTMLButtonElement | null;
+  const threadRenameBtn = body.querySelector(
+    "#llm-thread-rename",
+  ) as HTMLButtonElement | null;
+  const threadDeleteBtn = body.querySelector(
+    "#llm-thread-delete",
+  ) as HTMLButtonElement | null;
+  const threadMemoryBtn = body.querySelector(
+    "#llm-thread-memory",
+  ) as HTMLButtonElement | null;
+  if (item && conversationKey !== null && threadSelect) {
+    void renderThreadPicker(body, conversationKey);
+
+    threadSelect.addEventListener("change", () => {
+      const threadId = Number(threadSelect.value);
+      if (!Number.isFinite(threadId) || threadId <= 0) return;
+      activateThread(conversationKey, threadId);
+      void rerenderPanel();
+    });
+
+    threadNewBtn?.addEventListener("click", async (e: Event) => {
+      e.preventDefault();
+      e.stopPropagation();
+      try {
+        const thread = await startNewThread(conversationKey);
+        if (!thread) throw new Error("Thread was not created");
+        await rerenderPanel();
+      } catch (err) {
+        ztoolkit.log("LLM: Failed to create chat thread", err);
+        if (status) setStatus(status, "Failed to create thread", "error");
+      }
+    });
+
+    threadRenameBtn?.addEventListener("click", async (e: Event) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const threadId = await getActiveThreadId(conversationKey);
+      if (!threadId) return;
+      const title = await openThreadRenameDialog(
+        getThreadTitle(conversationKey, threadId),
+      );
+      if (!title) return;
+      try {
+        await renameConversationThread(conversationKey, threadId, title);
+        await renderThreadPicker(body, conversationKey);
+      } catch (err) {
+        ztoolkit.log("LLM: Failed to rename chat thread", err);
+        if (status) setStatus(status, "Failed to rename thread", "error");
+      }
+    });
+
+    threadDeleteBtn?.addEventListener("click", async (e: Event) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const threadId = await getActiveThreadId(conversationKey);
+      if (!threadId) return;
+      const confirmed = await openDeleteThreadDialog(
+        getThreadTitle(conversationKey, threadId),
+      );
+      if (!confirmed) return;
+      try {
+        await deleteConversationThread(conversationKey, threadId);
+        await rerenderPanel();
+      } catch (err) {
+        ztoolkit.log("LLM: Failed to delete chat thread", err);
+        if (status) setStatus(status, "Failed to delete thread", "error");
+      }
+    });
+
+    threadMemoryBtn?.addEventListener("click", async (e: Event) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const threadId = await getActiveThreadId(conversationKey);
+      if (!threadId) return;
+      try {
+        await editConversationSummary(conversationKey, threadId);
+      } catch (err) {
+        ztoolkit.log("LLM: Failed to save conversation summary", err);
+        if (status) setStatus(status, "Failed to save summary", "error");
+      }
+    });
+  }
 }
@@ -4,7 +4,7 @@ import {
   MAX_EDITABLE_SHORTCUTS,
   CUSTOM_SHORTCUT_ID_PREFIX,
 } from "./constants";
-import type { CustomShortcut } from "./types";
+import type { CustomShortcut, ResolvedShortcut } from "./types";
 import {
   shortcutTextCache,
   shortcutMoveModeState,
@@ -42,36 +42,11 @@ export async function loadShortcutText(file: string): Promise<string> {
   return text;
 }
 
-export async function renderShortcuts(
-  body: Element,
-  item?: Zotero.Item | null,
-) {
-  shortcutRenderItemState.set(body, item);
-  const container = body.querySelector(
-    "#llm-shortcuts",
-  ) as HTMLDivElement | null;
-  const menu = body.querySelector(
-    "#llm-shortcut-menu",
-  ) as HTMLDivElement | null;
-  const menuEdit = body.querySelector(
-    "#llm-shortcut-menu-edit",
-  ) as HTMLButtonElement | null;
-  const menuDelete = body.querySelector(
-    "#llm-shortcut-menu-delete",
-  ) as HTMLButtonElement | null;
-  const menuAdd = body.querySelector(
-    "#llm-shortcut-menu-add",
-  ) as HTMLButtonElement | null;
-  const menuMove = body.querySelector(
-    "#llm-shortcut-menu-move",
-  ) as HTMLButtonElement | null;
-  const menuReset = body.querySelector(
-    "#llm-shortcut-menu-reset",
-  ) as HTMLButtonElement | null;
-  if (!container) return;
-
-  const moveMode = shortcutMoveModeState.get(body) === true;
-  container.innerHTML = "";
+/**
+ * Built-in and custom shortcuts shown in the panel, with their current
+ * prompts and labels, in the user's order.
+ */
+export async function loadVisibleShortcuts(): Promise<ResolvedShortcut[]> {
   const overrides = getShortcutOverrides();
   const labelOverrides = getShortcutLabelOverrides();
   const deletedIds = new Set(getDeletedShortcutIds());
@@ -85,13 +60,7 @@ export async function renderShortcuts(
     MAX_EDITABLE_SHORTCUTS - builtins.length,
   );
   const visibleCustomShortcuts = customShortcuts.slice(0, availableCustomSlots);
-  const editableShortcutsRaw: Array<{
-    id: string;
-    kind: "builtin" | "custom";
-    prompt: string;
-    label: string;
-    defaultLabel: string;
-  }> = [];
+  const editableShortcutsRaw: ResolvedShortcut[] = [];
 
   for (const shortcut of builtins) {
     let promptText = (overrides[shortcut.id] || "").trim();
@@ -138,11 +107,44 @@ export async function renderShortcuts(
   const orderIndex = new Map(
     normalizedOrder.map((shortcutId, index) => [shortcutId, index]),
   );
-  const editableShortcuts = editableShortcutsRaw.sort(
+  return editableShortcutsRaw.sort(
     (a, b) =>
       (orderIndex.get(a.id) ?? Number.MAX_SAFE_INTEGER) -
       (orderIndex.get(b.id) ?? Number.MAX_SAFE_INTEGER),
   );
+}
+
+export async function renderShortcuts(
+  body: Element,
+  item?: Zotero.Item | null,
+) {
+  shortcutRenderItemState.set(body, item);
+  const container = body.querySelector(
+    "#llm-shortcuts",
+  ) as HTMLDivElement | null;
+  const menu = body.querySelector(
+    "#llm-shortcut-menu",
+  ) as HTMLDivElement | null;
+  const menuEdit = body.querySelector(
+    "#llm-shortcut-menu-edit",
+  ) as HTMLButtonElement | null;
+  const menuDelete = body.querySelector(
+    "#llm-shortcut-menu-delete",
+  ) as HTMLButtonElement | null;
+  const menuAdd = body.querySelector(
+    "#llm-shortcut-menu-add",
+  ) as HTMLButtonElement | null;
+  const menuMove = body.querySelector(
+    "#llm-shortcut-menu-move",
+  ) as HTMLButtonElement | null;
+  const menuReset = body.querySelector(
+    "#llm-shortcut-menu-reset",
+  ) as HTMLButtonElement | null;
+  if (!container) return;
+
+  const moveMode = shortcutMoveModeState.get(body) === true;
+  container.innerHTML = "";
+  const editableShortcuts = await loadVisibleShortcuts();
   const orderedEditableIds = editableShortcuts.map((shortcut) => shortcut.id);
   const canAddShortcut = editableShortcuts.length < MAX_EDITABLE_SHORTCUTS;
   let draggingShortcutId = "";
@@ -219,6 +221,7 @@ export async function renderShortcuts(
     };
     const nextCustomShortcuts = [...currentCustomShortcuts, nextCustomShortcut];
     setCustomShortcuts(nextCustomShortcuts);
+    const currentVisibleSet = new Set(orderedEditableIds);
     const currentOrder = getShortcutOrder().filter((id) =>
       currentVisibleSet.has(id),
     );
@@ -1,7 +1,15 @@
 import type { ModelProfileKey } from "./constants";
+import type {
+  AttachedFile,
+  StoredChatThread,
+  StoredGroupConversation,
+} from "../../utils/chatStore";
+import type { RetrievalMode } from "../../utils/retrievalSettings";
 import type {
   Message,
   PdfContext,
+  OcrResult,
+  PdfFigure,
   ReasoningLevelSelection,
   CustomShortcut,
 } from "./types";
@@ -10,9 +18,26 @@ import type {
 // Module State
 // =============================================================================
 
+// Messages of the active branch, in order
 export const chatHistory = new Map<number, Message[]>();
+// Every message of a conversation, across all branches
+export const conversationMessages = new Map<number, Message[]>();
+// Selected reply per parent message id (0 for the first message)
+export const branchSelections = new Map<number, Map<number, Message>>();
+// User message being edited, per conversation
+export const pendingMessageEdits = new Map<number, Message>();
+// Screenshot indexes per message sent with the latest question
+export const sentScreenshotImages = new Map<number, Map<Message, number[]>>();
+// Threads of each conversation and the one shown in the panel
+export const conversationThreads = new Map<number, StoredChatThread[]>();
+export const activeThreadIds = new Map<number, number>();
 export const loadedConversationKeys = new Set<number>();
 export const loadingConversationTasks = new Map<number, Promise<void>>();
+// Group conversations, keyed by the item whose panel hosts them
+export const activeGroupConversations = new Map<
+  number,
+  StoredGroupConversation
+>();
 export const selectedModelCache = new Map<number, ModelProfileKey>();
 export const selectedReasoningCache = new Map<
   number,
@@ -21,6 +46,17 @@ export const selectedReasoningCache = new Map<
 
 export const pdfTextCache = new Map<number, PdfContext>();
 export const pdfTextLoadingTasks = new Map<number, Promise<void>>();
+// Figures and tables detected per PDF attachment
+export const pdfFigureCache = new Map<number, PdfFigure[]>();
+export const pdfFigureLoadingTasks = new Map<number, Promise<PdfFigure[]>>();
+// Section label pinned as the only context, per context attachment
+export const pinnedSectionCache = new Map<number, string>();
+// Running transcriptions of scanned PDFs
+export const pdfOcrTasks = new Map<number, Promise<OcrResult>>();
+// Pages transcribed so far per PDF, kept after a failure so a retry resumes
+export const pdfOcrPages = new Map<number, string[]>();
+// Retrieval mode chosen in the panel over the preference, per conversation
+export const retrievalModeOverrides = new Map<number, RetrievalMode>();
 export const shortcutTextCache = new Map<string, string>();
 export const shortcutMoveModeState = new WeakMap<Element, boolean>();
 export const shortcutRenderItemState = new WeakMap<
@@ -53,6 +89,10 @@ export function setPanelFontScalePercent(value: number) {
 export let responseMenuTarget: {
   item: Zotero.Item;
   contentText: string;
+  /** Full answer, used as the comment of PDF highlights */
+  answerText: string;
+  /** Question the answer replies to */
+  questionText: string;
   modelName: string;
 } | null = null;
 export function setResponseMenuTarget(value: typeof responseMenuTarget) {
@@ -62,6 +102,7 @@ export function setResponseMenuTarget(value: typeof responseMenuTarget) {
 // Screenshot selection state (per item)
 export const selectedImageCache = new Map<number, string[]>();
 export const selectedTextCache = new Map<number, string>();
+export const selectedFileCache = new Map<number, AttachedFile[]>();
 export const selectedTextPreviewExpandedCache = new Map<number, boolean>();
 export const selectedImagePreviewExpandedCache = new Map<number, boolean>();
 export const selectedImagePreviewActiveIndexCache = new Map<number, number>();
@@ -2,6 +2,7 @@ import {
   SELECTED_TEXT_MAX_LENGTH,
   SELECTED_TEXT_PREVIEW_LENGTH,
 } from "./constants";
+import type { AttachedFile } from "../../utils/chatStore";
 
 export function sanitizeText(text: string) {
   let out = "";
@@ -89,6 +90,19 @@ export function buildQuestionWithSelectedText(
   return `Selected text from the PDF reader:\n"""\n${selectedText}\n"""\n\nUser question:\n${normalizedPrompt}`;
 }
 
+/** Put attached text files in front of a question as quoted blocks */
+export function buildQuestionWithAttachedFiles(
+  question: string,
+  files: AttachedFile[],
+): string {
+  if (!files.length) return question;
+  const blocks = files.map(
+    (file) =>
+      `Attached file "${file.name}"${file.truncated ? " (truncated)" : ""}:\n"""\n${file.text}\n"""`,
+  );
+  return `${blocks.join("\n\n")}\n\n${question}`;
+}
+
 export function escapeNoteHtml(text: string): string {
   return text
     .replace(/&/g, "&amp;")
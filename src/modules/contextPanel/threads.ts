@@ -0,0 +1,328 @@
+/**
+ * Named conversation threads.
+ *
+ * A paper (or group) can hold several threads. The panel shows one thread
+ * at a time; the per-conversation chat caches always hold the messages of
+ * the active thread and are dropped when another thread is activated.
+ */
+
+import {
+  createThread,
+  deleteThread,
+  listThreads,
+  renameThread,
+  type StoredChatThread,
+} from "../../utils/chatStore";
+import { callLLM } from "../../utils/llmClient";
+import { createElement } from "../../utils/domHelpers";
+import { THREAD_TITLE_MAX_LENGTH } from "./constants";
+import {
+  activeThreadIds,
+  chatHistory,
+  conversationThreads,
+  loadedConversationKeys,
+} from "./state";
+import { resetConversationBranches } from "./branches";
+import { sanitizeText } from "./textUtils";
+import type { KeyedApiProfile } from "./types";
+
+const NEW_THREAD_TITLE = "New thread";
+
+async function loadThreads(
+  conversationKey: number,
+): Promise<StoredChatThread[]> {
+  const cached = conversationThreads.get(conversationKey);
+  if (cached) return cached;
+  const threads = await listThreads(conversationKey);
+  conversationThreads.set(conversationKey, threads);
+  return threads;
+}
+
+/**
+ * Return the thread shown for a conversation, defaulting to the most
+ * recently used one, or `null` when the conversation has no thread yet.
+ */
+export async function getActiveThreadId(
+  conversationKey: number,
+): Promise<number | null> {
+  const threads = await loadThreads(conversationKey);
+  const activeId = activeThreadIds.get(conversationKey);
+  if (activeId && threads.some((thread) => thread.id === activeId)) {
+    return activeId;
+  }
+  let latest: StoredChatThread | null = null;
+  for (const thread of threads) {
+    if (!latest || thread.updatedAt >= latest.updatedAt) latest = thread;
+  }
+  if (!latest) return null;
+  activeThreadIds.set(conversationKey, latest.id);
+  return latest.id;
+}
+
+export async function getOrCreateActiveThreadId(
+  conversationKey: number,
+): Promise<number | null> {
+  const activeId = await getActiveThreadId(conversationKey);
+  if (activeId) return activeId;
+  const thread = await startNewThread(conversationKey);
+  return thread?.id ?? null;
+}
+
+/** Show another thread; its messages are loaded on the next render */
+export function activateThread(conversationKey: number, threadId: number) {
+  activeThreadIds.set(conversationKey, threadId);
+  chatHistory.delete(conversationKey);
+  loadedConversationKeys.delete(conversationKey);
+  resetConversationBranches(conversationKey);
+}
+
+export async function startNewThread(
+  conversationKey: number,
+): Promise<StoredChatThread | null> {
+  const threads = await loadThreads(conversationKey);
+  const thread = await createThread(conversationKey, NEW_THREAD_TITLE, true);
+  if (!thread) return null;
+  threads.push(thread);
+  activateThread(conversationKey, thread.id);
+  return thread;
+}
+
+export async function renameConversationThread(
+  conversationKey: number,
+  threadId: number,
+  title: string,
+): Promise<void> {
+  await renameThread(threadId, title);
+  const thread = conversationThreads
+    .get(conversationKey)
+    ?.find((entry) => entry.id === threadId);
+  if (thread) {
+    thread.title = title;
+    thread.autoTitle = false;
+  }
+}
+
+export async function deleteConversationThread(
+  conversationKey: number,
+  threadId: number,
+): Promise<void> {
+  await deleteThread(threadId);
+  const threads = conversationThreads.get(conversationKey);
+  if (threads) {
+    conversationThreads.set(
+      conversationKey,
+      threads.filter((thread) => thread.id !== threadId),
+    );
+  }
+  if (activeThreadIds.get(conversationKey) === threadId) {
+    activeThreadIds.delete(conversationKey);
+    chatHistory.delete(conversationKey);
+    loadedConversationKeys.delete(conversationKey);
+    resetConversationBranches(conversationKey);
+  }
+}
+
+export function getThreadTitle(
+  conversationKey: number,
+  threadId: number,
+): string {
+  return (
+    conversationThreads
+      .get(conversationKey)
+      ?.find((thread) => thread.id === threadId)?.title || NEW_THREAD_TITLE
+  );
+}
+
+function normalizeGeneratedTitle(raw: string): string {
+  const firstLine =
+    sanitizeText(raw)
+      .split("\n")
+      .map((line) => line.trim())
+      .find(Boolean) || "";
+  const title = firstLine
+    .replace(/^(?:#+\s*|title\s*:\s*)/i, "")
+    .replace(/^["'“*_]+|["'”*_.]+$/g, "")
+    .trim();
+  return title.length > THREAD_TITLE_MAX_LENGTH
+    ? `${title.slice(0, THREAD_TITLE_MAX_LENGTH - 1).trimEnd()}…`
+    : title;
+}
+
+/**
+ * Name a thread after its first exchange. Only threads that still carry
+ * the placeholder title are renamed; returns whether the title changed.
+ */
+export async function generateThreadTitle(
+  conversationKey: number,
+  threadId: number,
+  question: string,
+  answer: string,
+  profile: KeyedApiProfile,
+): Promise<boolean> {
+  const thread = conversationThreads
+    .get(conversationKey)
+    ?.find((entry) => entry.id === threadId);
+  if (!thread?.autoTitle) return false;
+  // One attempt per thread, whether or not the request succeeds.
+  thread.autoTitle = false;
+
+  try {
+    const raw = await callLLM({
+      prompt: [
+        "Write a short title (at most 6 words) for a conversation that starts with the exchange below.",
+        "Reply with the title only, without quotes or punctuation at the end.",
+        "",
+        `Question: ${question.slice(0, 1000)}`,
+        `Answer: ${answer.slice(0, 1000)}`,
+      ].join("\n"),
+      model: profile.model,
+      apiBase: profile.apiBase,
+      apiKey: profile.apiKey,
+      modelProfile: profile.key,
+    });
+    const title = normalizeGeneratedTitle(raw);
+    if (!title) return false;
+    await renameConversationThread(conversationKey, threadId, title);
+    return true;
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to generate thread title", err);
+    return false;
+  }
+}
+
+/** Fill the thread picker in the panel header */
+export async function renderThreadPicker(
+  body: Element,
+  conversationKey: number,
+): Promise<void> {
+  const select = body.querySelector(
+    "#llm-thread-select",
+  ) as HTMLSelectElement | null;
+  if (!select) return;
+  const doc = body.ownerDocument!;
+
+  let threads: StoredChatThread[] = [];
+  let activeId: number | null = null;
+  try {
+    activeId = await getActiveThreadId(conversationKey);
+    threads = conversationThreads.get(conversationKey) || [];
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to load chat threads", err);
+  }
+
+  select.innerHTML = "";
+  if (!threads.length) {
+    select.appendChild(
+      createElement(doc, "option", "", {
+        value: "",
+        textContent: NEW_THREAD_TITLE,
+      }),
+    );
+  }
+  for (const thread of threads) {
+    select.appendChild(
+      createElement(doc, "option", "", {
+        value: `${thread.id}`,
+        textContent: thread.title,
+      }),
+    );
+  }
+  select.value = activeId ? `${activeId}` : "";
+  select.title = activeId
+    ? getThreadTitle(conversationKey, activeId)
+    : NEW_THREAD_TITLE;
+
+  for (const id of [
+    "#llm-thread-rename",
+    "#llm-thread-delete",
+    "#llm-thread-memory",
+  ]) {
+    const btn = body.querySelector(id) as HTMLButtonElement | null;
+    if (btn) btn.disabled = !activeId;
+  }
+}
+
+export async function openThreadRenameDialog(
+  initialTitle: string,
+): Promise<string | null> {
+  const dialogData: { [key: string]: any } = {
+    titleValue: initialTitle || "",
+    loadCallback: () => {
+      return;
+    },
+    unloadCallback: () => {
+      return;
+    },
+  };
+
+  const dialog = new ztoolkit.Dialog(2, 1)
+    .addCell(0, 0, {
+      tag: "label",
+      namespace: "html",
+      attributes: { for: "llm-thread-title-input" },
+      properties: { innerHTML: "Thread title" },
+    })
+    .addCell(
+      1,
+      0,
+      {
+        tag: "input",
+        namespace: "html",
+        id: "llm-thread-title-input",
+        attributes: {
+          "data-bind": "titleValue",
+          "data-prop": "value",
+          type: "text",
+        },
+        styles: {
+          width: "300px",
+        },
+      },
+      false,
+    )
+    .addButton("Save", "save")
+    .addButton("Cancel", "cancel")
+    .setDialogData(dialogData)
+    .open("Rename Thread");
+
+  addon.data.dialog = dialog;
+  await dialogData.unloadLock.promise;
+  addon.data.dialog = undefined;
+
+  if (dialogData._lastButtonId !== "save") return null;
+  const title = sanitizeText(dialogData.titleValue || "").trim();
+  return title ? title.slice(0, THREAD_TITLE_MAX_LENGTH) : null;
+}
+
+export async function openDeleteThreadDialog(title: string): Promise<boolean> {
+  const dialogData: { [key: string]: any } = {
+    loadCallback: () => {
+      return;
+    },
+    unloadCallback: () => {
+      return;
+    },
+  };
+
+  const dialog = new ztoolkit.Dialog(1, 1)
+    .addCell(0, 0, {
+      tag: "div",
+      namespace: "html",
+      properties: {
+        textContent: `Delete the thread “${title}” and all of its messages?`,
+      },
+      styles: {
+        width: "320px",
+        lineHeight: "1.45",
+      },
+    })
+    .addButton("Delete", "delete")
+    .addButton("Cancel", "cancel")
+    .setDialogData(dialogData)
+    .open("Delete Thread");
+
+  addon.data.dialog = dialog;
+  await dialogData.unloadLock.promise;
+  addon.data.dialog = undefined;
+  return dialogData._lastButtonId === "delete";
+}
@@ -1,6 +1,15 @@
-import type { ReasoningLevel as LLMReasoningLevel } from "../../utils/llmClient";
+import type {
+  ReasoningLevel as LLMReasoningLevel,
+  TokenUsage,
+} from "../../utils/llmClient";
+import type { AttachedFile } from "../../utils/chatStore";
+import type { ModelProfileKey } from "./constants";
 
 export interface Message {
+  /** Stored row id; negative until the message has been persisted */
+  id?: number;
+  /** Message this one replies to; `null` for the first message of a branch */
+  parentId?: number | null;
   role: "user" | "assistant";
   text: string;
   timestamp: number;
@@ -9,13 +18,27 @@ export interface Message {
   screenshotImages?: string[];
   screenshotExpanded?: boolean;
   screenshotActiveIndex?: number;
+  /** Text files inlined into the question */
+  attachedFiles?: AttachedFile[];
   modelName?: string;
   streaming?: boolean;
   reasoningSummary?: string;
   reasoningDetails?: string;
   reasoningOpen?: boolean;
+  /** Tokens reported by the provider for an assistant answer */
+  usage?: TokenUsage;
+  /** Model profile that produced an assistant answer */
+  modelProfile?: string;
 }
 
+/** Where a question goes in the conversation tree */
+export type QuestionBranchTarget = {
+  /** User message replaced by an edited copy on a new branch */
+  editOf?: Message;
+  /** User message that gets a new answer instead of a new question */
+  regenerateFor?: Message;
+};
+
 export type ReasoningProviderKind =
   | "openai"
   | "gemini"
@@ -50,11 +73,29 @@ export type ApiProfile = {
   apiKey: string;
   model: string;
 };
+/** A profile and the key its settings are stored under */
+export type KeyedApiProfile = ApiProfile & { key: ModelProfileKey };
 export type CustomShortcut = {
   id: string;
   label: string;
   prompt: string;
 };
+
+export type ExtractionFieldType = "string" | "number" | "integer" | "boolean";
+
+export type ExtractionField = {
+  name: string;
+  type: ExtractionFieldType;
+  description: string;
+};
+
+export type ResolvedShortcut = {
+  id: string;
+  kind: "builtin" | "custom";
+  prompt: string;
+  label: string;
+  defaultLabel: string;
+};
 export type ResolvedContextSource = {
   contextItem: Zotero.Item | null;
   statusText: string;
@@ -63,13 +104,96 @@ export type ResolvedContextSource = {
 export type PdfContext = {
   title: string;
   chunks: string[];
+  /** 1-based page of each chunk; empty when page breaks are unknown */
+  chunkPages?: number[];
+  /** Chunk size and overlap the text was split with, see `getChunkingKey` */
+  chunkingKey?: string;
   chunkStats: ChunkStat[];
   docFreq: Record<string, number>;
   avgChunkLength: number;
   fullLength: number;
+  /** Attachment and text hash the persisted index is stored under */
+  attachmentId?: number;
+  contentHash?: string;
+  fileModifiedAt?: number | null;
+  embeddingModel?: string;
   embeddings?: number[][];
   embeddingPromise?: Promise<number[][] | null>;
   embeddingFailed?: boolean;
+  /** PDF without a usable text layer, which can be transcribed instead */
+  needsOcr?: boolean;
+  /** Headings found in the text, in document order */
+  sections?: DocumentSection[];
+  /** Section of each chunk (index into `sections`), -1 before the first */
+  chunkSections?: number[];
+  /**
+   * Chunks of the references, acknowledgments and appendix, which are left
+   * out unless a question is about them
+   */
+  backMatterChunks?: number[];
+  /** Entries of the reference list, parsed on first use */
+  bibliography?: BibliographyEntry[];
+};
+
+/** One entry of a paper's reference list */
+export type BibliographyEntry = {
+  /** Number of the entry in numbered styles, e.g. 23 for "[23]" */
+  number: number | null;
+  text: string;
+  /** Surname of the first author, empty when not recognized */
+  firstAuthor: string;
+  year: string;
+  doi: string;
+  arxivId: string;
+};
+
+/** Heading of a document and the chunks it spans */
+export type DocumentSection = {
+  /** e.g. "3.2" for numbered headings, empty otherwise */
+  number: string;
+  title: string;
+  /** 1 for top-level sections */
+  level: number;
+  /** Index of the enclosing section, or -1 */
+  parent: number;
+  /** First and last chunk with text of this section or its subsections */
+  startChunk: number;
+  endChunk: number;
+};
+
+/** Figure or table found in a PDF by its caption */
+export type PdfFigure = {
+  kind: "figure" | "table";
+  /** e.g. "Figure 2" or "Table 1" */
+  label: string;
+  caption: string;
+  pageIndex: number;
+  /** Cropped page rendering as a data URL */
+  image: string;
+};
+
+/** Outcome of transcribing a scanned PDF */
+export type OcrResult = {
+  transcribedPages: number;
+  /** Pages past `OCR_MAX_PAGES` that were left out */
+  skippedPages: number;
+};
+
+export type GroupPaperContext = {
+  /** Short citation label, e.g. "Smith 2021" */
+  label: string;
+  title: string;
+  pdfContext: PdfContext | undefined;
+};
+
+export type LibrarySearchResult = {
+  attachmentId: number;
+  title: string;
+  chunkIndex: number;
+  chunkCount: number;
+  page?: number;
+  snippet: string;
+  score: number;
 };
 
 export type ChunkStat = {
@@ -83,4 +207,5 @@ export type ZoteroTabsState = {
   selectedID?: string | number;
   selectedType?: string;
   _tabs?: Array<{ id?: string | number; type?: string; data?: any }>;
+  select?: (id: string) => void;
 };
@@ -6,11 +6,49 @@ import {
   normalizeMaxTokens,
 } from "../utils/normalization";
 import {
+  ANTHROPIC_MESSAGES_ENDPOINT,
   resolveEndpoint,
   buildHeaders,
+  buildAnthropicHeaders,
+  buildGeminiHeaders,
+  resolveGeminiEndpoint,
   usesMaxCompletionTokens,
   isResponsesBase as checkIsResponsesBase,
+  isAnthropicBase,
+  isGeminiNativeBase,
+  isLocalBase,
+  isOllamaBase,
 } from "../utils/apiHelpers";
+import {
+  getLocalModelContextLength,
+  isLocalModelInstalled,
+  listLocalModels,
+} from "../utils/localModels";
+import { getUsageTotals, type UsageTotals } from "../utils/chatStore";
+import {
+  estimateCost,
+  formatCost,
+  formatTokenCount,
+  getModelPrices,
+  setModelPrices,
+  type ModelPrice,
+} from "../utils/usage";
+import {
+  getContextWindow,
+  getContextWindowOverrides,
+  setContextWindowOverrides,
+  DEFAULT_CONTEXT_WINDOW,
+  type ContextWindowEntry,
+} from "../utils/tokenBudget";
+import {
+  CHUNK_SIZE_RANGE,
+  RETRIEVAL_MODE_LABELS,
+  RETRIEVAL_MODES,
+  TOP_K_RANGE,
+  getRetrievalSettings,
+  setRetrievalSettings,
+  type RetrievalSettings,
+} from "../utils/retrievalSettings";
 
 type PrefKey =
   | "apiBase"
@@ -36,7 +74,11 @@ type PrefKey =
   | "temperatureTertiary"
   | "maxTokensTertiary"
   | "temperatureQuaternary"
-  | "maxTokensQuaternary";
+  | "maxTokensQuaternary"
+  | "memoryProfile"
+  | "ocrProfile"
+  | "embeddingModel"
+  | "historyImageLimit";
 
 type ProfileKind = "primary" | "secondary" | "tertiary" | "quaternary";
 type ProfileConfig = {
@@ -95,7 +137,7 @@ const PROFILE_CONFIGS: ProfileConfig[] = [
   },
 ];
 const API_HELPER_TEXT =
-  "API base URL or full endpoint URL. Examples: https://api.openai.com | https://api.openai.com/v1/chat/completions | https://generativelanguage.googleapis.com/v1beta/openai/chat/completions";
+  "API base URL or full endpoint URL. Examples: https://api.openai.com | https://api.openai.com/v1/chat/completions | https://generativelanguage.googleapis.com/v1beta/openai/chat/completions | http://localhost:11434 (Ollama)";
 
 function createNode<K extends keyof HTMLElementTagNameMap>(
   doc: Document,
@@ -180,15 +222,22 @@ function createModelSection(
       helper: "Your API key for authentication",
     }),
   );
-  section.append(
-    createLabeledInputBlock(doc, {
-      id: `${config.addonRef}-model-${suffix}`,
-      label: "Model Name",
-      type: "text",
-      placeholder: profile.modelPlaceholder,
-      helper: `The model to use for ${profile.modelSuffixLabel}`,
-    }),
+  const modelBlock = createLabeledInputBlock(doc, {
+    id: `${config.addonRef}-model-${suffix}`,
+    label: "Model Name",
+    type: "text",
+    placeholder: profile.modelPlaceholder,
+    helper: `The model to use for ${profile.modelSuffixLabel}`,
+  });
+  // Shown instead of the text input when a local server lists its models.
+  const modelSelect = createNode(
+    doc,
+    "select",
+    "display: none; width: 100%; padding: 8px 12px; font-size: 13px; border: 1px solid #ccc; border-radius: 6px; box-sizing: border-box;",
   );
+  modelSelect.id = `${config.addonRef}-model-select-${suffix}`;
+  modelBlock.insertBefore(modelSelect, modelBlock.lastChild);
+  section.append(modelBlock);
 
   const details = createNode(
     doc,
@@ -266,12 +315,536 @@ function renderModelSections(doc: Document) {
   }
 }
 
+const TABLE_CELL_STYLE =
+  "padding: 4px 8px; font-size: 12px; border-bottom: 1px solid #e5e5e5; text-align: left;";
+const SMALL_BUTTON_STYLE =
+  "padding: 4px 12px; font-size: 12px; border: 1px solid #c8c8c8; border-radius: 4px; cursor: pointer;";
+
+function getProfileTitle(profileKey: string): string {
+  return (
+    PROFILE_CONFIGS.find((profile) => profile.key === profileKey)?.title ||
+    profileKey ||
+    "Unknown profile"
+  );
+}
+
+async function renderUsageTotals(container: HTMLElement) {
+  const doc = container.ownerDocument;
+  if (!doc) return;
+  container.innerHTML = "";
+  let totals: UsageTotals[] = [];
+  try {
+    totals = await getUsageTotals();
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to load token usage", err);
+    container.append(
+      createNode(doc, "span", "font-size: 12px; color: red", "Failed to load."),
+    );
+    return;
+  }
+  if (!totals.length) {
+    container.append(
+      createNode(
+        doc,
+        "span",
+        "font-size: 12px; color: #666",
+        "No token usage recorded yet.",
+      ),
+    );
+    return;
+  }
+
+  const prices = getModelPrices();
+  const table = createNode(doc, "table", "border-collapse: collapse");
+  const header = createNode(doc, "tr");
+  for (const title of [
+    "Profile",
+    "Model",
+    "Requests",
+    "Input",
+    "Output",
+    "Reasoning",
+    "Cost",
+  ]) {
+    header.append(
+      createNode(doc, "th", `${TABLE_CELL_STYLE} font-weight: 600`, title),
+    );
+  }
+  table.append(header);
+
+  const addRow = (cells: string[], bold = false) => {
+    const row = createNode(doc, "tr");
+    for (const cell of cells) {
+      row.append(
+        createNode(
+          doc,
+          "td",
+          bold ? `${TABLE_CELL_STYLE} font-weight: 600` : TABLE_CELL_STYLE,
+          cell,
+        ),
+      );
+    }
+    table.append(row);
+  };
+
+  // Sort by profile, then show a subtotal after each profile's models.
+  const profileKeys = PROFILE_CONFIGS.map((profile) => profile.key as string);
+  const profileOrder = (key: string) => {
+    const index = profileKeys.indexOf(key);
+    return index >= 0 ? index : profileKeys.length;
+  };
+  totals.sort(
+    (a, b) =>
+      profileOrder(a.modelProfile) - profileOrder(b.modelProfile) ||
+      a.modelProfile.localeCompare(b.modelProfile) ||
+      a.modelName.localeCompare(b.modelName),
+  );
+  const formatTotalCost = (cost: number, priced: boolean) =>
+    `${priced ? "" : "≥ "}${formatCost(cost)}`;
+  let index = 0;
+  while (index < totals.length) {
+    const profileKey = totals[index].modelProfile;
+    const sum = {
+      requests: 0,
+      promptTokens: 0,
+      completionTokens: 0,
+      reasoningTokens: 0,
+      cost: 0,
+      priced: true,
+    };
+    for (; index < totals.length; index++) {
+      const entry = totals[index];
+      if (entry.modelProfile !== profileKey) break;
+      const cost = estimateCost(entry.modelName, entry, prices);
+      addRow([
+        getProfileTitle(profileKey),
+        entry.modelName || "unknown",
+        `${entry.requests}`,
+        formatTokenCount(entry.promptTokens),
+        formatTokenCount(entry.completionTokens),
+        formatTokenCount(entry.reasoningTokens),
+        cost === null ? "no price" : formatCost(cost),
+      ]);
+      sum.requests += entry.requests;
+      sum.promptTokens += entry.promptTokens;
+      sum.completionTokens += entry.completionTokens;
+      sum.reasoningTokens += entry.reasoningTokens;
+      if (cost === null) sum.priced = false;
+      else sum.cost += cost;
+    }
+    addRow(
+      [
+        `${getProfileTitle(profileKey)} total`,
+        "",
+        `${sum.requests}`,
+        formatTokenCount(sum.promptTokens),
+        formatTokenCount(sum.completionTokens),
+        formatTokenCount(sum.reasoningTokens),
+        formatTotalCost(sum.cost, sum.priced),
+      ],
+      true,
+    );
+  }
+  container.append(table);
+}
+
+function renderPriceTable(container: HTMLElement, onChange: () => void) {
+  const doc = container.ownerDocument;
+  if (!doc) return;
+  const prices: ModelPrice[] = getModelPrices();
+  const render = () => {
+    container.innerHTML = "";
+    const table = createNode(doc, "table", "border-collapse: collapse");
+    const header = createNode(doc, "tr");
+    for (const title of [
+      "Model name prefix",
+      "Input $/1M",
+      "Output $/1M",
+      "",
+    ]) {
+      header.append(
+        createNode(doc, "th", `${TABLE_CELL_STYLE} font-weight: 600`, title),
+      );
+    }
+    table.append(header);
+
+    const save = () => {
+      setModelPrices(prices.filter((price) => price.model.trim()));
+      onChange();
+    };
+    prices.forEach((price, index) => {
+      const row = createNode(doc, "tr");
+      const modelInput = createNode(
+        doc,
+        "input",
+        "width: 180px; padding: 2px 6px; font-size: 12px",
+      );
+      modelInput.type = "text";
+      modelInput.placeholder = "gpt-4o";
+      modelInput.value = price.model;
+      modelInput.addEventListener("change", () => {
+        price.model = modelInput.value.trim();
+        save();
+      });
+      const createPriceInput = (key: "input" | "output") => {
+        const input = createNode(
+          doc,
+          "input",
+          "width: 72px; padding: 2px 6px; font-size: 12px",
+        );
+        input.type = "text";
+        input.setAttribute("inputmode", "decimal");
+        input.value = `${price[key]}`;
+        input.addEventListener("change", () => {
+          const value = Number(input.value);
+          price[key] = Number.isFinite(value) && value >= 0 ? value : 0;
+          input.value = `${price[key]}`;
+          save();
+        });
+        return input;
+      };
+      const removeBtn = createNode(doc, "button", SMALL_BUTTON_STYLE, "Remove");
+      removeBtn.type = "button";
+      removeBtn.addEventListener("click", () => {
+        prices.splice(index, 1);
+        save();
+        render();
+      });
+      for (const control of [
+        modelInput,
+        createPriceInput("input"),
+        createPriceInput("output"),
+        removeBtn,
+      ]) {
+        const cell = createNode(doc, "td", TABLE_CELL_STYLE);
+        cell.append(control);
+        row.append(cell);
+      }
+      table.append(row);
+    });
+    container.append(table);
+
+    const addBtn = createNode(doc, "button", SMALL_BUTTON_STYLE, "Add Price");
+    addBtn.type = "button";
+    addBtn.style.marginTop = "6px";
+    addBtn.addEventListener("click", () => {
+      prices.push({ model: "", input: 0, output: 0 });
+      render();
+    });
+    container.append(addBtn);
+  };
+  render();
+}
+
+/** Retrieval mode, chunking and ranking of the paper context */
+function renderRetrievalSettings(doc: Document) {
+  const section = doc.querySelector(
+    `#${config.addonRef}-retrieval`,
+  ) as HTMLDivElement | null;
+  if (!section) return;
+  section.innerHTML = "";
+
+  const settings = getRetrievalSettings();
+  const rows = createNode(doc, "table", "border-collapse: collapse");
+  const addRow = (label: string, control: HTMLElement, helper: string) => {
+    const row = createNode(doc, "tr");
+    const controlCell = createNode(doc, "td", TABLE_CELL_STYLE);
+    controlCell.append(control);
+    row.append(
+      createNode(doc, "td", `${TABLE_CELL_STYLE} font-weight: 600`, label),
+      controlCell,
+      createNode(doc, "td", `${TABLE_CELL_STYLE} color: #666`, helper),
+    );
+    rows.append(row);
+  };
+  const save = (next: Partial<RetrievalSettings>) => {
+    setRetrievalSettings({ ...getRetrievalSettings(), ...next });
+    const saved = getRetrievalSettings();
+    chunkSizeInput.value = `${saved.chunkSize}`;
+    chunkOverlapInput.value = `${saved.chunkOverlap}`;
+    topKInput.value = `${saved.topK}`;
+    bm25WeightInput.value = `${saved.bm25Weight}`;
+  };
+  const createNumberInput = (value: number) => {
+    const input = createNode(
+      doc,
+      "input",
+      "width: 80px; padding: 2px 6px; font-size: 12px",
+    );
+    input.type = "text";
+    input.setAttribute("inputmode", "decimal");
+    input.value = `${value}`;
+    return input;
+  };
+
+  const modeSelect = createNode(doc, "select", "font-size: 12px");
+  for (const mode of RETRIEVAL_MODES) {
+    const option = createNode(
+      doc,
+      "option",
+      undefined,
+      RETRIEVAL_MODE_LABELS[mode],
+    );
+    option.value = mode;
+    modeSelect.append(option);
+  }
+  modeSelect.value = settings.mode;
+  modeSelect.addEventListener("change", () => {
+    save({ mode: modeSelect.value as RetrievalSettings["mode"] });
+  });
+
+  const chunkSizeInput = createNumberInput(settings.chunkSize);
+  chunkSizeInput.addEventListener("change", () => {
+    save({ chunkSize: Number(chunkSizeInput.value) });
+  });
+  const chunkOverlapInput = createNumberInput(settings.chunkOverlap);
+  chunkOverlapInput.addEventListener("change", () => {
+    save({ chunkOverlap: Number(chunkOverlapInput.value) });
+  });
+  const topKInput = createNumberInput(settings.topK);
+  topKInput.addEventListener("change", () => {
+    save({ topK: Number(topKInput.value) });
+  });
+  const bm25WeightInput = createNumberInput(settings.bm25Weight);
+  bm25WeightInput.addEventListener("change", () => {
+    save({ bm25Weight: Number(bm25WeightInput.value) });
+  });
+
+  const embeddingModelInput = createNode(
+    doc,
+    "input",
+    "width: 180px; padding: 2px 6px; font-size: 12px",
+  );
+  embeddingModelInput.type = "text";
+  embeddingModelInput.placeholder = "Provider default";
+  embeddingModelInput.value = getPref("embeddingModel");
+  embeddingModelInput.addEventListener("change", () => {
+    embeddingModelInput.value = embeddingModelInput.value.trim();
+    setPref("embeddingModel", embeddingModelInput.value);
+  });
+
+  addRow(
+    "Mode",
+    modeSelect,
+    "Full text sends the whole paper when it fits and retrieves excerpts otherwise. The other modes always retrieve excerpts, ranked by keywords (BM25), embeddings or both.",
+  );
+  addRow(
+    "Chunk size",
+    chunkSizeInput,
+    `Characters per excerpt, ${CHUNK_SIZE_RANGE.min}–${CHUNK_SIZE_RANGE.max}. Papers are indexed again after a change.`,
+  );
+  addRow(
+    "Chunk overlap",
+    chunkOverlapInput,
+    "Characters shared by the pieces of a long paragraph, at most half the chunk size.",
+  );
+  addRow(
+    "Excerpts per question",
+    topKInput,
+    `${TOP_K_RANGE.min}–${TOP_K_RANGE.max}; neighbouring chunks fill up free slots.`,
+  );
+  addRow(
+    "BM25 weight",
+    bm25WeightInput,
+    "Share of the hybrid score from keywords, 0–1; embeddings get the rest.",
+  );
+  addRow(
+    "Embedding model",
+    embeddingModelInput,
+    "Requested from the API of the model that answers. Left empty, it is text-embedding-3-small, gemini-embedding-001 for Gemini or nomic-embed-text for Ollama. Anthropic has no embeddings API, so its excerpts are ranked by keywords only. Changing it computes new embeddings.",
+  );
+
+  section.append(
+    createNode(doc, "div", "font-weight: 700; font-size: 13px", "Retrieval"),
+    createNode(
+      doc,
+      "span",
+      "font-size: 11px; color: #666",
+      "How the paper text is chosen for a question. The panel can override the mode for a single conversation.",
+    ),
+    rows,
+  );
+}
+
+/** User overrides of the context window table used for prompt budgeting */
+function renderContextWindows(doc: Document) {
+  const section = doc.querySelector(
+    `#${config.addonRef}-context-windows`,
+  ) as HTMLDivElement | null;
+  if (!section) return;
+  section.innerHTML = "";
+
+  const entries: ContextWindowEntry[] = getContextWindowOverrides();
+  const effective = createNode(doc, "div", "font-size: 12px");
+  const table = createNode(doc, "div");
+  const renderEffective = () => {
+    effective.innerHTML = "";
+    for (const profile of PROFILE_CONFIGS) {
+      const model =
+        getPref(getProfilePrefKey(profile, "model")) ||
+        (profile.useLegacyFallback
+          ? getPref("model") || profile.defaultModel
+          : "");
+      if (!model) continue;
+      effective.append(
+        createNode(
+          doc,
+          "div",
+          undefined,
+          `${profile.title} (${model}): ${formatTokenCount(
+            getContextWindow(model),
+          )} tokens`,
+        ),
+      );
+    }
+  };
+  const save = () => {
+    setContextWindowOverrides(entries.filter((entry) => entry.model.trim()));
+    renderEffective();
+  };
+  const render = () => {
+    table.innerHTML = "";
+    const rows = createNode(doc, "table", "border-collapse: collapse");
+    const header = createNode(doc, "tr");
+    for (const title of ["Model name prefix", "Context window (tokens)", ""]) {
+      header.append(
+        createNode(doc, "th", `${TABLE_CELL_STYLE} font-weight: 600`, title),
+      );
+    }
+    rows.append(header);
+    entries.forEach((entry, index) => {
+      const row = createNode(doc, "tr");
+      const modelInput = createNode(
+        doc,
+        "input",
+        "width: 180px; padding: 2px 6px; font-size: 12px",
+      );
+      modelInput.type = "text";
+      modelInput.placeholder = "llama3.1";
+      modelInput.value = entry.model;
+      modelInput.addEventListener("change", () => {
+        entry.model = modelInput.value.trim();
+        save();
+      });
+      const tokensInput = createNode(
+        doc,
+        "input",
+        "width: 96px; padding: 2px 6px; font-size: 12px",
+      );
+      tokensInput.type = "text";
+      tokensInput.setAttribute("inputmode", "numeric");
+      tokensInput.value = `${entry.tokens}`;
+      tokensInput.addEventListener("change", () => {
+        const value = Math.floor(Number(tokensInput.value));
+        entry.tokens =
+          Number.isFinite(value) && value > 0 ? value : DEFAULT_CONTEXT_WINDOW;
+        tokensInput.value = `${entry.tokens}`;
+        save();
+      });
+      const removeBtn = createNode(doc, "button", SMALL_BUTTON_STYLE, "Remove");
+      removeBtn.type = "button";
+      removeBtn.addEventListener("click", () => {
+        entries.splice(index, 1);
+        save();
+        render();
+      });
+      for (const control of [modelInput, tokensInput, removeBtn]) {
+        const cell = createNode(doc, "td", TABLE_CELL_STYLE);
+        cell.append(control);
+        row.append(cell);
+      }
+      rows.append(row);
+    });
+    table.append(rows);
+
+    const addBtn = createNode(
+      doc,
+      "button",
+      SMALL_BUTTON_STYLE,
+      "Add Context Window",
+    );
+    addBtn.type = "button";
+    addBtn.style.marginTop = "6px";
+    addBtn.addEventListener("click", () => {
+      entries.push({ model: "", tokens: DEFAULT_CONTEXT_WINDOW });
+      render();
+    });
+    table.append(addBtn);
+  };
+
+  section.append(
+    createNode(
+      doc,
+      "div",
+      "font-weight: 700; font-size: 13px",
+      "Context Windows",
+    ),
+    createNode(
+      doc,
+      "span",
+      "font-size: 11px; color: #666",
+      `Prompts are fitted to the model's context window: the paper text is cut down to excerpts and the oldest messages are left out when they do not fit. Common models have built-in sizes and local servers report their own; add a row to override them. Other models assume ${DEFAULT_CONTEXT_WINDOW} tokens.`,
+    ),
+    effective,
+    table,
+  );
+  renderEffective();
+  render();
+}
+
+/** Per-profile token totals and the price table used for cost estimates */
+function renderUsageDashboard(doc: Document) {
+  const dashboard = doc.querySelector(
+    `#${config.addonRef}-usage-dashboard`,
+  ) as HTMLDivElement | null;
+  if (!dashboard) return;
+  dashboard.innerHTML = "";
+
+  const heading = createNode(
+    doc,
+    "div",
+    "display: flex; align-items: center; gap: 12px",
+  );
+  heading.append(
+    createNode(doc, "div", "font-weight: 700; font-size: 13px", "Token Usage"),
+  );
+  const refreshBtn = createNode(doc, "button", SMALL_BUTTON_STYLE, "Refresh");
+  refreshBtn.type = "button";
+  heading.append(refreshBtn);
+
+  const totals = createNode(doc, "div", "overflow-x: auto");
+  const refreshTotals = () => void renderUsageTotals(totals);
+  refreshBtn.addEventListener("click", refreshTotals);
+
+  const prices = createNode(doc, "div");
+  dashboard.append(
+    heading,
+    totals,
+    createNode(
+      doc,
+      "div",
+      "font-weight: 600; font-size: 13px; margin-top: 8px",
+      "Model Prices",
+    ),
+    createNode(
+      doc,
+      "span",
+      "font-size: 11px; color: #666",
+      "USD per million tokens. A model uses the longest matching name prefix; models without a price show tokens only.",
+    ),
+    prices,
+  );
+  renderPriceTable(prices, refreshTotals);
+  refreshTotals();
+}
+
 // normalizeTemperature and normalizeMaxTokens imported from ../utils/normalization
 
 type ProfileInputRefs = {
   apiBaseInput: HTMLInputElement | null;
   apiKeyInput: HTMLInputElement | null;
   modelInput: HTMLInputElement | null;
+  modelSelect: HTMLSelectElement | null;
   temperatureInput: HTMLInputElement | null;
   maxTokensInput: HTMLInputElement | null;
   testButton: HTMLButtonElement | null;
@@ -285,6 +858,64 @@ function getProfilePrefKey(
   return `${field}${profile.prefSuffix}` as PrefKey;
 }
 
+/**
+ * For local servers (Ollama, llama.cpp), replace the free-text model input
+ * with a dropdown of installed models. Falls back to the text input when
+ * the server is not local or cannot be reached.
+ */
+async function refreshLocalModelSelect(
+  refs: ProfileInputRefs,
+  modelKey: PrefKey,
+) {
+  const { apiBaseInput, apiKeyInput, modelInput, modelSelect } = refs;
+  if (!apiBaseInput || !modelInput || !modelSelect) return;
+  const showTextInput = () => {
+    modelSelect.style.display = "none";
+    modelInput.style.display = "";
+  };
+
+  const apiBase = apiBaseInput.value.trim();
+  if (!isOllamaBase(apiBase) && !isLocalBase(apiBase)) {
+    showTextInput();
+    return;
+  }
+
+  let models: string[] = [];
+  try {
+    models = await listLocalModels(apiBase, apiKeyInput?.value.trim() || "");
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to list local models", err);
+  }
+  if (!models.length) {
+    showTextInput();
+    return;
+  }
+
+  const doc = modelSelect.ownerDocument;
+  if (!doc) return;
+  const current = modelInput.value.trim();
+  modelSelect.innerHTML = "";
+  if (current && !isLocalModelInstalled(models, current)) {
+    const missing = createNode(doc, "option", "", `${current} (not installed)`);
+    missing.value = current;
+    modelSelect.appendChild(missing);
+  }
+  for (const name of models) {
+    const option = createNode(doc, "option", "", name);
+    option.value = name;
+    modelSelect.appendChild(option);
+  }
+  const selected =
+    models.find((name) => isLocalModelInstalled([name], current)) || current;
+  modelSelect.value = selected || models[0];
+  if (!current) {
+    modelInput.value = modelSelect.value;
+    setPref(modelKey, modelSelect.value);
+  }
+  modelSelect.style.display = "";
+  modelInput.style.display = "none";
+}
+
 export async function registerPrefsScripts(_window: Window | undefined | null) {
   if (!_window) {
     ztoolkit.log("Preferences window not available");
@@ -296,6 +927,9 @@ export async function registerPrefsScripts(_window: Window | undefined | null) {
   // Wait a bit for DOM to be ready
   await new Promise((resolve) => setTimeout(resolve, 100));
   renderModelSections(doc);
+  renderRetrievalSettings(doc);
+  renderContextWindows(doc);
+  renderUsageDashboard(doc);
 
   // Populate fields with saved values
   const systemPromptInput = doc.querySelector(
@@ -304,6 +938,18 @@ export async function registerPrefsScripts(_window: Window | undefined | null) {
   const popupAddTextEnabledInput = doc.querySelector(
     `#${config.addonRef}-popup-add-text-enabled`,
   ) as HTMLInputElement | null;
+  const historyImageLimitInput = doc.querySelector(
+    `#${config.addonRef}-history-image-limit`,
+  ) as HTMLInputElement | null;
+  const memoryModeInput = doc.querySelector(
+    `#${config.addonRef}-memory-mode-enabled`,
+  ) as HTMLInputElement | null;
+  const memoryProfileSelect = doc.querySelector(
+    `#${config.addonRef}-memory-profile`,
+  ) as HTMLSelectElement | null;
+  const ocrProfileSelect = doc.querySelector(
+    `#${config.addonRef}-ocr-profile`,
+  ) as HTMLSelectElement | null;
   const profileInputs = new Map<ProfileKind, ProfileInputRefs>();
 
   for (const profile of PROFILE_CONFIGS) {
@@ -317,6 +963,9 @@ export async function registerPrefsScripts(_window: Window | undefined | null) {
       modelInput: doc.querySelector(
         `#${config.addonRef}-model-${profile.key}`,
       ) as HTMLInputElement | null,
+      modelSelect: doc.querySelector(
+        `#${config.addonRef}-model-select-${profile.key}`,
+      ) as HTMLSelectElement | null,
       temperatureInput: doc.querySelector(
         `#${config.addonRef}-temperature-${profile.key}`,
       ) as HTMLInputElement | null,
@@ -362,6 +1011,19 @@ export async function registerPrefsScripts(_window: Window | undefined | null) {
         setPref(modelKey, refs.modelInput?.value || "");
       });
     }
+
+    if (refs.modelSelect) {
+      refs.modelSelect.addEventListener("change", () => {
+        const value = refs.modelSelect?.value || "";
+        if (refs.modelInput) refs.modelInput.value = value;
+        setPref(modelKey, value);
+      });
+    }
+
+    void refreshLocalModelSelect(refs, modelKey);
+    refs.apiBaseInput?.addEventListener("change", () => {
+      void refreshLocalModelSelect(refs, modelKey);
+    });
   }
 
   if (systemPromptInput) {
@@ -387,6 +1049,55 @@ export async function registerPrefsScripts(_window: Window | undefined | null) {
     });
   }
 
+  if (historyImageLimitInput) {
+    historyImageLimitInput.value = getPref("historyImageLimit") || "4";
+    historyImageLimitInput.addEventListener("change", () => {
+      const limit = Number.parseInt(historyImageLimitInput.value, 10);
+      const normalized =
+        Number.isFinite(limit) && limit >= 0 ? `${Math.min(limit, 20)}` : "4";
+      historyImageLimitInput.value = normalized;
+      setPref("historyImageLimit", normalized);
+    });
+  }
+
+  if (memoryModeInput) {
+    memoryModeInput.checked =
+      Zotero.Prefs.get(`${config.prefsPrefix}.memoryMode`, true) === true;
+    memoryModeInput.addEventListener("change", () => {
+      Zotero.Prefs.set(
+        `${config.prefsPrefix}.memoryMode`,
+        memoryModeInput.checked,
+        true,
+      );
+    });
+  }
+
+  if (memoryProfileSelect) {
+    memoryProfileSelect.innerHTML = "";
+    for (const profile of PROFILE_CONFIGS) {
+      const option = createNode(doc, "option", undefined, profile.title);
+      option.value = profile.key;
+      memoryProfileSelect.append(option);
+    }
+    memoryProfileSelect.value = getPref("memoryProfile") || "secondary";
+    memoryProfileSelect.addEventListener("change", () => {
+      setPref("memoryProfile", memoryProfileSelect.value);
+    });
+  }
+
+  if (ocrProfileSelect) {
+    ocrProfileSelect.innerHTML = "";
+    for (const profile of PROFILE_CONFIGS) {
+      const option = createNode(doc, "option", undefined, profile.title);
+      option.value = profile.key;
+      ocrProfileSelect.append(option);
+    }
+    ocrProfileSelect.value = getPref("ocrProfile") || "primary";
+    ocrProfileSelect.addEventListener("change", () => {
+      setPref("ocrProfile", ocrProfileSelect.value);
+    });
+  }
+
   const setupAdvancedOptions = (
     profile: ProfileConfig,
     temperatureInput: HTMLInputElement | null,
@@ -456,6 +1167,83 @@ export async function registerPrefsScripts(_window: Window | undefined | null) {
           throw new Error("API URL is required");
         }
 
+        const fetchFn = ztoolkit.getGlobal("fetch") as typeof fetch;
+
+        if (isOllamaBase(apiBase)) {
+          const installed = await listLocalModels(apiBase);
+          if (!isLocalModelInstalled(installed, modelName)) {
+            throw new Error(
+              `Model "${modelName}" is not installed. Available: ${
+                installed.join(", ") || "none"
+              }`,
+            );
+          }
+          const contextLength = await getLocalModelContextLength(
+            apiBase,
+            modelName,
+          );
+          status.textContent = `Success! Model "${modelName}" is available${
+            contextLength ? ` (context length: ${contextLength} tokens)` : ""
+          }.`;
+          status.style.color = "green";
+          return;
+        }
+
+        if (isAnthropicBase(apiBase)) {
+          const response = await fetchFn(
+            resolveEndpoint(apiBase, ANTHROPIC_MESSAGES_ENDPOINT),
+            {
+              method: "POST",
+              headers: buildAnthropicHeaders(apiKey),
+              body: JSON.stringify({
+                model: modelName,
+                max_tokens: 5,
+                messages: [{ role: "user", content: "Say OK" }],
+              }),
+            },
+          );
+          if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`HTTP ${response.status}: ${errorText}`);
+          }
+          const data = (await response.json()) as {
+            content?: Array<{ type?: string; text?: string }>;
+          };
+          const reply =
+            data?.content?.find((block) => block.type === "text")?.text || "OK";
+          status.textContent = `Success! Model says: "${reply}"`;
+          status.style.color = "green";
+          return;
+        }
+
+        if (isGeminiNativeBase(apiBase)) {
+          const response = await fetchFn(
+            resolveGeminiEndpoint(apiBase, modelName, false),
+            {
+              method: "POST",
+              headers: buildGeminiHeaders(apiKey),
+              body: JSON.stringify({
+                contents: [{ role: "user", parts: [{ text: "Say OK" }] }],
+                generationConfig: { maxOutputTokens: 16 },
+              }),
+            },
+          );
+          if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`HTTP ${response.status}: ${errorText}`);
+          }
+          const data = (await response.json()) as {
+            candidates?: Array<{
+              content?: { parts?: Array<{ text?: string }> };
+            }>;
+          };
+          const reply =
+            data?.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || "OK";
+          status.textContent = `Success! Model says: "${reply}"`;
+          status.style.color = "green";
+          return;
+        }
+
         const headers = buildHeaders(apiKey);
 
         const isResponsesBase = checkIsResponsesBase(apiBase);
@@ -482,7 +1270,6 @@ export async function registerPrefsScripts(_window: Window | undefined | null) {
               ...tokenParam,
             };
 
-        const fetchFn = ztoolkit.getGlobal("fetch") as typeof fetch;
         const response = await fetchFn(testUrl, {
           method: "POST",
           headers,
@@ -499,6 +1286,18 @@ export async function registerPrefsScripts(_window: Window | undefined | null) {
         };
         const reply = data?.choices?.[0]?.message?.content || "OK";
 
+        if (isLocalBase(apiBase)) {
+          const contextLength = await getLocalModelContextLength(
+            apiBase,
+            modelName,
+          );
+          if (contextLength) {
+            status.textContent = `Success! Model says: "${reply}" (context length: ${contextLength} tokens)`;
+            status.style.color = "green";
+            return;
+          }
+        }
+
         status.textContent = `Success! Model says: "${reply}"`;
         status.style.color = "green";
       } catch (error) {
@@ -9,6 +9,14 @@
 export const API_ENDPOINT = "/v1/chat/completions";
 export const RESPONSES_ENDPOINT = "/v1/responses";
 export const EMBEDDINGS_ENDPOINT = "/v1/embeddings";
+export const ANTHROPIC_MESSAGES_ENDPOINT = "/v1/messages";
+export const ANTHROPIC_API_VERSION = "2023-06-01";
+export const GEMINI_API_VERSION_PATH = "/v1beta";
+export const OLLAMA_CHAT_ENDPOINT = "/api/chat";
+export const OLLAMA_EMBED_ENDPOINT = "/api/embed";
+export const OLLAMA_TAGS_ENDPOINT = "/api/tags";
+export const OLLAMA_SHOW_ENDPOINT = "/api/show";
+export const OLLAMA_DEFAULT_PORT = "11434";
 
 // =============================================================================
 // Functions
@@ -21,6 +29,9 @@ export const EMBEDDINGS_ENDPOINT = "/v1/embeddings";
 export function resolveEndpoint(baseOrUrl: string, path: string): string {
   const cleaned = baseOrUrl.trim().replace(/\/$/, "");
   if (!cleaned) return "";
+  if (path === ANTHROPIC_MESSAGES_ENDPOINT && cleaned.endsWith("/messages")) {
+    return cleaned;
+  }
   const chatSuffix = "/chat/completions";
   const responsesSuffix = "/responses";
   const embeddingSuffix = "/embeddings";
@@ -74,6 +85,80 @@ export function buildHeaders(apiKey: string): Record<string, string> {
   return headers;
 }
 
+/** Build request headers for the native Anthropic Messages API. */
+export function buildAnthropicHeaders(apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "anthropic-version": ANTHROPIC_API_VERSION,
+  };
+  if (apiKey) {
+    headers["x-api-key"] = apiKey;
+  }
+  return headers;
+}
+
+/** Build request headers for the native Gemini generateContent API. */
+export function buildGeminiHeaders(apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (apiKey) {
+    headers["x-goog-api-key"] = apiKey;
+  }
+  return headers;
+}
+
+/**
+ * Resolve the native Gemini `:generateContent` / `:streamGenerateContent`
+ * URL for a model. Accepts a bare host, a versioned base or a full
+ * `models/<name>:method` URL.
+ */
+export function resolveGeminiEndpoint(
+  baseOrUrl: string,
+  model: string,
+  stream: boolean,
+): string {
+  return resolveGeminiModelMethod(
+    baseOrUrl,
+    model,
+    stream ? "streamGenerateContent?alt=sse" : "generateContent",
+  );
+}
+
+/** Resolve the native Gemini `:batchEmbedContents` URL for a model. */
+export function resolveGeminiEmbeddingEndpoint(
+  baseOrUrl: string,
+  model: string,
+): string {
+  return resolveGeminiModelMethod(baseOrUrl, model, "batchEmbedContents");
+}
+
+function resolveGeminiModelMethod(
+  baseOrUrl: string,
+  model: string,
+  method: string,
+): string {
+  let root = baseOrUrl.trim().replace(/\/$/, "");
+  if (!root) return "";
+  root = root.replace(/\/models(?:\/.*)?$/, "");
+  if (!/\/v\d+(?:beta|alpha)?\d*$/.test(root)) {
+    root = `${root}${GEMINI_API_VERSION_PATH}`;
+  }
+  const modelName = encodeURIComponent(model.trim().replace(/^models\//, ""));
+  return `${root}/models/${modelName}:${method}`;
+}
+
+/**
+ * Resolve an Ollama native endpoint (`/api/chat`, `/api/tags`, ...) from a
+ * server root or any URL already pointing at an Ollama API path.
+ */
+export function resolveOllamaEndpoint(baseOrUrl: string, path: string): string {
+  const cleaned = baseOrUrl.trim().replace(/\/$/, "");
+  if (!cleaned) return "";
+  const root = cleaned.replace(/\/(?:api|v1)(?:\/.*)?$/, "");
+  return `${root}${path}`;
+}
+
 /** Check whether a model name implies `max_completion_tokens` instead of `max_tokens`. */
 export function usesMaxCompletionTokens(model: string): boolean {
   const name = model.toLowerCase();
@@ -89,3 +174,50 @@ export function isResponsesBase(baseOrUrl: string): boolean {
   const cleaned = baseOrUrl.trim().replace(/\/$/, "");
   return cleaned.endsWith("/v1/responses") || cleaned.endsWith("/responses");
 }
+
+/**
+ * Check whether the base URL should use the native Anthropic Messages API
+ * (either the official host or an explicit `/messages` endpoint).
+ */
+export function isAnthropicBase(baseOrUrl: string): boolean {
+  const cleaned = baseOrUrl.trim().replace(/\/$/, "").toLowerCase();
+  if (!cleaned) return false;
+  return /\banthropic\.com\b/.test(cleaned) || cleaned.endsWith("/messages");
+}
+
+/**
+ * Check whether the base URL should use the native Gemini API. The
+ * OpenAI-compatible `/openai` path on the same host keeps the compat shim.
+ */
+export function isGeminiNativeBase(baseOrUrl: string): boolean {
+  const cleaned = baseOrUrl.trim().replace(/\/$/, "").toLowerCase();
+  if (!cleaned) return false;
+  if (/:(?:stream)?generatecontent\b/.test(cleaned)) return true;
+  return (
+    cleaned.includes("generativelanguage.googleapis.com") &&
+    !cleaned.includes("/openai")
+  );
+}
+
+/**
+ * Check whether the base URL points at an Ollama server speaking its native
+ * API (default port 11434 or an explicit `/api/chat`-style path). The
+ * OpenAI-compatible `/v1` path on the same server keeps the compat shim.
+ */
+export function isOllamaBase(baseOrUrl: string): boolean {
+  const cleaned = baseOrUrl.trim().replace(/\/$/, "").toLowerCase();
+  if (!cleaned) return false;
+  if (/\/v1(?:\/|$)/.test(cleaned)) return false;
+  return (
+    new RegExp(`:${OLLAMA_DEFAULT_PORT}(?:/|$)`).test(cleaned) ||
+    /\/api\/(?:chat|tags|generate)$/.test(cleaned)
+  );
+}
+
+/** Check whether the base URL points at a server on this machine. */
+export function isLocalBase(baseOrUrl: string): boolean {
+  const cleaned = baseOrUrl.trim().toLowerCase();
+  return /^(?:https?:\/\/)?(?:localhost|127(?:\.\d+){3}|0\.0\.0\.0|\[::1\])(?::\d+)?(?:\/|$)/.test(
+    cleaned,
+  );
+}
@@ -1,16 +1,107 @@
+import type { TokenUsage } from "./llmClient";
+
+/** Text file dropped or pasted into the input, inlined into the question */
+export type AttachedFile = {
+  name: string;
+  text: string;
+  /** Whether `text` was cut to the size limit */
+  truncated?: boolean;
+};
+
 export type StoredChatMessage = {
+  /** Row id, set for messages read from the store */
+  id?: number;
+  /** Message this one replies to; `null` for the first message of a branch */
+  parentId?: number | null;
+  /** Thread the message belongs to */
+  threadId?: number;
   role: "user" | "assistant";
   text: string;
   timestamp: number;
   selectedText?: string;
   screenshotImages?: string[];
+  attachedFiles?: AttachedFile[];
   modelName?: string;
   reasoningSummary?: string;
   reasoningDetails?: string;
+  /** Tokens reported by the provider for an assistant answer */
+  usage?: TokenUsage;
+  /** Model profile (`primary`, `secondary`, ...) that produced the answer */
+  modelProfile?: string;
+};
+
+/** Token usage of one request, as kept in the usage log */
+export type UsageEvent = TokenUsage & {
+  /** Model profile the request was made with; empty when not known */
+  modelProfile: string;
+  modelName: string;
+};
+
+/** Token totals of all logged requests of one model under one profile */
+export type UsageTotals = {
+  modelProfile: string;
+  modelName: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  reasoningTokens: number;
+};
+
+/** Rolling summary of the older messages of a thread */
+export type StoredConversationSummary = {
+  threadId: number;
+  conversationKey: number;
+  text: string;
+  /** Newest message folded into the summary; `null` if written by hand */
+  coveredMessageId: number | null;
+  updatedAt: number;
+};
+
+export type StoredChatThread = {
+  id: number;
+  conversationKey: number;
+  title: string;
+  /** Title is a placeholder that may be replaced by a generated one */
+  autoTitle: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type ChatSearchHit = {
+  messageId: number;
+  conversationKey: number;
+  threadId: number | null;
+  threadTitle: string;
+  role: "user" | "assistant";
+  /** Excerpt around the match; matched terms are wrapped in `\u0002…\u0003` */
+  snippet: string;
+  timestamp: number;
+  modelName?: string;
+};
+
+export type StoredGroupConversation = {
+  conversationKey: number;
+  itemIds: number[];
+  label: string;
+  createdAt: number;
 };
 
+/**
+ * Group conversations share the messages table with per-item conversations.
+ * Their keys are offset so they never collide with Zotero item IDs.
+ */
+export const GROUP_CONVERSATION_KEY_BASE = 1_000_000_000;
+
 const CHAT_MESSAGES_TABLE = "llm_for_zotero_chat_messages";
 const CHAT_MESSAGES_INDEX = "llm_for_zotero_chat_messages_conversation_idx";
+const CHAT_SEARCH_TABLE = "llm_for_zotero_chat_messages_fts";
+const CHAT_THREADS_TABLE = "llm_for_zotero_chat_threads";
+const CHAT_THREADS_INDEX = "llm_for_zotero_chat_threads_conversation_idx";
+const GROUP_CONVERSATIONS_TABLE = "llm_for_zotero_group_conversations";
+const CONVERSATION_SUMMARIES_TABLE = "llm_for_zotero_conversation_summaries";
+const USAGE_EVENTS_TABLE = "llm_for_zotero_usage_events";
+/** Title of the thread that existing messages are migrated into */
+export const DEFAULT_THREAD_TITLE = "Conversation";
 const LEGACY_CHAT_MESSAGES_TABLE = "zoterollm_chat_messages";
 const LEGACY_CHAT_MESSAGES_INDEX = "zoterollm_chat_messages_conversation_idx";
 
@@ -64,6 +155,43 @@ async function migrateLegacyChatStore(): Promise<void> {
   await Zotero.DB.queryAsync(`DROP INDEX IF EXISTS ${LEGACY_CHAT_MESSAGES_INDEX}`);
 }
 
+/**
+ * Move messages stored before threads existed (or copied from the legacy
+ * table) into one default thread per conversation. The threads and the
+ * message updates are written in one transaction.
+ */
+async function migrateMessagesIntoThreads(): Promise<void> {
+  const orphanRows = (await Zotero.DB.queryAsync(
+    `SELECT COUNT(*) AS count
+     FROM ${CHAT_MESSAGES_TABLE}
+     WHERE thread_id IS NULL`,
+  )) as Array<{ count?: unknown }> | undefined;
+  if (!Number(orphanRows?.[0]?.count)) return;
+
+  await Zotero.DB.executeTransaction(async () => {
+    await Zotero.DB.queryAsync(
+      `INSERT INTO ${CHAT_THREADS_TABLE}
+        (conversation_key, title, auto_title, created_at, updated_at)
+       SELECT conversation_key, ?, 0, MIN(timestamp), MAX(timestamp)
+       FROM ${CHAT_MESSAGES_TABLE}
+       WHERE thread_id IS NULL
+       GROUP BY conversation_key`,
+      [DEFAULT_THREAD_TITLE],
+    );
+    await Zotero.DB.queryAsync(
+      `UPDATE ${CHAT_MESSAGES_TABLE}
+       SET thread_id = (
+         SELECT threads.id
+         FROM ${CHAT_THREADS_TABLE} threads
+         WHERE threads.conversation_key = ${CHAT_MESSAGES_TABLE}.conversation_key
+         ORDER BY threads.id DESC
+         LIMIT 1
+       )
+       WHERE thread_id IS NULL`,
+    );
+  });
+}
+
 function normalizeConversationKey(conversationKey: number): number | null {
   if (!Number.isFinite(conversationKey)) return null;
   const normalized = Math.floor(conversationKey);
@@ -90,7 +218,14 @@ export async function initChatStore(): Promise<void> {
         screenshot_images TEXT,
         model_name TEXT,
         reasoning_summary TEXT,
-        reasoning_details TEXT
+        reasoning_details TEXT,
+        parent_id INTEGER,
+        thread_id INTEGER,
+        prompt_tokens INTEGER,
+        completion_tokens INTEGER,
+        reasoning_tokens INTEGER,
+        model_profile TEXT,
+        attached_files TEXT
       )`,
     );
 
@@ -125,37 +260,219 @@ export async function initChatStore(): Promise<void> {
       );
     }
 
+    const hasParentIdColumn = Boolean(
+      columns?.some((column) => column?.name === "parent_id"),
+    );
+    if (!hasParentIdColumn) {
+      await Zotero.DB.queryAsync(
+        `ALTER TABLE ${CHAT_MESSAGES_TABLE}
+         ADD COLUMN parent_id INTEGER`,
+      );
+      // Existing conversations are linear: link each message to the one
+      // before it so they load as a single branch.
+      await Zotero.DB.queryAsync(
+        `UPDATE ${CHAT_MESSAGES_TABLE}
+         SET parent_id = (
+           SELECT prev.id
+           FROM ${CHAT_MESSAGES_TABLE} prev
+           WHERE prev.conversation_key = ${CHAT_MESSAGES_TABLE}.conversation_key
+             AND (
+               prev.timestamp < ${CHAT_MESSAGES_TABLE}.timestamp
+               OR (
+                 prev.timestamp = ${CHAT_MESSAGES_TABLE}.timestamp
+                 AND prev.id < ${CHAT_MESSAGES_TABLE}.id
+               )
+             )
+           ORDER BY prev.timestamp DESC, prev.id DESC
+           LIMIT 1
+         )`,
+      );
+    }
+
+    const hasThreadIdColumn = Boolean(
+      columns?.some((column) => column?.name === "thread_id"),
+    );
+    if (!hasThreadIdColumn) {
+      await Zotero.DB.queryAsync(
+        `ALTER TABLE ${CHAT_MESSAGES_TABLE}
+         ADD COLUMN thread_id INTEGER`,
+      );
+    }
+
+    for (const [name, type] of [
+      ["prompt_tokens", "INTEGER"],
+      ["completion_tokens", "INTEGER"],
+      ["reasoning_tokens", "INTEGER"],
+      ["model_profile", "TEXT"],
+      ["attached_files", "TEXT"],
+    ]) {
+      if (columns?.some((column) => column?.name === name)) continue;
+      await Zotero.DB.queryAsync(
+        `ALTER TABLE ${CHAT_MESSAGES_TABLE}
+         ADD COLUMN ${name} ${type}`,
+      );
+    }
+
     await Zotero.DB.queryAsync(
       `CREATE INDEX IF NOT EXISTS ${CHAT_MESSAGES_INDEX}
        ON ${CHAT_MESSAGES_TABLE} (conversation_key, timestamp, id)`,
     );
+
+    await Zotero.DB.queryAsync(
+      `CREATE TABLE IF NOT EXISTS ${CHAT_THREADS_TABLE} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_key INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        auto_title INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`,
+    );
+    await Zotero.DB.queryAsync(
+      `CREATE INDEX IF NOT EXISTS ${CHAT_THREADS_INDEX}
+       ON ${CHAT_THREADS_TABLE} (conversation_key, updated_at)`,
+    );
+
+    await Zotero.DB.queryAsync(
+      `CREATE TABLE IF NOT EXISTS ${GROUP_CONVERSATIONS_TABLE} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        item_ids TEXT NOT NULL UNIQUE,
+        label TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )`,
+    );
+
+    await Zotero.DB.queryAsync(
+      `CREATE TABLE IF NOT EXISTS ${CONVERSATION_SUMMARIES_TABLE} (
+        thread_id INTEGER PRIMARY KEY,
+        conversation_key INTEGER NOT NULL,
+        text TEXT NOT NULL,
+        covered_message_id INTEGER,
+        updated_at INTEGER NOT NULL
+      )`,
+    );
+
+    const hasUsageEventsTable = await tableExists(USAGE_EVENTS_TABLE);
+    await Zotero.DB.queryAsync(
+      `CREATE TABLE IF NOT EXISTS ${USAGE_EVENTS_TABLE} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        timestamp INTEGER NOT NULL,
+        model_profile TEXT NOT NULL,
+        model_name TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL,
+        reasoning_tokens INTEGER NOT NULL DEFAULT 0
+      )`,
+    );
+    if (!hasUsageEventsTable) {
+      // Usage was kept on the answers before the log existed.
+      await Zotero.DB.queryAsync(
+        `INSERT INTO ${USAGE_EVENTS_TABLE}
+          (timestamp, model_profile, model_name, prompt_tokens, completion_tokens, reasoning_tokens)
+         SELECT
+           timestamp,
+           COALESCE(model_profile, ''),
+           COALESCE(model_name, ''),
+           prompt_tokens,
+           COALESCE(completion_tokens, 0),
+           COALESCE(reasoning_tokens, 0)
+         FROM ${CHAT_MESSAGES_TABLE}
+         WHERE role = 'assistant' AND prompt_tokens IS NOT NULL`,
+      );
+    }
   });
+
+  // Outside the schema transaction: Zotero transactions do not nest.
+  await migrateMessagesIntoThreads();
+  await initChatSearchIndex();
+}
+
+/** Whether the FTS5 index exists; history search falls back to LIKE */
+let chatSearchIndexReady = false;
+
+/**
+ * Create the full-text index over message text. It is an external-content
+ * FTS5 table kept in sync by triggers, and is rebuilt once when created.
+ */
+async function initChatSearchIndex(): Promise<void> {
+  try {
+    const existed = await tableExists(CHAT_SEARCH_TABLE);
+    await Zotero.DB.executeTransaction(async () => {
+      await Zotero.DB.queryAsync(
+        `CREATE VIRTUAL TABLE IF NOT EXISTS ${CHAT_SEARCH_TABLE}
+         USING fts5(text, content='${CHAT_MESSAGES_TABLE}', content_rowid='id')`,
+      );
+      await Zotero.DB.queryAsync(
+        `CREATE TRIGGER IF NOT EXISTS ${CHAT_SEARCH_TABLE}_ai
+         AFTER INSERT ON ${CHAT_MESSAGES_TABLE} BEGIN
+           INSERT INTO ${CHAT_SEARCH_TABLE} (rowid, text)
+           VALUES (new.id, new.text);
+         END`,
+      );
+      await Zotero.DB.queryAsync(
+        `CREATE TRIGGER IF NOT EXISTS ${CHAT_SEARCH_TABLE}_ad
+         AFTER DELETE ON ${CHAT_MESSAGES_TABLE} BEGIN
+           INSERT INTO ${CHAT_SEARCH_TABLE} (${CHAT_SEARCH_TABLE}, rowid, text)
+           VALUES ('delete', old.id, old.text);
+         END`,
+      );
+      await Zotero.DB.queryAsync(
+        `CREATE TRIGGER IF NOT EXISTS ${CHAT_SEARCH_TABLE}_au
+         AFTER UPDATE OF text ON ${CHAT_MESSAGES_TABLE} BEGIN
+           INSERT INTO ${CHAT_SEARCH_TABLE} (${CHAT_SEARCH_TABLE}, rowid, text)
+           VALUES ('delete', old.id, old.text);
+           INSERT INTO ${CHAT_SEARCH_TABLE} (rowid, text)
+           VALUES (new.id, new.text);
+         END`,
+      );
+      if (!existed) {
+        await Zotero.DB.queryAsync(
+          `INSERT INTO ${CHAT_SEARCH_TABLE} (${CHAT_SEARCH_TABLE})
+           VALUES ('rebuild')`,
+        );
+      }
+    });
+    chatSearchIndexReady = true;
+  } catch (err) {
+    chatSearchIndexReady = false;
+    ztoolkit.log("LLM: Chat history full-text index unavailable", err);
+  }
 }
 
 export async function loadConversation(
   conversationKey: number,
+  threadId: number,
   limit: number,
 ): Promise<StoredChatMessage[]> {
   const normalizedKey = normalizeConversationKey(conversationKey);
-  if (!normalizedKey) return [];
+  if (!normalizedKey || !Number.isFinite(threadId)) return [];
 
   const normalizedLimit = normalizeLimit(limit, 200);
   const rows = (await Zotero.DB.queryAsync(
-    `SELECT role,
+    `SELECT id,
+            parent_id AS parentId,
+            role,
             text,
             timestamp,
             selected_text AS selectedText,
             screenshot_images AS screenshotImages,
             model_name AS modelName,
             reasoning_summary AS reasoningSummary,
-            reasoning_details AS reasoningDetails
+            reasoning_details AS reasoningDetails,
+            prompt_tokens AS promptTokens,
+            completion_tokens AS completionTokens,
+            reasoning_tokens AS reasoningTokens,
+            model_profile AS modelProfile,
+            attached_files AS attachedFiles
      FROM ${CHAT_MESSAGES_TABLE}
-     WHERE conversation_key = ?
+     WHERE conversation_key = ? AND thread_id = ?
      ORDER BY timestamp ASC, id ASC
      LIMIT ?`,
-    [normalizedKey, normalizedLimit],
+    [normalizedKey, threadId, normalizedLimit],
   )) as
     | Array<{
+        id: unknown;
+        parentId?: unknown;
         role: unknown;
         text: unknown;
         timestamp: unknown;
@@ -164,6 +481,11 @@ export async function loadConversation(
         modelName?: unknown;
         reasoningSummary?: unknown;
         reasoningDetails?: unknown;
+        promptTokens?: unknown;
+        completionTokens?: unknown;
+        reasoningTokens?: unknown;
+        modelProfile?: unknown;
+        attachedFiles?: unknown;
       }>
     | undefined;
 
@@ -179,7 +501,17 @@ export async function loadConversation(
           : null;
     if (!role) continue;
 
+    const id = Number(row.id);
+    const parentId = Number(row.parentId);
     const timestamp = Number(row.timestamp);
+    const promptTokens = Number(row.promptTokens);
+    const completionTokens = Number(row.completionTokens);
+    const reasoningTokens = Number(row.reasoningTokens);
+    const hasUsage =
+      row.promptTokens !== null &&
+      row.completionTokens !== null &&
+      Number.isFinite(promptTokens) &&
+      Number.isFinite(completionTokens);
     let screenshotImages: string[] | undefined;
     if (typeof row.screenshotImages === "string" && row.screenshotImages) {
       try {
@@ -197,13 +529,37 @@ export async function loadConversation(
         screenshotImages = undefined;
       }
     }
+    let attachedFiles: AttachedFile[] | undefined;
+    if (typeof row.attachedFiles === "string" && row.attachedFiles) {
+      try {
+        const parsed = JSON.parse(row.attachedFiles) as unknown;
+        if (Array.isArray(parsed)) {
+          const normalized = parsed.filter(
+            (entry): entry is AttachedFile =>
+              Boolean(entry) &&
+              typeof entry.name === "string" &&
+              typeof entry.text === "string",
+          );
+          if (normalized.length) {
+            attachedFiles = normalized;
+          }
+        }
+      } catch (_err) {
+        attachedFiles = undefined;
+      }
+    }
     messages.push({
+      id: Number.isFinite(id) ? id : undefined,
+      parentId:
+        row.parentId !== null && Number.isFinite(parentId) ? parentId : null,
+      threadId,
       role,
       text: typeof row.text === "string" ? row.text : "",
       timestamp: Number.isFinite(timestamp) ? timestamp : Date.now(),
       selectedText:
         typeof row.selectedText === "string" ? row.selectedText : undefined,
       screenshotImages,
+      attachedFiles,
       modelName: typeof row.modelName === "string" ? row.modelName : undefined,
       reasoningSummary:
         typeof row.reasoningSummary === "string"
@@ -213,39 +569,78 @@ export async function loadConversation(
         typeof row.reasoningDetails === "string"
           ? row.reasoningDetails
           : undefined,
+      usage: hasUsage
+        ? {
+            promptTokens,
+            completionTokens,
+            reasoningTokens: reasoningTokens > 0 ? reasoningTokens : undefined,
+          }
+        : undefined,
+      modelProfile:
+        typeof row.modelProfile === "string" ? row.modelProfile : undefined,
     });
   }
 
   return messages;
 }
 
+/**
+ * Store a message and return its row id, which later messages use as their
+ * `parentId`.
+ */
 export async function appendMessage(
   conversationKey: number,
   message: StoredChatMessage,
-): Promise<void> {
+): Promise<number | null> {
   const normalizedKey = normalizeConversationKey(conversationKey);
-  if (!normalizedKey) return;
+  if (!normalizedKey) return null;
 
   const timestamp = Number(message.timestamp);
   const screenshotImages = Array.isArray(message.screenshotImages)
     ? message.screenshotImages.filter((entry) => Boolean(entry))
     : [];
+  const attachedFiles = Array.isArray(message.attachedFiles)
+    ? message.attachedFiles.filter((entry) => Boolean(entry?.name))
+    : [];
+  const parentId = Number(message.parentId);
+  const threadId = Number(message.threadId);
+  // Messages without a thread would be swept into a default thread by the
+  // startup migration.
+  if (!Number.isFinite(threadId) || threadId <= 0) return null;
+  const insertedId = Number(
+    await Zotero.DB.queryAsync(
+      `INSERT INTO ${CHAT_MESSAGES_TABLE}
+        (conversation_key, thread_id, parent_id, role, text, timestamp, selected_text, screenshot_images, model_name, reasoning_summary, reasoning_details, prompt_tokens, completion_tokens, reasoning_tokens, model_profile, attached_files)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        normalizedKey,
+        threadId,
+        parentId > 0 ? parentId : null,
+        message.role,
+        message.text,
+        Number.isFinite(timestamp) ? Math.floor(timestamp) : Date.now(),
+        message.selectedText || null,
+        screenshotImages.length ? JSON.stringify(screenshotImages) : null,
+        message.modelName || null,
+        message.reasoningSummary || null,
+        message.reasoningDetails || null,
+        message.usage ? Math.round(message.usage.promptTokens) : null,
+        message.usage ? Math.round(message.usage.completionTokens) : null,
+        message.usage?.reasoningTokens
+          ? Math.round(message.usage.reasoningTokens)
+          : null,
+        message.modelProfile || null,
+        attachedFiles.length ? JSON.stringify(attachedFiles) : null,
+      ],
+    ),
+  );
   await Zotero.DB.queryAsync(
-    `INSERT INTO ${CHAT_MESSAGES_TABLE}
-      (conversation_key, role, text, timestamp, selected_text, screenshot_images, model_name, reasoning_summary, reasoning_details)
-     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-    [
-      normalizedKey,
-      message.role,
-      message.text,
-      Number.isFinite(timestamp) ? Math.floor(timestamp) : Date.now(),
-      message.selectedText || null,
-      screenshotImages.length ? JSON.stringify(screenshotImages) : null,
-      message.modelName || null,
-      message.reasoningSummary || null,
-      message.reasoningDetails || null,
-    ],
+    `UPDATE ${CHAT_THREADS_TABLE}
+     SET updated_at = ?
+     WHERE id = ?`,
+    [Date.now(), threadId],
   );
+  return Number.isFinite(insertedId) && insertedId > 0 ? insertedId : null;
 }
 
 export async function clearConversation(
@@ -259,18 +654,113 @@ export async function clearConversation(
      WHERE conversation_key = ?`,
     [normalizedKey],
   );
+  await Zotero.DB.queryAsync(
+    `DELETE FROM ${CHAT_THREADS_TABLE}
+     WHERE conversation_key = ?`,
+    [normalizedKey],
+  );
+  await Zotero.DB.queryAsync(
+    `DELETE FROM ${CONVERSATION_SUMMARIES_TABLE}
+     WHERE conversation_key = ?`,
+    [normalizedKey],
+  );
+}
+
+/** Delete the messages and summary of a thread, keeping the thread itself */
+export async function clearThread(threadId: number): Promise<void> {
+  if (!Number.isFinite(threadId)) return;
+
+  await Zotero.DB.queryAsync(
+    `DELETE FROM ${CHAT_MESSAGES_TABLE}
+     WHERE thread_id = ?`,
+    [threadId],
+  );
+  await deleteConversationSummary(threadId);
+}
+
+export async function loadConversationSummary(
+  threadId: number,
+): Promise<StoredConversationSummary | null> {
+  if (!Number.isFinite(threadId)) return null;
+
+  const rows = (await Zotero.DB.queryAsync(
+    `SELECT thread_id AS threadId,
+            conversation_key AS conversationKey,
+            text,
+            covered_message_id AS coveredMessageId,
+            updated_at AS updatedAt
+     FROM ${CONVERSATION_SUMMARIES_TABLE}
+     WHERE thread_id = ?`,
+    [threadId],
+  )) as
+    | Array<{
+        threadId: unknown;
+        conversationKey: unknown;
+        text: unknown;
+        coveredMessageId: unknown;
+        updatedAt: unknown;
+      }>
+    | undefined;
+  const row = rows?.[0];
+  if (!row || typeof row.text !== "string") return null;
+  const conversationKey = Number(row.conversationKey);
+  const coveredMessageId = Number(row.coveredMessageId);
+  const updatedAt = Number(row.updatedAt);
+  return {
+    threadId,
+    conversationKey: Number.isFinite(conversationKey) ? conversationKey : 0,
+    text: row.text,
+    coveredMessageId:
+      row.coveredMessageId !== null && coveredMessageId > 0
+        ? coveredMessageId
+        : null,
+    updatedAt: Number.isFinite(updatedAt) ? updatedAt : Date.now(),
+  };
+}
+
+export async function saveConversationSummary(
+  summary: Omit<StoredConversationSummary, "updatedAt">,
+): Promise<void> {
+  const normalizedKey = normalizeConversationKey(summary.conversationKey);
+  if (!normalizedKey || !Number.isFinite(summary.threadId)) return;
+
+  await Zotero.DB.queryAsync(
+    `INSERT OR REPLACE INTO ${CONVERSATION_SUMMARIES_TABLE}
+      (thread_id, conversation_key, text, covered_message_id, updated_at)
+     VALUES (?, ?, ?, ?, ?)`,
+    [
+      summary.threadId,
+      normalizedKey,
+      summary.text,
+      summary.coveredMessageId,
+      Date.now(),
+    ],
+  );
+}
+
+export async function deleteConversationSummary(
+  threadId: number,
+): Promise<void> {
+  if (!Number.isFinite(threadId)) return;
+
+  await Zotero.DB.queryAsync(
+    `DELETE FROM ${CONVERSATION_SUMMARIES_TABLE}
+     WHERE thread_id = ?`,
+    [threadId],
+  );
 }
 
 export async function pruneConversation(
   conversationKey: number,
+  threadId: number,
   keep: number,
 ): Promise<void> {
   const normalizedKey = normalizeConversationKey(conversationKey);
-  if (!normalizedKey) return;
+  if (!normalizedKey || !Number.isFinite(threadId)) return;
 
   const normalizedKeep = Number.isFinite(keep) ? Math.floor(keep) : 200;
   if (normalizedKeep <= 0) {
-    await clearConversation(normalizedKey);
+    await clearThread(threadId);
     return;
   }
 
@@ -279,10 +769,415 @@ export async function pruneConversation(
      WHERE id IN (
        SELECT id
        FROM ${CHAT_MESSAGES_TABLE}
-       WHERE conversation_key = ?
+       WHERE conversation_key = ? AND thread_id = ?
        ORDER BY timestamp DESC, id DESC
        LIMIT -1 OFFSET ?
      )`,
-    [normalizedKey, normalizedKeep],
+    [normalizedKey, threadId, normalizedKeep],
+  );
+}
+
+type ChatThreadRow = {
+  id: unknown;
+  conversationKey: unknown;
+  title: unknown;
+  autoTitle: unknown;
+  createdAt: unknown;
+  updatedAt: unknown;
+};
+
+const CHAT_THREAD_COLUMNS = `id,
+            conversation_key AS conversationKey,
+            title,
+            auto_title AS autoTitle,
+            created_at AS createdAt,
+            updated_at AS updatedAt`;
+
+function parseChatThreadRow(row: ChatThreadRow): StoredChatThread | null {
+  const id = Number(row.id);
+  const conversationKey = Number(row.conversationKey);
+  if (!Number.isFinite(id) || !Number.isFinite(conversationKey)) return null;
+  const createdAt = Number(row.createdAt);
+  const updatedAt = Number(row.updatedAt);
+  return {
+    id,
+    conversationKey,
+    title: typeof row.title === "string" ? row.title : DEFAULT_THREAD_TITLE,
+    autoTitle: Number(row.autoTitle) === 1,
+    createdAt: Number.isFinite(createdAt) ? createdAt : Date.now(),
+    updatedAt: Number.isFinite(updatedAt) ? updatedAt : Date.now(),
+  };
+}
+
+/** List the threads of a conversation, oldest first */
+export async function listThreads(
+  conversationKey: number,
+): Promise<StoredChatThread[]> {
+  const normalizedKey = normalizeConversationKey(conversationKey);
+  if (!normalizedKey) return [];
+
+  const rows = (await Zotero.DB.queryAsync(
+    `SELECT ${CHAT_THREAD_COLUMNS}
+     FROM ${CHAT_THREADS_TABLE}
+     WHERE conversation_key = ?
+     ORDER BY created_at ASC, id ASC`,
+    [normalizedKey],
+  )) as ChatThreadRow[] | undefined;
+
+  const threads: StoredChatThread[] = [];
+  for (const row of rows || []) {
+    const thread = parseChatThreadRow(row);
+    if (thread) threads.push(thread);
+  }
+  return threads;
+}
+
+export async function createThread(
+  conversationKey: number,
+  title: string,
+  autoTitle: boolean,
+): Promise<StoredChatThread | null> {
+  const normalizedKey = normalizeConversationKey(conversationKey);
+  if (!normalizedKey) return null;
+
+  const now = Date.now();
+  const id = Number(
+    await Zotero.DB.queryAsync(
+      `INSERT INTO ${CHAT_THREADS_TABLE}
+        (conversation_key, title, auto_title, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)`,
+      [normalizedKey, title, autoTitle ? 1 : 0, now, now],
+    ),
+  );
+  if (!Number.isFinite(id) || id <= 0) return null;
+  return {
+    id,
+    conversationKey: normalizedKey,
+    title,
+    autoTitle,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Set a thread title. User renames clear `autoTitle` so a generated title
+ * never overwrites them.
+ */
+export async function renameThread(
+  threadId: number,
+  title: string,
+  autoTitle = false,
+): Promise<void> {
+  if (!Number.isFinite(threadId)) return;
+
+  await Zotero.DB.queryAsync(
+    `UPDATE ${CHAT_THREADS_TABLE}
+     SET title = ?, auto_title = ?
+     WHERE id = ?`,
+    [title, autoTitle ? 1 : 0, threadId],
   );
 }
+
+export async function deleteThread(threadId: number): Promise<void> {
+  if (!Number.isFinite(threadId)) return;
+
+  await Zotero.DB.executeTransaction(async () => {
+    await clearThread(threadId);
+    await Zotero.DB.queryAsync(
+      `DELETE FROM ${CHAT_THREADS_TABLE}
+       WHERE id = ?`,
+      [threadId],
+    );
+  });
+}
+
+export function isGroupConversationKey(conversationKey: number): boolean {
+  return (
+    Number.isFinite(conversationKey) &&
+    conversationKey > GROUP_CONVERSATION_KEY_BASE
+  );
+}
+
+function normalizeGroupItemIds(itemIds: number[]): number[] {
+  const normalized = new Set<number>();
+  for (const itemId of itemIds) {
+    if (!Number.isFinite(itemId)) continue;
+    const id = Math.floor(itemId);
+    if (id > 0) normalized.add(id);
+  }
+  return Array.from(normalized).sort((a, b) => a - b);
+}
+
+/**
+ * Look up the group conversation for a set of items, creating it on first
+ * use. The same selection always maps to the same conversation key, so its
+ * history is restored when the group is opened again.
+ */
+export async function getOrCreateGroupConversation(
+  itemIds: number[],
+  label: string,
+): Promise<StoredGroupConversation | null> {
+  const normalizedIds = normalizeGroupItemIds(itemIds);
+  if (normalizedIds.length < 2) return null;
+  const serializedIds = JSON.stringify(normalizedIds);
+
+  const findExisting = async () =>
+    (await Zotero.DB.queryAsync(
+      `SELECT id, label, created_at AS createdAt
+       FROM ${GROUP_CONVERSATIONS_TABLE}
+       WHERE item_ids = ?`,
+      [serializedIds],
+    )) as
+      | Array<{ id: unknown; label: unknown; createdAt: unknown }>
+      | undefined;
+
+  let rows = await findExisting();
+  if (!rows?.length) {
+    await Zotero.DB.queryAsync(
+      `INSERT INTO ${GROUP_CONVERSATIONS_TABLE} (item_ids, label, created_at)
+       VALUES (?, ?, ?)`,
+      [serializedIds, label, Date.now()],
+    );
+    rows = await findExisting();
+  }
+
+  const row = rows?.[0];
+  const id = Number(row?.id);
+  if (!row || !Number.isFinite(id)) return null;
+  const createdAt = Number(row.createdAt);
+  return {
+    conversationKey: GROUP_CONVERSATION_KEY_BASE + id,
+    itemIds: normalizedIds,
+    label: typeof row.label === "string" ? row.label : label,
+    createdAt: Number.isFinite(createdAt) ? createdAt : Date.now(),
+  };
+}
+
+export async function getGroupConversationByKey(
+  conversationKey: number,
+): Promise<StoredGroupConversation | null> {
+  if (!isGroupConversationKey(conversationKey)) return null;
+
+  const rows = (await Zotero.DB.queryAsync(
+    `SELECT item_ids AS itemIds, label, created_at AS createdAt
+     FROM ${GROUP_CONVERSATIONS_TABLE}
+     WHERE id = ?`,
+    [conversationKey - GROUP_CONVERSATION_KEY_BASE],
+  )) as
+    | Array<{ itemIds: unknown; label: unknown; createdAt: unknown }>
+    | undefined;
+  const row = rows?.[0];
+  if (!row || typeof row.itemIds !== "string") return null;
+  let itemIds: number[] = [];
+  try {
+    const parsed = JSON.parse(row.itemIds) as unknown;
+    itemIds = Array.isArray(parsed) ? normalizeGroupItemIds(parsed) : [];
+  } catch (_err) {
+    return null;
+  }
+  const createdAt = Number(row.createdAt);
+  return {
+    conversationKey,
+    itemIds,
+    label: typeof row.label === "string" ? row.label : "",
+    createdAt: Number.isFinite(createdAt) ? createdAt : Date.now(),
+  };
+}
+
+export const SNIPPET_MATCH_START = "\u0002";
+export const SNIPPET_MATCH_END = "\u0003";
+
+function splitSearchTerms(query: string): string[] {
+  return query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, "").trim())
+    .filter(Boolean)
+    .slice(0, 12);
+}
+
+/** Quote every term so FTS5 operators in the query are taken literally */
+function buildFtsQuery(terms: string[]): string {
+  return terms
+    .map((term, index) =>
+      index === terms.length - 1 ? `"${term}"*` : `"${term}"`,
+    )
+    .join(" ");
+}
+
+function buildLikeSnippet(text: string, terms: string[]): string {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  const lower = normalized.toLowerCase();
+  const hits = terms
+    .map((term) => lower.indexOf(term.toLowerCase()))
+    .filter((position) => position >= 0);
+  const firstHit = hits.length ? Math.min(...hits) : 0;
+  const start = Math.max(0, firstHit - 60);
+  const end = Math.min(normalized.length, firstHit + 140);
+  let snippet = normalized.slice(start, end);
+  for (const term of terms) {
+    const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    snippet = snippet.replace(
+      new RegExp(escaped, "gi"),
+      (match) => `${SNIPPET_MATCH_START}${match}${SNIPPET_MATCH_END}`,
+    );
+  }
+  return `${start > 0 ? "…" : ""}${snippet}${end < normalized.length ? "…" : ""}`;
+}
+
+type ChatSearchRow = {
+  messageId: unknown;
+  conversationKey: unknown;
+  threadId: unknown;
+  threadTitle: unknown;
+  role: unknown;
+  text?: unknown;
+  snippet?: unknown;
+  timestamp: unknown;
+  modelName: unknown;
+};
+
+/**
+ * Search the text of every stored message, best matches first. Uses the
+ * FTS5 index when available and a LIKE scan otherwise.
+ */
+export async function searchChatMessages(
+  query: string,
+  limit: number,
+): Promise<ChatSearchHit[]> {
+  const terms = splitSearchTerms(query);
+  if (!terms.length) return [];
+  const normalizedLimit = normalizeLimit(limit, 50);
+
+  let rows: ChatSearchRow[] | undefined;
+  if (chatSearchIndexReady) {
+    rows = (await Zotero.DB.queryAsync(
+      `SELECT messages.id AS messageId,
+              messages.conversation_key AS conversationKey,
+              messages.thread_id AS threadId,
+              threads.title AS threadTitle,
+              messages.role AS role,
+              snippet(${CHAT_SEARCH_TABLE}, 0, char(2), char(3), '…', 24) AS snippet,
+              messages.timestamp AS timestamp,
+              messages.model_name AS modelName
+       FROM ${CHAT_SEARCH_TABLE}
+       JOIN ${CHAT_MESSAGES_TABLE} messages
+         ON messages.id = ${CHAT_SEARCH_TABLE}.rowid
+       LEFT JOIN ${CHAT_THREADS_TABLE} threads
+         ON threads.id = messages.thread_id
+       WHERE ${CHAT_SEARCH_TABLE} MATCH ?
+       ORDER BY bm25(${CHAT_SEARCH_TABLE}), messages.timestamp DESC
+       LIMIT ?`,
+      [buildFtsQuery(terms), normalizedLimit],
+    )) as ChatSearchRow[] | undefined;
+  } else {
+    rows = (await Zotero.DB.queryAsync(
+      `SELECT messages.id AS messageId,
+              messages.conversation_key AS conversationKey,
+              messages.thread_id AS threadId,
+              threads.title AS threadTitle,
+              messages.role AS role,
+              messages.text AS text,
+              messages.timestamp AS timestamp,
+              messages.model_name AS modelName
+       FROM ${CHAT_MESSAGES_TABLE} messages
+       LEFT JOIN ${CHAT_THREADS_TABLE} threads
+         ON threads.id = messages.thread_id
+       WHERE ${terms.map(() => "messages.text LIKE ? ESCAPE '\\'").join(" AND ")}
+       ORDER BY messages.timestamp DESC
+       LIMIT ?`,
+      [
+        ...terms.map((term) => `%${term.replace(/[\\%_]/g, "\\$&")}%`),
+        normalizedLimit,
+      ],
+    )) as ChatSearchRow[] | undefined;
+  }
+
+  const hits: ChatSearchHit[] = [];
+  for (const row of rows || []) {
+    const messageId = Number(row.messageId);
+    const conversationKey = Number(row.conversationKey);
+    if (!Number.isFinite(messageId) || !Number.isFinite(conversationKey)) {
+      continue;
+    }
+    const threadId = Number(row.threadId);
+    const timestamp = Number(row.timestamp);
+    hits.push({
+      messageId,
+      conversationKey,
+      threadId: row.threadId !== null && threadId > 0 ? threadId : null,
+      threadTitle:
+        typeof row.threadTitle === "string"
+          ? row.threadTitle
+          : DEFAULT_THREAD_TITLE,
+      role: row.role === "assistant" ? "assistant" : "user",
+      snippet:
+        typeof row.snippet === "string"
+          ? row.snippet
+          : buildLikeSnippet(
+              typeof row.text === "string" ? row.text : "",
+              terms,
+            ),
+      timestamp: Number.isFinite(timestamp) ? timestamp : 0,
+      modelName: typeof row.modelName === "string" ? row.modelName : undefined,
+    });
+  }
+  return hits;
+}
+
+/**
+ * Add the usage of one request to the usage log. The log is never pruned
+ * or cleared with conversations, so totals keep the spend of deleted chats.
+ */
+export async function recordUsageEvent(event: UsageEvent): Promise<void> {
+  await Zotero.DB.queryAsync(
+    `INSERT INTO ${USAGE_EVENTS_TABLE}
+      (timestamp, model_profile, model_name, prompt_tokens, completion_tokens, reasoning_tokens)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    [
+      Date.now(),
+      event.modelProfile,
+      event.modelName,
+      Math.round(event.promptTokens),
+      Math.round(event.completionTokens),
+      Math.round(event.reasoningTokens || 0),
+    ],
+  );
+}
+
+/** Sum the usage log per model profile and model */
+export async function getUsageTotals(): Promise<UsageTotals[]> {
+  const rows = (await Zotero.DB.queryAsync(
+    `SELECT model_profile AS modelProfile,
+            model_name AS modelName,
+            COUNT(*) AS requests,
+            SUM(prompt_tokens) AS promptTokens,
+            SUM(completion_tokens) AS completionTokens,
+            SUM(reasoning_tokens) AS reasoningTokens
+     FROM ${USAGE_EVENTS_TABLE}
+     GROUP BY modelProfile, modelName
+     ORDER BY modelProfile, modelName`,
+  )) as
+    | Array<{
+        modelProfile: unknown;
+        modelName: unknown;
+        requests: unknown;
+        promptTokens: unknown;
+        completionTokens: unknown;
+        reasoningTokens: unknown;
+      }>
+    | undefined;
+
+  const toCount = (value: unknown) => {
+    const count = Number(value);
+    return Number.isFinite(count) ? count : 0;
+  };
+  return (rows || []).map((row) => ({
+    modelProfile: typeof row.modelProfile === "string" ? row.modelProfile : "",
+    modelName: typeof row.modelName === "string" ? row.modelName : "",
+    requests: toCount(row.requests),
+    promptTokens: toCount(row.promptTokens),
+    completionTokens: toCount(row.completionTokens),
+    reasoningTokens: toCount(row.reasoningTokens),
+  }));
+}
@@ -0,0 +1,293 @@
+import {
+  DEFAULT_RETRIEVAL_SETTINGS,
+  getChunkingKey,
+} from "./retrievalSettings";
+
+export type StoredChunkStat = {
+  index: number;
+  length: number;
+  tf: Record<string, number>;
+  uniqueTerms: string[];
+};
+
+export type StoredEmbeddingIndex = {
+  attachmentId: number;
+  embeddingModel: string;
+  contentHash: string;
+  fileModifiedAt: number | null;
+  chunks: string[];
+  /** 1-based page of each chunk; empty when the text had no page breaks */
+  chunkPages?: number[];
+  /** Chunk size and overlap the text was split with, see `getChunkingKey` */
+  chunking: string;
+  chunkStats: StoredChunkStat[];
+  docFreq: Record<string, number>;
+  avgChunkLength: number;
+  fullLength: number;
+  embeddings?: number[][];
+};
+
+const EMBEDDING_INDEX_TABLE = "llm_for_zotero_embedding_index";
+
+function normalizeAttachmentId(attachmentId: number): number | null {
+  if (!Number.isFinite(attachmentId)) return null;
+  const normalized = Math.floor(attachmentId);
+  return normalized > 0 ? normalized : null;
+}
+
+function parseJsonColumn<T>(value: unknown, fallback: T): T {
+  if (typeof value !== "string" || !value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch (_err) {
+    return fallback;
+  }
+}
+
+/**
+ * Hash the extracted full text so a stored index can be matched against the
+ * current attachment content (FNV-1a, plus the length to make collisions on
+ * edited documents even less likely).
+ */
+export function hashDocumentText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16).padStart(8, "0")}-${text.length}`;
+}
+
+export async function initEmbeddingStore(): Promise<void> {
+  await Zotero.DB.executeTransaction(async () => {
+    await Zotero.DB.queryAsync(
+      `CREATE TABLE IF NOT EXISTS ${EMBEDDING_INDEX_TABLE} (
+        attachment_id INTEGER NOT NULL,
+        embedding_model TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        file_modified_at INTEGER,
+        chunks TEXT NOT NULL,
+        chunk_pages TEXT,
+        chunking TEXT,
+        chunk_stats TEXT NOT NULL,
+        doc_freq TEXT NOT NULL,
+        avg_chunk_length REAL NOT NULL,
+        full_length INTEGER NOT NULL,
+        embeddings TEXT,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (attachment_id, embedding_model, content_hash)
+      )`,
+    );
+
+    const columns = (await Zotero.DB.queryAsync(
+      `PRAGMA table_info(${EMBEDDING_INDEX_TABLE})`,
+    )) as Array<{ name?: unknown }> | undefined;
+    for (const name of ["chunk_pages", "chunking"]) {
+      if (columns?.some((column) => column?.name === name)) continue;
+      await Zotero.DB.queryAsync(
+        `ALTER TABLE ${EMBEDDING_INDEX_TABLE}
+         ADD COLUMN ${name} TEXT`,
+      );
+    }
+  });
+}
+
+type EmbeddingIndexRow = {
+  attachmentId?: unknown;
+  contentHash: unknown;
+  fileModifiedAt?: unknown;
+  chunks: unknown;
+  chunkPages?: unknown;
+  chunking?: unknown;
+  chunkStats: unknown;
+  docFreq: unknown;
+  avgChunkLength: unknown;
+  fullLength: unknown;
+  embeddings?: unknown;
+};
+
+const EMBEDDING_INDEX_COLUMNS = `content_hash AS contentHash,
+            file_modified_at AS fileModifiedAt,
+            chunks,
+            chunk_pages AS chunkPages,
+            chunking,
+            chunk_stats AS chunkStats,
+            doc_freq AS docFreq,
+            avg_chunk_length AS avgChunkLength,
+            full_length AS fullLength,
+            embeddings`;
+
+function parseEmbeddingIndexRow(
+  row: EmbeddingIndexRow | undefined,
+  attachmentId: number,
+  embeddingModel: string,
+): StoredEmbeddingIndex | null {
+  if (!row || typeof row.contentHash !== "string") return null;
+
+  const chunks = parseJsonColumn<unknown>(row.chunks, null);
+  const chunkStats = parseJsonColumn<unknown>(row.chunkStats, null);
+  if (
+    !Array.isArray(chunks) ||
+    !Array.isArray(chunkStats) ||
+    chunks.length !== chunkStats.length
+  ) {
+    return null;
+  }
+  const chunkPages = parseJsonColumn<unknown>(row.chunkPages, null);
+  const embeddings = parseJsonColumn<unknown>(row.embeddings, null);
+  const fileModifiedAt = Number(row.fileModifiedAt);
+  const avgChunkLength = Number(row.avgChunkLength);
+  const fullLength = Number(row.fullLength);
+
+  return {
+    attachmentId,
+    embeddingModel,
+    contentHash: row.contentHash,
+    fileModifiedAt:
+      row.fileModifiedAt !== null && Number.isFinite(fileModifiedAt)
+        ? fileModifiedAt
+        : null,
+    chunks: chunks as string[],
+    // Indexes stored before page tracking have no pages and get rebuilt.
+    chunkPages:
+      Array.isArray(chunkPages) &&
+      (chunkPages.length === 0 || chunkPages.length === chunks.length)
+        ? (chunkPages as number[])
+        : undefined,
+    // Indexes stored before chunking was configurable used the defaults.
+    chunking:
+      typeof row.chunking === "string" && row.chunking
+        ? row.chunking
+        : getChunkingKey(DEFAULT_RETRIEVAL_SETTINGS),
+    chunkStats: chunkStats as StoredChunkStat[],
+    docFreq: parseJsonColumn<Record<string, number>>(row.docFreq, {}),
+    avgChunkLength: Number.isFinite(avgChunkLength) ? avgChunkLength : 0,
+    fullLength: Number.isFinite(fullLength) ? fullLength : 0,
+    embeddings:
+      Array.isArray(embeddings) && embeddings.length === chunks.length
+        ? (embeddings as number[][])
+        : undefined,
+  };
+}
+
+/**
+ * Load the most recent stored index for an attachment and embedding model.
+ * The caller decides whether it is still valid (file time / content hash).
+ */
+export async function loadEmbeddingIndex(
+  attachmentId: number,
+  embeddingModel: string,
+): Promise<StoredEmbeddingIndex | null> {
+  const normalizedId = normalizeAttachmentId(attachmentId);
+  if (!normalizedId || !embeddingModel) return null;
+
+  const rows = (await Zotero.DB.queryAsync(
+    `SELECT ${EMBEDDING_INDEX_COLUMNS}
+     FROM ${EMBEDDING_INDEX_TABLE}
+     WHERE attachment_id = ? AND embedding_model = ?
+     ORDER BY updated_at DESC
+     LIMIT 1`,
+    [normalizedId, embeddingModel],
+  )) as EmbeddingIndexRow[] | undefined;
+
+  return parseEmbeddingIndexRow(rows?.[0], normalizedId, embeddingModel);
+}
+
+/**
+ * Load every stored index of a library for an embedding model, skipping
+ * attachments that are in the trash.
+ */
+export async function loadLibraryEmbeddingIndexes(
+  libraryID: number,
+  embeddingModel: string,
+): Promise<StoredEmbeddingIndex[]> {
+  if (!Number.isFinite(libraryID) || !embeddingModel) return [];
+
+  const rows = (await Zotero.DB.queryAsync(
+    `SELECT idx.attachment_id AS attachmentId,
+            ${EMBEDDING_INDEX_COLUMNS}
+     FROM ${EMBEDDING_INDEX_TABLE} idx
+     JOIN items ON items.itemID = idx.attachment_id
+     WHERE items.libraryID = ?
+       AND idx.embedding_model = ?
+       AND idx.attachment_id NOT IN (SELECT itemID FROM deletedItems)`,
+    [libraryID, embeddingModel],
+  )) as EmbeddingIndexRow[] | undefined;
+
+  const indexes: StoredEmbeddingIndex[] = [];
+  for (const row of rows || []) {
+    const attachmentId = normalizeAttachmentId(Number(row.attachmentId));
+    if (!attachmentId) continue;
+    const index = parseEmbeddingIndexRow(row, attachmentId, embeddingModel);
+    if (index) indexes.push(index);
+  }
+  return indexes;
+}
+
+/**
+ * Store the chunk index for an attachment, replacing any index built from
+ * older content for the same embedding model.
+ */
+export async function saveEmbeddingIndex(
+  index: StoredEmbeddingIndex,
+): Promise<void> {
+  const normalizedId = normalizeAttachmentId(index.attachmentId);
+  if (!normalizedId || !index.embeddingModel) return;
+
+  await Zotero.DB.executeTransaction(async () => {
+    await Zotero.DB.queryAsync(
+      `DELETE FROM ${EMBEDDING_INDEX_TABLE}
+       WHERE attachment_id = ? AND embedding_model = ?`,
+      [normalizedId, index.embeddingModel],
+    );
+    await Zotero.DB.queryAsync(
+      `INSERT INTO ${EMBEDDING_INDEX_TABLE}
+        (attachment_id, embedding_model, content_hash, file_modified_at, chunks, chunk_pages, chunking, chunk_stats, doc_freq, avg_chunk_length, full_length, embeddings, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        normalizedId,
+        index.embeddingModel,
+        index.contentHash,
+        index.fileModifiedAt,
+        JSON.stringify(index.chunks),
+        JSON.stringify(index.chunkPages || []),
+        index.chunking,
+        JSON.stringify(index.chunkStats),
+        JSON.stringify(index.docFreq),
+        index.avgChunkLength,
+        index.fullLength,
+        index.embeddings?.length ? JSON.stringify(index.embeddings) : null,
+        Date.now(),
+      ],
+    );
+  });
+}
+
+export async function updateEmbeddingIndexFileTime(
+  attachmentId: number,
+  contentHash: string,
+  fileModifiedAt: number | null,
+): Promise<void> {
+  const normalizedId = normalizeAttachmentId(attachmentId);
+  if (!normalizedId) return;
+
+  await Zotero.DB.queryAsync(
+    `UPDATE ${EMBEDDING_INDEX_TABLE}
+     SET file_modified_at = ?
+     WHERE attachment_id = ? AND content_hash = ?`,
+    [fileModifiedAt, normalizedId, contentHash],
+  );
+}
+
+export async function deleteEmbeddingIndex(
+  attachmentId: number,
+): Promise<void> {
+  const normalizedId = normalizeAttachmentId(attachmentId);
+  if (!normalizedId) return;
+
+  await Zotero.DB.queryAsync(
+    `DELETE FROM ${EMBEDDING_INDEX_TABLE}
+     WHERE attachment_id = ?`,
+    [normalizedId],
+  );
+}
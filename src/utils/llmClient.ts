@@ -1,7 +1,9 @@
 /**
  * LLM API Client
  *
- * Provides streaming and non-streaming API calls to OpenAI-compatible endpoints.
+ * Provides streaming and non-streaming API calls to OpenAI-compatible endpoints,
+ * the native Anthropic Messages and Gemini generateContent APIs, and local
+ * Ollama servers.
  */
 
 import { config } from "../../package.json";
@@ -21,11 +23,23 @@ import {
   API_ENDPOINT,
   RESPONSES_ENDPOINT,
   EMBEDDINGS_ENDPOINT,
+  ANTHROPIC_MESSAGES_ENDPOINT,
+  OLLAMA_CHAT_ENDPOINT,
+  OLLAMA_EMBED_ENDPOINT,
   resolveEndpoint,
+  resolveOllamaEndpoint,
   buildHeaders,
+  buildAnthropicHeaders,
+  buildGeminiHeaders,
+  resolveGeminiEndpoint,
+  resolveGeminiEmbeddingEndpoint,
   usesMaxCompletionTokens,
   isResponsesBase,
+  isAnthropicBase,
+  isGeminiNativeBase,
+  isOllamaBase,
 } from "./apiHelpers";
+import { recordUsageEvent } from "./chatStore";
 import { normalizeTemperature, normalizeMaxTokens } from "./normalization";
 
 // =============================================================================
@@ -138,6 +152,20 @@ export type ChatParams = {
   temperature?: number;
   /** Optional custom token budget for completion/output */
   maxTokens?: number;
+  /**
+   * Ask for a JSON object matching this schema (`callLLM` only). Applied
+   * as `response_format` / `text.format` (OpenAI), `responseJsonSchema`
+   * (Gemini) or `format` (Ollama); Anthropic has no equivalent, so callers
+   * should describe the schema in the prompt as well.
+   */
+  responseSchema?: JsonResponseSchema;
+  /** Model profile the token usage of this request is logged under */
+  modelProfile?: string;
+};
+
+export type JsonResponseSchema = {
+  name: string;
+  schema: Record<string, unknown>;
 };
 
 export type ReasoningEvent = {
@@ -145,6 +173,17 @@ export type ReasoningEvent = {
   details?: string;
 };
 
+/** Token counts reported by the provider for one request */
+export type TokenUsage = {
+  promptTokens: number;
+  /** Output tokens, including any reasoning tokens */
+  completionTokens: number;
+  /** Part of the output spent on reasoning, when reported separately */
+  reasoningTokens?: number;
+};
+
+type UsageCallback = (usage: TokenUsage) => void;
+
 interface StreamChoice {
   delta?: {
     content?: unknown;
@@ -167,12 +206,100 @@ interface CompletionResponse {
     message?: { content?: string };
     text?: string;
   }>;
+  usage?: OpenAIUsage;
+}
+
+interface AnthropicResponse {
+  content?: Array<{ type?: string; text?: string; thinking?: string }>;
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type?: string;
+  content_block?: { type?: string; text?: string; thinking?: string };
+  delta?: { type?: string; text?: string; thinking?: string };
+  error?: { type?: string; message?: string };
+  message?: { usage?: AnthropicUsage };
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      source:
+        | { type: "base64"; media_type: string; data: string }
+        | { type: "url"; url: string };
+    };
+
+type GeminiPart =
+  | { text: string; thought?: boolean }
+  | { inlineData: { mimeType: string; data: string } };
+
+type GeminiContent = {
+  role: "user" | "model";
+  parts: GeminiPart[];
+};
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string; thought?: boolean }> };
+    finishReason?: string;
+  }>;
+  promptFeedback?: { blockReason?: string };
+  error?: { message?: string; status?: string };
+  usageMetadata?: GeminiUsage;
+}
+
+interface GeminiUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+}
+
+type OllamaMessage = {
+  role: "user" | "assistant" | "system";
+  content: string;
+  images?: string[];
+};
+
+interface OllamaChatChunk {
+  message?: { content?: string; thinking?: string };
+  done?: boolean;
+  error?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+  input_tokens?: number;
+  output_tokens?: number;
+  output_tokens_details?: { reasoning_tokens?: number };
 }
 
 interface EmbeddingResponse {
   data?: Array<{ embedding?: number[] }>;
 }
 
+interface GeminiEmbeddingResponse {
+  embeddings?: Array<{ values?: number[] }>;
+}
+
+interface OllamaEmbeddingResponse {
+  embeddings?: number[][];
+  error?: string;
+}
+
 // =============================================================================
 // Constants
 // =============================================================================
@@ -190,6 +317,8 @@ When answering questions:
 
 const DEFAULT_MODEL = "gpt-4o-mini";
 const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+const DEFAULT_GEMINI_EMBEDDING_MODEL = "gemini-embedding-001";
+const DEFAULT_OLLAMA_EMBEDDING_MODEL = "nomic-embed-text";
 
 // =============================================================================
 // Utilities
@@ -198,13 +327,17 @@ const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
 const prefKey = (key: string) => `${config.prefsPrefix}.${key}`;
 const getPref = (key: string) => Zotero.Prefs.get(prefKey(key), true) as string;
 
+const getPrimaryApiBase = () =>
+  getPref("apiBasePrimary") || getPref("apiBase") || "";
+
 function getApiConfig(overrides?: {
   apiBase?: string;
   apiKey?: string;
   model?: string;
 }) {
-  const prefApiBase = getPref("apiBasePrimary") || getPref("apiBase") || "";
-  const apiBase = (overrides?.apiBase || prefApiBase).trim().replace(/\/$/, "");
+  const apiBase = (overrides?.apiBase || getPrimaryApiBase())
+    .trim()
+    .replace(/\/$/, "");
   const apiKey = (
     overrides?.apiKey ||
     getPref("apiKeyPrimary") ||
@@ -214,8 +347,6 @@ function getApiConfig(overrides?: {
   const modelPrimary =
     getPref("modelPrimary") || getPref("model") || DEFAULT_MODEL;
   const model = (overrides?.model || modelPrimary).trim();
-  const embeddingModel = getPref("embeddingModel") || DEFAULT_EMBEDDING_MODEL;
-  const customSystemPrompt = getPref("systemPrompt") || "";
 
   if (!apiBase) {
     throw new Error("API URL is missing in preferences");
@@ -225,11 +356,33 @@ function getApiConfig(overrides?: {
     apiBase,
     apiKey,
     model,
-    embeddingModel,
-    systemPrompt: customSystemPrompt || DEFAULT_SYSTEM_PROMPT,
+    systemPrompt: getSystemPrompt(),
   };
 }
 
+/** System prompt sent with every chat request */
+export function getSystemPrompt(): string {
+  return getPref("systemPrompt") || DEFAULT_SYSTEM_PROMPT;
+}
+
+/**
+ * Embedding model set in preferences, or the default of the API at
+ * `apiBase` (the primary profile's when omitted)
+ */
+export function getEmbeddingModel(apiBase?: string): string {
+  const configured = (getPref("embeddingModel") || "").trim();
+  if (configured) return configured;
+  const base = apiBase || getPrimaryApiBase();
+  if (isGeminiNativeBase(base)) return DEFAULT_GEMINI_EMBEDDING_MODEL;
+  if (isOllamaBase(base)) return DEFAULT_OLLAMA_EMBEDDING_MODEL;
+  return DEFAULT_EMBEDDING_MODEL;
+}
+
+/** Whether the API at `apiBase` has an embeddings endpoint; Anthropic has none */
+export function supportsEmbeddings(apiBase?: string): boolean {
+  return !isAnthropicBase(apiBase || getPrimaryApiBase());
+}
+
 /** Build messages array from params */
 function buildMessages(
   params: ChatParams,
@@ -332,6 +485,78 @@ type ThoughtTagState = {
   buffer: string;
 };
 
+function toTokenUsage(
+  promptTokens: unknown,
+  completionTokens: unknown,
+  reasoningTokens?: unknown,
+): TokenUsage | null {
+  const prompt = Number(promptTokens);
+  const completion = Number(completionTokens);
+  const reasoning = Number(reasoningTokens);
+  if (!Number.isFinite(prompt) && !Number.isFinite(completion)) return null;
+  return {
+    promptTokens: Number.isFinite(prompt) ? prompt : 0,
+    completionTokens: Number.isFinite(completion) ? completion : 0,
+    reasoningTokens:
+      Number.isFinite(reasoning) && reasoning > 0 ? reasoning : undefined,
+  };
+}
+
+/** Usage of the Chat Completions (`prompt_tokens`) or Responses API shape */
+function parseOpenAIUsage(usage: OpenAIUsage | undefined): TokenUsage | null {
+  if (!usage) return null;
+  return usage.input_tokens !== undefined || usage.output_tokens !== undefined
+    ? toTokenUsage(
+        usage.input_tokens,
+        usage.output_tokens,
+        usage.output_tokens_details?.reasoning_tokens,
+      )
+    : toTokenUsage(
+        usage.prompt_tokens,
+        usage.completion_tokens,
+        usage.completion_tokens_details?.reasoning_tokens,
+      );
+}
+
+/** Usage of a Messages API response, cached input included */
+function parseAnthropicUsage(
+  usage: AnthropicUsage | undefined,
+): TokenUsage | null {
+  if (!usage) return null;
+  return toTokenUsage(
+    (usage.input_tokens || 0) +
+      (usage.cache_creation_input_tokens || 0) +
+      (usage.cache_read_input_tokens || 0),
+    usage.output_tokens,
+  );
+}
+
+/** Gemini `usageMetadata`; thoughts are billed as output */
+function parseGeminiUsage(
+  metadata: GeminiUsage | undefined,
+): TokenUsage | null {
+  if (!metadata) return null;
+  return toTokenUsage(
+    metadata.promptTokenCount,
+    (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+    metadata.thoughtsTokenCount,
+  );
+}
+
+/** Add the usage of a request to the usage log; failures are only logged */
+function logUsage(
+  params: ChatParams,
+  model: string,
+  usage: TokenUsage | null,
+): void {
+  if (!usage) return;
+  void recordUsageEvent({
+    ...usage,
+    modelProfile: params.modelProfile || "",
+    modelName: model,
+  }).catch((err) => ztoolkit.log("LLM: Failed to record token usage", err));
+}
+
 function getPartialTagTailLength(text: string, tag: string): number {
   const textLower = text.toLowerCase();
   const tagLower = tag.toLowerCase();
@@ -562,6 +787,37 @@ function resolveGeminiReasoningOption(
   return profile.options[0] || { level: "medium", value: profile.defaultValue };
 }
 
+/**
+ * Resolve the Gemini thinking setting for a level, keeping the request valid
+ * if a stale/unsupported level is selected.
+ */
+function resolveGeminiThinkingSetting(
+  level: ReasoningLevel,
+  modelName?: string,
+): { budget?: number; level?: "low" | "medium" | "high" } {
+  const profile = getGeminiReasoningProfile(modelName);
+  const resolvedOption = resolveGeminiReasoningOption(level, profile);
+  if (profile.param === "thinking_budget") {
+    return {
+      budget:
+        typeof resolvedOption.value === "number" ? resolvedOption.value : 8192,
+    };
+  }
+  return {
+    level:
+      resolvedOption.value === "low" ||
+      resolvedOption.value === "medium" ||
+      resolvedOption.value === "high"
+        ? resolvedOption.value
+        : "medium",
+  };
+}
+
+function parseDataUrl(url: string): { mimeType: string; data: string } | null {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/s);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+}
+
 function stringifyContent(content: MessageContent): string {
   if (typeof content === "string") return content;
   return content
@@ -672,26 +928,14 @@ function buildReasoningPayload(
   }
 
   if (reasoning.provider === "gemini") {
-    const profile = getGeminiReasoningProfile(modelName);
-    const resolvedOption = resolveGeminiReasoningOption(
-      reasoning.level,
-      profile,
-    );
-
-    // Keep request valid if a stale/unsupported level is selected.
+    const thinking = resolveGeminiThinkingSetting(reasoning.level, modelName);
     const thinkingConfig: Record<string, unknown> = {
       include_thoughts: true,
     };
-    if (profile.param === "thinking_budget") {
-      thinkingConfig.thinking_budget =
-        typeof resolvedOption.value === "number" ? resolvedOption.value : 8192;
+    if (thinking.budget !== undefined) {
+      thinkingConfig.thinking_budget = thinking.budget;
     } else {
-      thinkingConfig.thinking_level =
-        resolvedOption.value === "low" ||
-        resolvedOption.value === "medium" ||
-        resolvedOption.value === "high"
-          ? resolvedOption.value
-          : "medium";
+      thinkingConfig.thinking_level = thinking.level;
     }
 
     return {
@@ -778,6 +1022,9 @@ function createChatPayloadBuilder(params: {
   effectiveTemperature: number;
   effectiveMaxTokens: number;
   stream: boolean;
+  responseSchema?: JsonResponseSchema;
+  /** Ask Chat Completions streams for a final `usage` chunk */
+  includeUsage?: boolean;
 }) {
   const {
     model,
@@ -787,6 +1034,8 @@ function createChatPayloadBuilder(params: {
     effectiveTemperature,
     effectiveMaxTokens,
     stream,
+    responseSchema,
+    includeUsage,
   } = params;
   return (reasoningOverride: ReasoningConfig | undefined) => {
     const reasoningPayload = buildReasoningPayload(
@@ -806,6 +1055,18 @@ function createChatPayloadBuilder(params: {
           ...reasoningPayload.extra,
           ...temperatureParam,
           ...buildResponsesTokenParam(effectiveMaxTokens),
+          ...(responseSchema
+            ? {
+                text: {
+                  format: {
+                    type: "json_schema",
+                    name: responseSchema.name,
+                    schema: responseSchema.schema,
+                    strict: true,
+                  },
+                },
+              }
+            : {}),
         }
       : {
           model,
@@ -813,12 +1074,27 @@ function createChatPayloadBuilder(params: {
           ...reasoningPayload.extra,
           ...temperatureParam,
           ...buildTokenParam(model, effectiveMaxTokens),
+          ...(responseSchema
+            ? {
+                response_format: {
+                  type: "json_schema",
+                  json_schema: {
+                    name: responseSchema.name,
+                    schema: responseSchema.schema,
+                    strict: true,
+                  },
+                },
+              }
+            : {}),
         };
 
     if (stream) {
       return {
         ...payload,
         stream: true,
+        ...(includeUsage && !useResponses
+          ? { stream_options: { include_usage: true } }
+          : {}),
       } as Record<string, unknown>;
     }
     return payload as Record<string, unknown>;
@@ -915,6 +1191,7 @@ async function postWithTemperatureFallback(params: {
   apiKey: string;
   payload: Record<string, unknown>;
   signal?: AbortSignal;
+  headers?: Record<string, string>;
 }) {
   const policyKey = getTemperaturePolicyKey(params.url, params.payload);
   const hasTemperature = Object.prototype.hasOwnProperty.call(
@@ -924,7 +1201,7 @@ async function postWithTemperatureFallback(params: {
   const send = (bodyPayload: Record<string, unknown>) =>
     getFetch()(params.url, {
       method: "POST",
-      headers: buildHeaders(params.apiKey),
+      headers: params.headers || buildHeaders(params.apiKey),
       body: JSON.stringify(bodyPayload),
       signal: params.signal,
     });
@@ -1009,6 +1286,7 @@ async function postWithReasoningFallback(params: {
     reasoningOverride: ReasoningConfig | undefined,
   ) => Record<string, unknown>;
   signal?: AbortSignal;
+  headers?: Record<string, string>;
 }) {
   let reasoningSelection = params.initialReasoning;
   let retries = 0;
@@ -1028,6 +1306,7 @@ async function postWithReasoningFallback(params: {
         apiKey: params.apiKey,
         payload,
         signal: params.signal,
+        headers: params.headers,
       });
     } catch (err) {
       lastError = err;
@@ -1072,6 +1351,338 @@ function extractResponsesOutputText(data: {
   return firstText || JSON.stringify(data);
 }
 
+// =============================================================================
+// Anthropic Messages API
+// =============================================================================
+
+function toAnthropicImageBlock(url: string): AnthropicContentBlock {
+  const inline = parseDataUrl(url);
+  if (inline) {
+    return {
+      type: "image",
+      source: {
+        type: "base64",
+        media_type: inline.mimeType,
+        data: inline.data,
+      },
+    };
+  }
+  return { type: "image", source: { type: "url", url } };
+}
+
+/**
+ * Convert chat messages into the Messages API shape: system prompts move to
+ * the top-level `system` field and image parts become Anthropic image blocks.
+ */
+function buildAnthropicInput(messages: ChatMessage[]) {
+  const systemParts: string[] = [];
+  const anthropicMessages: Array<{
+    role: "user" | "assistant";
+    content: string | AnthropicContentBlock[];
+  }> = [];
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      const text = stringifyContent(message.content);
+      if (text) systemParts.push(text);
+      continue;
+    }
+
+    if (typeof message.content === "string") {
+      anthropicMessages.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const blocks = message.content.map(
+      (part): AnthropicContentBlock =>
+        part.type === "text"
+          ? { type: "text", text: part.text }
+          : toAnthropicImageBlock(part.image_url.url),
+    );
+    anthropicMessages.push({ role: message.role, content: blocks });
+  }
+
+  return {
+    system: systemParts.length ? systemParts.join("\n\n") : undefined,
+    messages: anthropicMessages,
+  };
+}
+
+function createAnthropicPayloadBuilder(params: {
+  model: string;
+  messages: ChatMessage[];
+  apiBase: string;
+  effectiveTemperature: number;
+  effectiveMaxTokens: number;
+  stream: boolean;
+}) {
+  const {
+    model,
+    messages,
+    apiBase,
+    effectiveTemperature,
+    effectiveMaxTokens,
+    stream,
+  } = params;
+  const input = buildAnthropicInput(messages);
+  return (reasoningOverride: ReasoningConfig | undefined) => {
+    // Only Anthropic-style thinking is meaningful on this transport.
+    const reasoningPayload: {
+      extra: Record<string, unknown>;
+      omitTemperature: boolean;
+    } =
+      reasoningOverride?.provider === "anthropic"
+        ? buildReasoningPayload(reasoningOverride, false, model, apiBase)
+        : emptyReasoningPayload();
+    const thinking = reasoningPayload.extra.thinking as
+      | { budget_tokens?: number }
+      | undefined;
+    const budgetTokens = thinking?.budget_tokens || 0;
+
+    const payload: Record<string, unknown> = {
+      model,
+      ...input,
+      // max_tokens must exceed the thinking budget.
+      max_tokens:
+        budgetTokens >= effectiveMaxTokens
+          ? budgetTokens + effectiveMaxTokens
+          : effectiveMaxTokens,
+      ...reasoningPayload.extra,
+    };
+    // Extended thinking rejects custom temperature values.
+    if (!thinking) {
+      payload.temperature = effectiveTemperature;
+    }
+    if (stream) {
+      payload.stream = true;
+    }
+    return payload;
+  };
+}
+
+function extractAnthropicOutputText(data: AnthropicResponse): string {
+  const text = (data?.content || [])
+    .filter((block) => block.type === "text" && block.text)
+    .map((block) => block.text)
+    .join("");
+  return text || JSON.stringify(data);
+}
+
+// =============================================================================
+// Gemini generateContent API
+// =============================================================================
+
+/**
+ * Convert chat messages into Gemini `contents`: system prompts move to
+ * `systemInstruction`, assistant turns become `model`, screenshots become
+ * `inlineData` parts, and consecutive same-role turns are merged.
+ */
+function buildGeminiInput(messages: ChatMessage[]) {
+  const systemParts: string[] = [];
+  const contents: GeminiContent[] = [];
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      const text = stringifyContent(message.content);
+      if (text) systemParts.push(text);
+      continue;
+    }
+
+    const parts: GeminiPart[] = [];
+    if (typeof message.content === "string") {
+      if (message.content) parts.push({ text: message.content });
+    } else {
+      for (const part of message.content) {
+        if (part.type === "text") {
+          if (part.text) parts.push({ text: part.text });
+          continue;
+        }
+        const inline = parseDataUrl(part.image_url.url);
+        parts.push(
+          inline
+            ? { inlineData: inline }
+            : { text: `[Image: ${part.image_url.url}]` },
+        );
+      }
+    }
+    if (!parts.length) continue;
+
+    const role = message.role === "assistant" ? "model" : "user";
+    const previous = contents[contents.length - 1];
+    if (previous && previous.role === role) {
+      previous.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  }
+
+  return {
+    systemInstruction: systemParts.length
+      ? { parts: [{ text: systemParts.join("\n\n") }] }
+      : undefined,
+    contents,
+  };
+}
+
+function createGeminiPayloadBuilder(params: {
+  model: string;
+  messages: ChatMessage[];
+  effectiveTemperature: number;
+  effectiveMaxTokens: number;
+  responseSchema?: JsonResponseSchema;
+}) {
+  const {
+    model,
+    messages,
+    effectiveTemperature,
+    effectiveMaxTokens,
+    responseSchema,
+  } = params;
+  const input = buildGeminiInput(messages);
+  return (reasoningOverride: ReasoningConfig | undefined) => {
+    const generationConfig: Record<string, unknown> = {
+      temperature: effectiveTemperature,
+      maxOutputTokens: effectiveMaxTokens,
+    };
+    if (responseSchema) {
+      generationConfig.responseMimeType = "application/json";
+      generationConfig.responseJsonSchema = responseSchema.schema;
+    }
+    // Only Gemini-style thinking is meaningful on this transport.
+    if (
+      reasoningOverride?.provider === "gemini" &&
+      supportsReasoningForModel("gemini", model)
+    ) {
+      const thinking = resolveGeminiThinkingSetting(
+        reasoningOverride.level,
+        model,
+      );
+      generationConfig.thinkingConfig =
+        thinking.budget !== undefined
+          ? { includeThoughts: true, thinkingBudget: thinking.budget }
+          : { includeThoughts: true, thinkingLevel: thinking.level };
+    }
+    return {
+      ...input,
+      generationConfig,
+    } as Record<string, unknown>;
+  };
+}
+
+const GEMINI_BLOCKING_FINISH_REASONS = new Set([
+  "SAFETY",
+  "RECITATION",
+  "BLOCKLIST",
+  "PROHIBITED_CONTENT",
+  "SPII",
+  "IMAGE_SAFETY",
+]);
+
+/** Describe why Gemini refused a prompt or stopped a response, if it did. */
+function getGeminiBlockMessage(data: GeminiResponse): string {
+  if (data?.error?.message) {
+    return data.error.message;
+  }
+  const blockReason = data?.promptFeedback?.blockReason;
+  if (blockReason) {
+    return `Gemini blocked the prompt (${blockReason})`;
+  }
+  const finishReason = data?.candidates?.[0]?.finishReason;
+  if (finishReason && GEMINI_BLOCKING_FINISH_REASONS.has(finishReason)) {
+    return `Gemini stopped the response (${finishReason})`;
+  }
+  return "";
+}
+
+function extractGeminiOutputText(data: GeminiResponse): string {
+  const text = (data?.candidates?.[0]?.content?.parts || [])
+    .filter((part) => !part.thought && part.text)
+    .map((part) => part.text)
+    .join("");
+  if (text) return text;
+  const blockMessage = getGeminiBlockMessage(data);
+  if (blockMessage) {
+    throw new Error(blockMessage);
+  }
+  return JSON.stringify(data);
+}
+
+// =============================================================================
+// Ollama chat API
+// =============================================================================
+
+/**
+ * Convert chat messages for Ollama `/api/chat`: content is plain text and
+ * images travel as bare base64 strings in `images`.
+ */
+function buildOllamaMessages(messages: ChatMessage[]): OllamaMessage[] {
+  return messages.map((message) => {
+    if (typeof message.content === "string") {
+      return { role: message.role, content: message.content };
+    }
+    const images: string[] = [];
+    for (const part of message.content) {
+      if (part.type !== "image_url") continue;
+      const inline = parseDataUrl(part.image_url.url);
+      if (inline) images.push(inline.data);
+    }
+    return {
+      role: message.role,
+      content: stringifyContent(message.content),
+      ...(images.length ? { images } : {}),
+    };
+  });
+}
+
+function createOllamaPayloadBuilder(params: {
+  model: string;
+  messages: ChatMessage[];
+  effectiveTemperature: number;
+  effectiveMaxTokens: number;
+  stream: boolean;
+  responseSchema?: JsonResponseSchema;
+}) {
+  const {
+    model,
+    messages,
+    effectiveTemperature,
+    effectiveMaxTokens,
+    stream,
+    responseSchema,
+  } = params;
+  const ollamaMessages = buildOllamaMessages(messages);
+  return (reasoningOverride: ReasoningConfig | undefined) => {
+    const payload: Record<string, unknown> = {
+      model,
+      messages: ollamaMessages,
+      stream,
+      options: {
+        temperature: effectiveTemperature,
+        num_predict: effectiveMaxTokens,
+      },
+    };
+    if (responseSchema) {
+      payload.format = responseSchema.schema;
+    }
+    if (
+      reasoningOverride &&
+      supportsReasoningForModel(reasoningOverride.provider, model)
+    ) {
+      const enableThinking =
+        reasoningOverride.provider === "qwen"
+          ? resolveQwenEnableThinking(
+              reasoningOverride.level,
+              getQwenReasoningProfile(model),
+            )
+          : true;
+      if (enableThinking !== null) {
+        payload.think = enableThinking;
+      }
+    }
+    return payload;
+  };
+}
+
 // =============================================================================
 // API Functions
 // =============================================================================
@@ -1086,10 +1697,81 @@ export async function callLLM(params: ChatParams): Promise<string> {
     model: params.model,
   });
   const messages = buildMessages(params, systemPrompt);
-  const useResponses = isResponsesBase(apiBase);
   const effectiveTemperature = normalizeTemperature(params.temperature);
   const effectiveMaxTokens = normalizeMaxTokens(params.maxTokens);
 
+  if (isAnthropicBase(apiBase)) {
+    const res = await postWithReasoningFallback({
+      url: resolveEndpoint(apiBase, ANTHROPIC_MESSAGES_ENDPOINT),
+      apiKey,
+      modelName: model,
+      initialReasoning: params.reasoning,
+      buildPayload: createAnthropicPayloadBuilder({
+        model,
+        messages,
+        apiBase,
+        effectiveTemperature,
+        effectiveMaxTokens,
+        stream: false,
+      }),
+      signal: params.signal,
+      headers: buildAnthropicHeaders(apiKey),
+    });
+    const data = (await res.json()) as AnthropicResponse;
+    logUsage(params, model, parseAnthropicUsage(data.usage));
+    return extractAnthropicOutputText(data);
+  }
+
+  if (isGeminiNativeBase(apiBase)) {
+    const res = await postWithReasoningFallback({
+      url: resolveGeminiEndpoint(apiBase, model, false),
+      apiKey,
+      modelName: model,
+      initialReasoning: params.reasoning,
+      buildPayload: createGeminiPayloadBuilder({
+        model,
+        messages,
+        effectiveTemperature,
+        effectiveMaxTokens,
+        responseSchema: params.responseSchema,
+      }),
+      signal: params.signal,
+      headers: buildGeminiHeaders(apiKey),
+    });
+    const data = (await res.json()) as GeminiResponse;
+    logUsage(params, model, parseGeminiUsage(data.usageMetadata));
+    return extractGeminiOutputText(data);
+  }
+
+  if (isOllamaBase(apiBase)) {
+    const res = await postWithReasoningFallback({
+      url: resolveOllamaEndpoint(apiBase, OLLAMA_CHAT_ENDPOINT),
+      apiKey,
+      modelName: model,
+      initialReasoning: params.reasoning,
+      buildPayload: createOllamaPayloadBuilder({
+        model,
+        messages,
+        effectiveTemperature,
+        effectiveMaxTokens,
+        stream: false,
+        responseSchema: params.responseSchema,
+      }),
+      signal: params.signal,
+    });
+    const data = (await res.json()) as OllamaChatChunk;
+    if (data?.error) {
+      throw new Error(data.error);
+    }
+    logUsage(
+      params,
+      model,
+      toTokenUsage(data?.prompt_eval_count, data?.eval_count),
+    );
+    return data?.message?.content ?? JSON.stringify(data);
+  }
+
+  const useResponses = isResponsesBase(apiBase);
   const url = resolveEndpoint(
     apiBase,
     useResponses ? RESPONSES_ENDPOINT : API_ENDPOINT,
@@ -1102,6 +1784,7 @@ export async function callLLM(params: ChatParams): Promise<string> {
     effectiveTemperature,
     effectiveMaxTokens,
     stream: false,
+    responseSchema: params.responseSchema,
   });
   const res = await postWithReasoningFallback({
     url,
@@ -1116,6 +1799,7 @@ export async function callLLM(params: ChatParams): Promise<string> {
     output_text?: string;
     output?: Array<{ content?: Array<{ type?: string; text?: string }> }>;
   };
+  logUsage(params, model, parseOpenAIUsage(data?.usage));
   if (useResponses) {
     return extractResponsesOutputText(data);
   }
@@ -1133,6 +1817,7 @@ export async function callLLMStream(
   params: ChatParams,
   onDelta: (delta: string) => void,
   onReasoning?: (event: ReasoningEvent) => void,
+  onUsage?: UsageCallback,
 ): Promise<string> {
   const { apiBase, apiKey, model, systemPrompt } = getApiConfig({
     apiBase: params.apiBase,
@@ -1140,31 +1825,114 @@ export async function callLLMStream(
     model: params.model,
   });
   const messages = buildMessages(params, systemPrompt);
-  const useResponses = isResponsesBase(apiBase);
   const effectiveTemperature = normalizeTemperature(params.temperature);
   const effectiveMaxTokens = normalizeMaxTokens(params.maxTokens);
+  const reportUsage: UsageCallback = (usage) => {
+    logUsage(params, model, usage);
+    onUsage?.(usage);
+  };
+
+  if (isAnthropicBase(apiBase)) {
+    const res = await postWithReasoningFallback({
+      url: resolveEndpoint(apiBase, ANTHROPIC_MESSAGES_ENDPOINT),
+      apiKey,
+      modelName: model,
+      initialReasoning: params.reasoning,
+      buildPayload: createAnthropicPayloadBuilder({
+        model,
+        messages,
+        apiBase,
+        effectiveTemperature,
+        effectiveMaxTokens,
+        stream: true,
+      }),
+      signal: params.signal,
+      headers: buildAnthropicHeaders(apiKey),
+    });
+    if (!res.body) {
+      return callLLM(params);
+    }
+    return parseAnthropicStream(res.body, onDelta, onReasoning, reportUsage);
+  }
+
+  if (isGeminiNativeBase(apiBase)) {
+    const res = await postWithReasoningFallback({
+      url: resolveGeminiEndpoint(apiBase, model, true),
+      apiKey,
+      modelName: model,
+      initialReasoning: params.reasoning,
+      buildPayload: createGeminiPayloadBuilder({
+        model,
+        messages,
+        effectiveTemperature,
+        effectiveMaxTokens,
+      }),
+      signal: params.signal,
+      headers: buildGeminiHeaders(apiKey),
+    });
+    if (!res.body) {
+      return callLLM(params);
+    }
+    return parseGeminiStream(res.body, onDelta, onReasoning, reportUsage);
+  }
+
+  if (isOllamaBase(apiBase)) {
+    const res = await postWithReasoningFallback({
+      url: resolveOllamaEndpoint(apiBase, OLLAMA_CHAT_ENDPOINT),
+      apiKey,
+      modelName: model,
+      initialReasoning: params.reasoning,
+      buildPayload: createOllamaPayloadBuilder({
+        model,
+        messages,
+        effectiveTemperature,
+        effectiveMaxTokens,
+        stream: true,
+      }),
+      signal: params.signal,
+    });
+    if (!res.body) {
+      return callLLM(params);
+    }
+    return parseOllamaStream(res.body, onDelta, onReasoning, reportUsage);
+  }
 
+  const useResponses = isResponsesBase(apiBase);
   const url = resolveEndpoint(
     apiBase,
     useResponses ? RESPONSES_ENDPOINT : API_ENDPOINT,
   );
-  const buildPayload = createChatPayloadBuilder({
-    model,
-    messages,
-    useResponses,
-    apiBase,
-    effectiveTemperature,
-    effectiveMaxTokens,
-    stream: true,
-  });
-  const res = await postWithReasoningFallback({
-    url,
-    apiKey,
-    modelName: model,
-    initialReasoning: params.reasoning,
-    buildPayload,
-    signal: params.signal,
-  });
+  const postStream = (includeUsage: boolean) =>
+    postWithReasoningFallback({
+      url,
+      apiKey,
+      modelName: model,
+      initialReasoning: params.reasoning,
+      buildPayload: createChatPayloadBuilder({
+        model,
+        messages,
+        useResponses,
+        apiBase,
+        effectiveTemperature,
+        effectiveMaxTokens,
+        stream: true,
+        includeUsage,
+      }),
+      signal: params.signal,
+    });
+  let res: Response;
+  try {
+    res = await postStream(!useResponses);
+  } catch (err) {
+    // Some OpenAI-compatible servers reject `stream_options`.
+    if (
+      useResponses ||
+      !/stream_options/i.test((err as Error)?.message || "")
+    ) {
+      throw err;
+    }
+    res = await postStream(false);
+  }
 
   // Fallback to non-streaming if body is not available
   if (!res.body) {
@@ -1172,41 +1940,79 @@ export async function callLLMStream(
   }
 
   return useResponses
-    ? parseResponsesStream(res.body, onDelta, onReasoning)
-    : parseStreamResponse(res.body, onDelta, onReasoning);
+    ? parseResponsesStream(res.body, onDelta, onReasoning, reportUsage)
+    : parseStreamResponse(res.body, onDelta, onReasoning, reportUsage);
+}
+
+async function postEmbeddingRequest<T>(
+  url: string,
+  headers: Record<string, string>,
+  payload: unknown,
+): Promise<T> {
+  const res = await getFetch()(url, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`${res.status} ${res.statusText} - ${text}`);
+  }
+  return (await res.json()) as T;
 }
 
 /**
- * Call embeddings API
+ * Call embeddings API: `batchEmbedContents` for native Gemini, `/api/embed`
+ * for Ollama and `/v1/embeddings` otherwise. Check `supportsEmbeddings`
+ * first; Anthropic has no embeddings endpoint.
  */
 export async function callEmbeddings(
   input: string[],
   overrides?: { apiBase?: string; apiKey?: string },
 ): Promise<number[][]> {
-  const { apiBase, apiKey, embeddingModel } = getApiConfig({
+  const { apiBase, apiKey } = getApiConfig({
     apiBase: overrides?.apiBase,
     apiKey: overrides?.apiKey,
   });
-  const payload = {
-    model: embeddingModel,
-    input,
-  };
+  const embeddingModel = getEmbeddingModel(apiBase);
 
-  const url = resolveEndpoint(apiBase, EMBEDDINGS_ENDPOINT);
-  const res = await getFetch()(url, {
-    method: "POST",
-    headers: buildHeaders(apiKey),
-    body: JSON.stringify(payload),
-  });
+  if (isAnthropicBase(apiBase)) {
+    throw new Error("The Anthropic API has no embeddings endpoint");
+  }
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`${res.status} ${res.statusText} - ${text}`);
+  if (isGeminiNativeBase(apiBase)) {
+    const model = `models/${embeddingModel.replace(/^models\//, "")}`;
+    const data = await postEmbeddingRequest<GeminiEmbeddingResponse>(
+      resolveGeminiEmbeddingEndpoint(apiBase, embeddingModel),
+      buildGeminiHeaders(apiKey),
+      {
+        requests: input.map((text) => ({
+          model,
+          content: { parts: [{ text }] },
+        })),
+      },
+    );
+    return data?.embeddings?.map((item) => item.values || []) || [];
+  }
+
+  if (isOllamaBase(apiBase)) {
+    const data = await postEmbeddingRequest<OllamaEmbeddingResponse>(
+      resolveOllamaEndpoint(apiBase, OLLAMA_EMBED_ENDPOINT),
+      buildHeaders(apiKey),
+      { model: embeddingModel, input },
+    );
+    if (data?.error) {
+      throw new Error(data.error);
+    }
+    return data?.embeddings || [];
   }
 
-  const data = (await res.json()) as EmbeddingResponse;
-  const embeddings = data?.data?.map((item) => item.embedding || []) || [];
-  return embeddings;
+  const data = await postEmbeddingRequest<EmbeddingResponse>(
+    resolveEndpoint(apiBase, EMBEDDINGS_ENDPOINT),
+    buildHeaders(apiKey),
+    { model: embeddingModel, input },
+  );
+  return data?.data?.map((item) => item.embedding || []) || [];
 }
 
 /**
@@ -1216,12 +2022,14 @@ async function parseStreamResponse(
   body: ReadableStream<Uint8Array>,
   onDelta: (delta: string) => void,
   onReasoning?: (event: ReasoningEvent) => void,
+  onUsage?: UsageCallback,
 ): Promise<string> {
   const reader = body.getReader() as ReadableStreamDefaultReader<Uint8Array>;
   const decoder = new TextDecoder("utf-8");
   let buffer = "";
   let fullText = "";
   const thoughtState: ThoughtTagState = { inThought: false, buffer: "" };
+  let usage: TokenUsage | null = null;
 
   try {
     while (true) {
@@ -1240,7 +2048,11 @@ async function parseStreamResponse(
         if (!data || data === "[DONE]") continue;
 
         try {
-          const parsed = JSON.parse(data) as { choices?: StreamChoice[] };
+          const parsed = JSON.parse(data) as {
+            choices?: StreamChoice[];
+            usage?: OpenAIUsage | null;
+          };
+          usage = parseOpenAIUsage(parsed?.usage || undefined) || usage;
           const choice = parsed?.choices?.[0];
           const reasoningDelta = normalizeStreamText(
             choice?.delta?.reasoning_content ??
@@ -1289,6 +2101,7 @@ async function parseStreamResponse(
     reader.releaseLock();
   }
 
+  if (usage) onUsage?.(usage);
   return fullText;
 }
 
@@ -1296,6 +2109,7 @@ async function parseResponsesStream(
   body: ReadableStream<Uint8Array>,
   onDelta: (delta: string) => void,
   onReasoning?: (event: ReasoningEvent) => void,
+  onUsage?: UsageCallback,
 ): Promise<string> {
   const reader = body.getReader() as ReadableStreamDefaultReader<Uint8Array>;
   const decoder = new TextDecoder("utf-8");
@@ -1307,6 +2121,7 @@ async function parseResponsesStream(
   let sawDetailsDelta = false;
   let sawSummaryFinal = false;
   let sawDetailsFinal = false;
+  let usage: TokenUsage | null = null;
 
   try {
     while (true) {
@@ -1333,6 +2148,7 @@ async function parseResponsesStream(
             reasoning?: string | Array<{ text?: string; summary?: string }>;
             message?: { content?: string };
             response?: {
+              usage?: OpenAIUsage;
               output_text?: string;
               output?: Array<{
                 type?: string;
@@ -1393,6 +2209,10 @@ async function parseResponsesStream(
             onReasoning({ summary, details });
           };
 
+          if (parsed.type === "response.completed") {
+            usage = parseOpenAIUsage(parsed.response?.usage) || usage;
+          }
+
           if (parsed.type === "response.output_text.delta" && parsed.delta) {
             sawOutputTextDelta = true;
             const { answer, thought } = splitThoughtTaggedText(
@@ -1539,5 +2359,251 @@ async function parseResponsesStream(
     reader.releaseLock();
   }
 
+  if (usage) onUsage?.(usage);
+  return fullText;
+}
+
+/**
+ * Parse Anthropic Messages SSE stream (`content_block_delta` events)
+ */
+async function parseAnthropicStream(
+  body: ReadableStream<Uint8Array>,
+  onDelta: (delta: string) => void,
+  onReasoning?: (event: ReasoningEvent) => void,
+  onUsage?: UsageCallback,
+): Promise<string> {
+  const reader = body.getReader() as ReadableStreamDefaultReader<Uint8Array>;
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+  let fullText = "";
+  let streamError = "";
+  let promptTokens: number | undefined;
+  let completionTokens: number | undefined;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+
+        const data = trimmed.slice(5).trim();
+        if (!data) continue;
+
+        try {
+          const parsed = JSON.parse(data) as AnthropicStreamEvent;
+
+          if (parsed.type === "error") {
+            streamError =
+              parsed.error?.message || parsed.error?.type || "Stream error";
+            continue;
+          }
+
+          // Input tokens arrive with message_start, output tokens with
+          // the (cumulative) message_delta events.
+          const messageUsage = parsed.message?.usage;
+          if (parsed.type === "message_start" && messageUsage) {
+            promptTokens =
+              (messageUsage.input_tokens || 0) +
+              (messageUsage.cache_creation_input_tokens || 0) +
+              (messageUsage.cache_read_input_tokens || 0);
+            completionTokens = messageUsage.output_tokens ?? completionTokens;
+          }
+          if (parsed.type === "message_delta" && parsed.usage) {
+            completionTokens = parsed.usage.output_tokens ?? completionTokens;
+          }
+
+          // Some gateways put the opening text on content_block_start.
+          const block =
+            parsed.type === "content_block_delta"
+              ? parsed.delta
+              : parsed.type === "content_block_start"
+                ? parsed.content_block
+                : undefined;
+          if (!block) continue;
+
+          if (
+            (block.type === "thinking_delta" || block.type === "thinking") &&
+            block.thinking
+          ) {
+            if (onReasoning) onReasoning({ details: block.thinking });
+            continue;
+          }
+
+          if (
+            (block.type === "text_delta" || block.type === "text") &&
+            block.text
+          ) {
+            fullText += block.text;
+            onDelta(block.text);
+          }
+        } catch (err) {
+          ztoolkit.log("LLM anthropic stream parse error:", err);
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (streamError && !fullText) {
+    throw new Error(streamError);
+  }
+  const usage = toTokenUsage(promptTokens, completionTokens);
+  if (usage) onUsage?.(usage);
+  return fullText;
+}
+
+/**
+ * Parse Gemini `:streamGenerateContent?alt=sse` stream
+ */
+async function parseGeminiStream(
+  body: ReadableStream<Uint8Array>,
+  onDelta: (delta: string) => void,
+  onReasoning?: (event: ReasoningEvent) => void,
+  onUsage?: UsageCallback,
+): Promise<string> {
+  const reader = body.getReader() as ReadableStreamDefaultReader<Uint8Array>;
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+  let fullText = "";
+  let blockMessage = "";
+  let usage: TokenUsage | null = null;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith("data:")) continue;
+
+        const data = trimmed.slice(5).trim();
+        if (!data) continue;
+
+        try {
+          const parsed = JSON.parse(data) as GeminiResponse;
+          const parts = parsed?.candidates?.[0]?.content?.parts || [];
+          for (const part of parts) {
+            if (!part.text) continue;
+            if (part.thought) {
+              if (onReasoning) onReasoning({ details: part.text });
+              continue;
+            }
+            fullText += part.text;
+            onDelta(part.text);
+          }
+          blockMessage = getGeminiBlockMessage(parsed) || blockMessage;
+          // usageMetadata is cumulative.
+          usage = parseGeminiUsage(parsed?.usageMetadata) || usage;
+        } catch (err) {
+          ztoolkit.log("LLM gemini stream parse error:", err);
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  if (blockMessage && !fullText) {
+    throw new Error(blockMessage);
+  }
+  if (usage) onUsage?.(usage);
+  return fullText;
+}
+
+/**
+ * Parse Ollama NDJSON stream (one JSON object per line)
+ */
+async function parseOllamaStream(
+  body: ReadableStream<Uint8Array>,
+  onDelta: (delta: string) => void,
+  onReasoning?: (event: ReasoningEvent) => void,
+  onUsage?: UsageCallback,
+): Promise<string> {
+  const reader = body.getReader() as ReadableStreamDefaultReader<Uint8Array>;
+  const decoder = new TextDecoder("utf-8");
+  let buffer = "";
+  let fullText = "";
+  let streamError = "";
+  let usage: TokenUsage | null = null;
+  const thoughtState: ThoughtTagState = { inThought: false, buffer: "" };
+
+  const handleLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    try {
+      const parsed = JSON.parse(trimmed) as OllamaChatChunk;
+      if (parsed.error) {
+        streamError = parsed.error;
+        return;
+      }
+      if (parsed.done) {
+        usage =
+          toTokenUsage(parsed.prompt_eval_count, parsed.eval_count) || usage;
+      }
+      const thinking = parsed.message?.thinking;
+      if (thinking && onReasoning) {
+        onReasoning({ details: thinking });
+      }
+      // Models without native thinking support still inline <think> tags.
+      const { answer, thought } = splitThoughtTaggedText(
+        (parsed.message?.content || "")
+          .replace(/<think>/gi, "<thought>")
+          .replace(/<\/think>/gi, "</thought>"),
+        thoughtState,
+      );
+      if (thought && onReasoning) {
+        onReasoning({ details: thought });
+      }
+      if (answer) {
+        fullText += answer;
+        onDelta(answer);
+      }
+    } catch (err) {
+      ztoolkit.log("LLM ollama stream parse error:", err);
+    }
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        handleLine(line);
+      }
+    }
+    handleLine(buffer);
+  } finally {
+    if (thoughtState.buffer) {
+      if (thoughtState.inThought && onReasoning) {
+        onReasoning({ details: thoughtState.buffer });
+      } else {
+        fullText += thoughtState.buffer;
+        onDelta(thoughtState.buffer);
+      }
+    }
+    reader.releaseLock();
+  }
+
+  if (streamError && !fullText) {
+    throw new Error(streamError);
+  }
+  if (usage) onUsage?.(usage);
   return fullText;
 }
@@ -0,0 +1,140 @@
+/**
+ * Model discovery for local servers (Ollama and llama.cpp / other
+ * OpenAI-compatible servers running on this machine).
+ */
+
+import {
+  OLLAMA_SHOW_ENDPOINT,
+  OLLAMA_TAGS_ENDPOINT,
+  buildHeaders,
+  isOllamaBase,
+  resolveEndpoint,
+  resolveOllamaEndpoint,
+} from "./apiHelpers";
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface OllamaTagsResponse {
+  models?: Array<{ name?: string; model?: string }>;
+}
+
+interface OllamaShowResponse {
+  model_info?: Record<string, unknown>;
+  parameters?: string;
+}
+
+interface OpenAIModelsResponse {
+  data?: Array<{ id?: string }>;
+}
+
+interface LlamaCppPropsResponse {
+  n_ctx?: number;
+  default_generation_settings?: { n_ctx?: number };
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+function getFetch(): typeof fetch {
+  return ztoolkit.getGlobal("fetch") as typeof fetch;
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await getFetch()(url, init);
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`${res.status} ${res.statusText} - ${text}`);
+  }
+  return (await res.json()) as T;
+}
+
+/**
+ * List the models installed on a local server: `/api/tags` for Ollama,
+ * `/v1/models` for llama.cpp and other OpenAI-compatible servers.
+ */
+export async function listLocalModels(
+  apiBase: string,
+  apiKey = "",
+): Promise<string[]> {
+  const names: string[] = [];
+  if (isOllamaBase(apiBase)) {
+    const data = await fetchJson<OllamaTagsResponse>(
+      resolveOllamaEndpoint(apiBase, OLLAMA_TAGS_ENDPOINT),
+    );
+    for (const entry of data?.models || []) {
+      const name = (entry.name || entry.model || "").trim();
+      if (name) names.push(name);
+    }
+  } else {
+    const data = await fetchJson<OpenAIModelsResponse>(
+      resolveEndpoint(apiBase, "/v1/models"),
+      { headers: buildHeaders(apiKey) },
+    );
+    for (const entry of data?.data || []) {
+      const name = (entry.id || "").trim();
+      if (name) names.push(name);
+    }
+  }
+  return Array.from(new Set(names)).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Check whether a model name matches an installed model. Ollama treats a
+ * missing tag as `:latest`.
+ */
+export function isLocalModelInstalled(
+  installed: string[],
+  model: string,
+): boolean {
+  const wanted = model.trim();
+  if (!wanted) return false;
+  return installed.some(
+    (name) =>
+      name === wanted || (!wanted.includes(":") && name === `${wanted}:latest`),
+  );
+}
+
+/**
+ * Read the context window of a local model, or `null` when the server does
+ * not expose it.
+ */
+export async function getLocalModelContextLength(
+  apiBase: string,
+  model: string,
+): Promise<number | null> {
+  try {
+    if (isOllamaBase(apiBase)) {
+      const data = await fetchJson<OllamaShowResponse>(
+        resolveOllamaEndpoint(apiBase, OLLAMA_SHOW_ENDPOINT),
+        {
+          method: "POST",
+          headers: buildHeaders(""),
+          body: JSON.stringify({ model }),
+        },
+      );
+      // A `num_ctx` parameter in the Modelfile overrides the trained length.
+      const numCtx = data?.parameters?.match(/^\s*num_ctx\s+(\d+)/m);
+      if (numCtx) return Number.parseInt(numCtx[1], 10);
+      for (const [key, value] of Object.entries(data?.model_info || {})) {
+        if (key.endsWith(".context_length") && typeof value === "number") {
+          return value;
+        }
+      }
+      return null;
+    }
+
+    const root = apiBase
+      .trim()
+      .replace(/\/$/, "")
+      .replace(/\/v1(?:\/.*)?$/, "");
+    const data = await fetchJson<LlamaCppPropsResponse>(`${root}/props`);
+    const nCtx = data?.default_generation_settings?.n_ctx ?? data?.n_ctx;
+    return typeof nCtx === "number" && nCtx > 0 ? nCtx : null;
+  } catch (err) {
+    ztoolkit.log("LLM: Failed to read local model context length", err);
+    return null;
+  }
+}
@@ -16,6 +16,7 @@
  * - Blockquotes
  * - Horizontal rules
  * - LaTeX math (via KaTeX)
+ * - Page citations ([p. 7]) as links back into the reader
  */
 
 import katex from "katex";
@@ -75,6 +76,13 @@ const HTML_ESCAPE_MAP: Record<string, string> = {
   "'": "&#039;",
 };
 
+/**
+ * `"quoted text" [p. 7]` or a bare `[p. 7]` / `[pp. 7-8]`. Groups: the quote
+ * with its spacing, the quote text, the citation label, the first page.
+ */
+const PAGE_CITATION_PATTERN =
+  /((?:["“]([^"“”\n]{4,400})["”])\s*)?\[((?:pp?)\.\s*(\d+)(?:\s*[-–]\s*\d+)?)\]/g;
+
 // =============================================================================
 // Utility Functions
 // =============================================================================
@@ -574,31 +582,53 @@ function renderInline(text: string): string {
     });
   }
 
-  // 4. HTML escape (after protecting code and math)
+  // 4. Page citations ([p. 7], [pp. 7-8]) become reader links. A quotation
+  // right before the citation is kept on the link so the reader can flash it.
+  if (!zoteroNoteMode) {
+    result = result.replace(
+      PAGE_CITATION_PATTERN,
+      (
+        _match: string,
+        quoted: string | undefined,
+        quote: string | undefined,
+        label: string,
+        page: string,
+      ) => {
+        const link = protect(
+          `[<a href="#" class="llm-page-citation" data-page="${page}"${
+            quote ? ` data-quote="${escapeHtml(quote.trim())}"` : ""
+          }>${escapeHtml(label)}</a>]`,
+        );
+        return quoted ? `${quoted}${link}` : link;
+      },
+    );
+  }
+
+  // 5. HTML escape (after protecting code and math)
   result = escapeHtml(result);
 
-  // 5. Bold+Italic (***...***)  - only if balanced
+  // 6. Bold+Italic (***...***)  - only if balanced
   if (hasBalancedInlineDelimiter(result, "***")) {
     result = result.replace(/\*\*\*(.+?)\*\*\*/g, (_m, inner) => {
       return protect(`<strong><em>${inner}</em></strong>`);
     });
   }
 
-  // 6. Bold (**...**) - only if balanced
+  // 7. Bold (**...**) - only if balanced
   if (hasBalancedInlineDelimiter(result, "**")) {
     result = result.replace(/\*\*(.+?)\*\*/g, (_m, inner) => {
       return protect(`<strong>${inner}</strong>`);
     });
   }
 
-  // 7. Bold (__...__) - only if balanced
+  // 8. Bold (__...__) - only if balanced
   if (hasBalancedInlineDelimiter(result, "__")) {
     result = result.replace(/__(.+?)__/g, (_m, inner) => {
       return protect(`<strong>${inner}</strong>`);
     });
   }
 
-  // 8. Italic (*...* but not inside words)
+  // 9. Italic (*...* but not inside words)
   // Only apply if there are potential matches (avoid false positives)
   result = result.replace(
     /(^|[\s(])\*([^\s*][^*]*?[^\s*])\*(?=[\s).,!?:;]|$)/g,
@@ -609,7 +639,7 @@ function renderInline(text: string): string {
     "$1<em>$2</em>",
   );
 
-  // 9. Italic (_..._ but not inside words)
+  // 10. Italic (_..._ but not inside words)
   result = result.replace(
     /(^|[\s(])_([^\s_][^_]*?[^\s_])_(?=[\s).,!?:;]|$)/g,
     "$1<em>$2</em>",
@@ -619,13 +649,13 @@ function renderInline(text: string): string {
     "$1<em>$2</em>",
   );
 
-  // 10. Links [text](url)
+  // 11. Links [text](url)
   result = result.replace(
     /\[([^\]]+)\]\(([^)]+)\)/g,
     '<a href="$2" target="_blank" rel="noopener">$1</a>',
   );
 
-  // 11. Restore protected blocks.
+  // 12. Restore protected blocks.
   // Reverse order is important for nested placeholders such as **$x$**:
   // bold wrapping can protect a token that itself points to rendered math.
   for (let i = protectedBlocks.length - 1; i >= 0; i--) {
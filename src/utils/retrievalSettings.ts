@@ -0,0 +1,134 @@
+/**
+ * How paper text is chunked and which excerpts go with a question.
+ *
+ * Settings are stored as JSON in the `retrievalSettings` pref. Chunk size
+ * and overlap decide how documents are split, so indexes built with other
+ * values are stale; they are recognized by their chunking key.
+ */
+
+import { config } from "../../package.json";
+
+/**
+ * - `full`: the whole text when it fits the budget, otherwise hybrid
+ * - `hybrid`: BM25 and embedding scores combined
+ * - `bm25`: keyword scores only, no embedding calls
+ * - `embedding`: embedding scores only, BM25 when vectors are unavailable
+ */
+export type RetrievalMode = "full" | "hybrid" | "bm25" | "embedding";
+
+export const RETRIEVAL_MODES: RetrievalMode[] = [
+  "full",
+  "hybrid",
+  "bm25",
+  "embedding",
+];
+
+export const RETRIEVAL_MODE_LABELS: Record<RetrievalMode, string> = {
+  full: "Full text",
+  hybrid: "Hybrid",
+  bm25: "BM25 only",
+  embedding: "Embeddings only",
+};
+
+export type RetrievalSettings = {
+  mode: RetrievalMode;
+  /** Target chunk length in characters */
+  chunkSize: number;
+  /** Characters repeated between the pieces of a paragraph that is split */
+  chunkOverlap: number;
+  /** Excerpts picked per question */
+  topK: number;
+  /** Share of the hybrid score from BM25; embeddings get the rest */
+  bm25Weight: number;
+};
+
+export const DEFAULT_RETRIEVAL_SETTINGS: RetrievalSettings = {
+  mode: "full",
+  chunkSize: 2000,
+  chunkOverlap: 200,
+  topK: 4,
+  bm25Weight: 0.5,
+};
+
+export const CHUNK_SIZE_RANGE = { min: 200, max: 20000 };
+export const TOP_K_RANGE = { min: 1, max: 50 };
+
+const RETRIEVAL_SETTINGS_PREF = `${config.prefsPrefix}.retrievalSettings`;
+
+function clampNumber(
+  value: unknown,
+  min: number,
+  max: number,
+  fallback: number,
+): number {
+  // Empty fields fall back instead of counting as zero.
+  const number =
+    typeof value === "number" || (typeof value === "string" && value.trim())
+      ? Number(value)
+      : NaN;
+  return Number.isFinite(number)
+    ? Math.min(max, Math.max(min, number))
+    : fallback;
+}
+
+/** Fill in defaults and keep every value in its range */
+export function normalizeRetrievalSettings(value: unknown): RetrievalSettings {
+  const raw = (value && typeof value === "object" ? value : {}) as Record<
+    string,
+    unknown
+  >;
+  const defaults = DEFAULT_RETRIEVAL_SETTINGS;
+  const mode = RETRIEVAL_MODES.includes(raw.mode as RetrievalMode)
+    ? (raw.mode as RetrievalMode)
+    : defaults.mode;
+  const chunkSize = Math.floor(
+    clampNumber(
+      raw.chunkSize,
+      CHUNK_SIZE_RANGE.min,
+      CHUNK_SIZE_RANGE.max,
+      defaults.chunkSize,
+    ),
+  );
+  return {
+    mode,
+    chunkSize,
+    // A long paragraph is cut into pieces that must move forward.
+    chunkOverlap: Math.floor(
+      clampNumber(
+        raw.chunkOverlap,
+        0,
+        Math.floor(chunkSize / 2),
+        Math.min(defaults.chunkOverlap, Math.floor(chunkSize / 2)),
+      ),
+    ),
+    topK: Math.floor(
+      clampNumber(raw.topK, TOP_K_RANGE.min, TOP_K_RANGE.max, defaults.topK),
+    ),
+    bm25Weight: clampNumber(raw.bm25Weight, 0, 1, defaults.bm25Weight),
+  };
+}
+
+export function getRetrievalSettings(): RetrievalSettings {
+  const raw = (Zotero.Prefs.get(RETRIEVAL_SETTINGS_PREF, true) as string) || "";
+  if (!raw) return { ...DEFAULT_RETRIEVAL_SETTINGS };
+  try {
+    return normalizeRetrievalSettings(JSON.parse(raw));
+  } catch {
+    return { ...DEFAULT_RETRIEVAL_SETTINGS };
+  }
+}
+
+export function setRetrievalSettings(value: RetrievalSettings): void {
+  Zotero.Prefs.set(
+    RETRIEVAL_SETTINGS_PREF,
+    JSON.stringify(normalizeRetrievalSettings(value)),
+    true,
+  );
+}
+
+/** Identifies the chunking an index was built with */
+export function getChunkingKey(
+  settings: RetrievalSettings = getRetrievalSettings(),
+): string {
+  return `${settings.chunkSize}/${settings.chunkOverlap}`;
+}
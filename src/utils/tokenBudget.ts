@@ -0,0 +1,232 @@
+/**
+ * Token estimates and context-window budgeting for chat prompts.
+ *
+ * Window sizes come from a built-in table of common model families, which
+ * the user can override in the `contextWindows` pref. Both are matched by
+ * the longest model name prefix; a vendor prefix such as `openai/` is
+ * ignored.
+ */
+
+import { config } from "../../package.json";
+
+export type ContextWindowEntry = {
+  model: string;
+  tokens: number;
+};
+
+/** Tokens assumed for one attached image */
+export const IMAGE_TOKEN_ESTIMATE = 1500;
+/** Window assumed for models that are in neither table */
+export const DEFAULT_CONTEXT_WINDOW = 32768;
+/** Tokens counted per message for role markers and separators */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Part of the window kept free because estimates are approximate */
+const SAFETY_MARGIN_RATIO = 0.05;
+/**
+ * Share of the prompt budget kept for history when the paper context would
+ * otherwise take all of it.
+ */
+const HISTORY_MIN_SHARE = 0.25;
+
+export const DEFAULT_CONTEXT_WINDOWS: ContextWindowEntry[] = [
+  { model: "gpt-3.5-turbo", tokens: 16385 },
+  { model: "gpt-4", tokens: 8192 },
+  { model: "gpt-4-turbo", tokens: 128000 },
+  { model: "gpt-4o", tokens: 128000 },
+  { model: "gpt-4.1", tokens: 1047576 },
+  { model: "gpt-5", tokens: 400000 },
+  { model: "o1", tokens: 200000 },
+  { model: "o3", tokens: 200000 },
+  { model: "o4", tokens: 200000 },
+  { model: "claude", tokens: 200000 },
+  { model: "gemini", tokens: 1048576 },
+  { model: "deepseek", tokens: 128000 },
+  { model: "kimi", tokens: 262144 },
+  { model: "moonshot", tokens: 128000 },
+  { model: "qwen", tokens: 131072 },
+  { model: "grok", tokens: 256000 },
+  { model: "llama", tokens: 131072 },
+  { model: "mistral", tokens: 128000 },
+];
+
+const CONTEXT_WINDOWS_PREF = `${config.prefsPrefix}.contextWindows`;
+
+export function getContextWindowOverrides(): ContextWindowEntry[] {
+  const raw = (Zotero.Prefs.get(CONTEXT_WINDOWS_PREF, true) as string) || "";
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    const entries: ContextWindowEntry[] = [];
+    for (const entry of parsed) {
+      if (!entry || typeof entry !== "object") continue;
+      const model =
+        typeof (entry as any).model === "string"
+          ? (entry as any).model.trim()
+          : "";
+      const tokens = Math.floor(Number((entry as any).tokens));
+      if (!model || !Number.isFinite(tokens) || tokens <= 0) continue;
+      entries.push({ model, tokens });
+    }
+    return entries;
+  } catch {
+    return [];
+  }
+}
+
+export function setContextWindowOverrides(value: ContextWindowEntry[]): void {
+  Zotero.Prefs.set(CONTEXT_WINDOWS_PREF, JSON.stringify(value), true);
+}
+
+function findContextWindow(
+  model: string,
+  entries: ContextWindowEntry[],
+): number | null {
+  const name = model.trim().toLowerCase();
+  const baseName = name.slice(name.lastIndexOf("/") + 1);
+  let best: ContextWindowEntry | null = null;
+  for (const entry of entries) {
+    const key = entry.model.toLowerCase();
+    if (!name.startsWith(key) && !baseName.startsWith(key)) continue;
+    if (!best || key.length > best.model.length) best = entry;
+  }
+  return best?.tokens ?? null;
+}
+
+/**
+ * Context window of a model in tokens. User overrides win over a size
+ * reported by a local server, which wins over the built-in table.
+ */
+export function getContextWindow(
+  model: string,
+  reported?: number | null,
+): number {
+  return (
+    findContextWindow(model, getContextWindowOverrides()) ??
+    (reported && reported > 0 ? reported : null) ??
+    findContextWindow(model, DEFAULT_CONTEXT_WINDOWS) ??
+    DEFAULT_CONTEXT_WINDOW
+  );
+}
+
+function isCjkCodePoint(code: number): boolean {
+  return (
+    (code >= 0x3040 && code <= 0x30ff) ||
+    (code >= 0x3400 && code <= 0x9fff) ||
+    (code >= 0xac00 && code <= 0xd7af) ||
+    (code >= 0xf900 && code <= 0xfaff)
+  );
+}
+
+/**
+ * Rough token count without a tokenizer: about four characters per token
+ * for ASCII text, one per CJK character and two for other scripts. Close
+ * enough for budgeting, which keeps a safety margin anyway.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  let ascii = 0;
+  let cjk = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) ascii++;
+    else if (isCjkCodePoint(code)) cjk++;
+    // Low surrogates belong to the character counted before them.
+    else if (code < 0xdc00 || code > 0xdfff) other++;
+  }
+  return Math.ceil(ascii / 4 + cjk + other / 2);
+}
+
+export function estimateMessageTokens(text: string): number {
+  return estimateTokens(text) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+export type PromptBudget = {
+  contextWindow: number;
+  /** Tokens kept free for the answer */
+  outputTokens: number;
+  /** System prompt, question and images, which are always sent */
+  fixedTokens: number;
+  /** Upper bound for the paper context */
+  contextTokens: number;
+  /** Whether the fixed parts alone do not fit the window */
+  overflow: boolean;
+};
+
+/**
+ * Split a model's context window between the answer, the fixed parts of
+ * the prompt, the paper context and the history. The paper context gets
+ * everything except a share kept for history (or less, when the history
+ * is short); history then fills whatever the context leaves over, see
+ * `fitHistoryToBudget`.
+ */
+export function allocatePromptBudget(params: {
+  contextWindow: number;
+  maxOutputTokens: number;
+  systemPrompt: string;
+  question: string;
+  imageCount: number;
+  historyTokens: number;
+}): PromptBudget {
+  const contextWindow = Math.max(1, Math.floor(params.contextWindow));
+  const outputTokens = Math.min(
+    Math.max(0, Math.floor(params.maxOutputTokens)),
+    Math.floor(contextWindow / 2),
+  );
+  const promptTokens = Math.floor(
+    contextWindow * (1 - SAFETY_MARGIN_RATIO) - outputTokens,
+  );
+  const fixedTokens =
+    estimateMessageTokens(params.systemPrompt) +
+    estimateMessageTokens(params.question) +
+    params.imageCount * IMAGE_TOKEN_ESTIMATE;
+  const free = Math.max(0, promptTokens - fixedTokens);
+  const historyReserve = Math.min(
+    params.historyTokens,
+    Math.floor(free * HISTORY_MIN_SHARE),
+  );
+  return {
+    contextWindow,
+    outputTokens,
+    fixedTokens,
+    contextTokens: free - historyReserve,
+    overflow: fixedTokens > promptTokens,
+  };
+}
+
+/** Tokens left for history once the paper context is known */
+export function getHistoryBudget(
+  budget: PromptBudget,
+  contextText: string,
+): number {
+  const promptTokens = Math.floor(
+    budget.contextWindow * (1 - SAFETY_MARGIN_RATIO) - budget.outputTokens,
+  );
+  const contextTokens = contextText ? estimateMessageTokens(contextText) : 0;
+  return Math.max(0, promptTokens - budget.fixedTokens - contextTokens);
+}
+
+/**
+ * Keep the newest messages that fit the budget. The kept history never
+ * starts with an assistant message, so a question is not cut from its
+ * answer.
+ */
+export function fitHistoryToBudget<T extends { role: string }>(
+  history: T[],
+  maxTokens: number,
+  getText: (entry: T) => string,
+): T[] {
+  let used = 0;
+  let start = history.length;
+  while (start > 0) {
+    const tokens = estimateMessageTokens(getText(history[start - 1]));
+    if (used + tokens > maxTokens) break;
+    used += tokens;
+    start--;
+  }
+  while (start < history.length && history[start].role === "assistant") {
+    start++;
+  }
+  return history.slice(start);
+}
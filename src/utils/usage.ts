@@ -0,0 +1,117 @@
+/**
+ * Token usage formatting and the user-editable model price table.
+ *
+ * Prices are stored in the `modelPrices` pref as USD per one million
+ * tokens, keyed by model name. A model matches the longest key it starts
+ * with, so `gpt-4o` also prices dated variants like `gpt-4o-2024-08-06`.
+ */
+
+import { config } from "../../package.json";
+import type { TokenUsage } from "./llmClient";
+
+export type ModelPrice = {
+  model: string;
+  /** USD per 1M prompt tokens */
+  input: number;
+  /** USD per 1M completion tokens */
+  output: number;
+};
+
+const MODEL_PRICES_PREF = `${config.prefsPrefix}.modelPrices`;
+
+function toPrice(value: unknown): number {
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : 0;
+}
+
+export function getModelPrices(): ModelPrice[] {
+  const raw = (Zotero.Prefs.get(MODEL_PRICES_PREF, true) as string) || "";
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    const prices: ModelPrice[] = [];
+    for (const entry of parsed) {
+      if (!entry || typeof entry !== "object") continue;
+      const model =
+        typeof (entry as any).model === "string"
+          ? (entry as any).model.trim()
+          : "";
+      if (!model) continue;
+      prices.push({
+        model,
+        input: toPrice((entry as any).input),
+        output: toPrice((entry as any).output),
+      });
+    }
+    return prices;
+  } catch {
+    return [];
+  }
+}
+
+export function setModelPrices(value: ModelPrice[]): void {
+  Zotero.Prefs.set(MODEL_PRICES_PREF, JSON.stringify(value), true);
+}
+
+export function findModelPrice(
+  model: string,
+  prices: ModelPrice[] = getModelPrices(),
+): ModelPrice | null {
+  const name = model.trim().toLowerCase();
+  if (!name) return null;
+  let best: ModelPrice | null = null;
+  for (const price of prices) {
+    const key = price.model.toLowerCase();
+    if (!name.startsWith(key)) continue;
+    if (!best || key.length > best.model.length) best = price;
+  }
+  return best;
+}
+
+/** Cost in USD, or `null` when the model has no price */
+export function estimateCost(
+  model: string,
+  usage: TokenUsage,
+  prices?: ModelPrice[],
+): number | null {
+  const price = findModelPrice(model, prices);
+  if (!price) return null;
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000
+  );
+}
+
+export function formatTokenCount(count: number): string {
+  if (count < 1000) return `${Math.round(count)}`;
+  if (count < 1_000_000) {
+    return `${(count / 1000).toFixed(count < 10_000 ? 1 : 0)}k`;
+  }
+  return `${(count / 1_000_000).toFixed(1)}M`;
+}
+
+export function formatCost(cost: number): string {
+  if (cost === 0) return "$0";
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
+
+/** Short summary like `1.2k in · 350 out (120 reasoning) · ~$0.0040` */
+export function formatUsage(
+  usage: TokenUsage,
+  model?: string,
+  prices?: ModelPrice[],
+): string {
+  const parts = [
+    `${formatTokenCount(usage.promptTokens)} in`,
+    `${formatTokenCount(usage.completionTokens)} out${
+      usage.reasoningTokens
+        ? ` (${formatTokenCount(usage.reasoningTokens)} reasoning)`
+        : ""
+    }`,
+  ];
+  const cost = model ? estimateCost(model, usage, prices) : null;
+  if (cost !== null) parts.push(`~${formatCost(cost)}`);
+  return parts.join(" · ");
+}
@@ -0,0 +1,37 @@
+import { assert } from "chai";
+import { parseCaption } from "../src/modules/contextPanel/figures";
+
+describe("figures", function () {
+  describe("parseCaption", function () {
+    it("recognizes figure captions", function () {
+      assert.deepEqual(parseCaption("Figure 2: Model overview"), {
+        kind: "figure",
+        label: "Figure 2",
+      });
+      assert.deepEqual(parseCaption("Fig. 3. Results on the test set"), {
+        kind: "figure",
+        label: "Figure 3",
+      });
+    });
+
+    it("recognizes table captions with roman numerals", function () {
+      assert.deepEqual(parseCaption("TABLE IV — Ablation study"), {
+        kind: "table",
+        label: "Table IV",
+      });
+      assert.deepEqual(parseCaption("Tab. 1 | Datasets"), {
+        kind: "table",
+        label: "Table 1",
+      });
+    });
+
+    it("ignores references to figures in running text", function () {
+      assert.isNull(parseCaption("As shown in Figure 2, the loss drops"));
+      assert.isNull(parseCaption("Figure 2 shows the loss"));
+    });
+
+    it("ignores section numbers after the label", function () {
+      assert.isNull(parseCaption("Table 1.2 lists the results"));
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { assert } from "chai";
+import {
+  addReferenceToZotero,
+  findCitedEntries,
+  offlineReferenceTranslator,
+  parseBibliography,
+  setReferenceTranslator,
+} from "../src/modules/contextPanel/references";
+import type { BibliographyEntry } from "../src/modules/contextPanel/types";
+
+const bracketList = [
+  "[1] A. Smith and B. Jones. Chunking for retrieval. In ACL, 2020. doi:10.1234/acl.2020.42.",
+  "[2] C. Lee. Dense passage retrieval. arXiv:2004.04906, 2020.",
+  "[3] D. Kim. Long context models. 2022.",
+  "[4] E. Park. Token budgets. 2023.",
+].join("\n");
+
+const authorYearList = [
+  "Smith, J., and Jones, B. (2020). Chunking for retrieval.",
+  "Proceedings of ACL.",
+  "Lee, C. (2019a). Dense passage retrieval.",
+].join("\n");
+
+const newEntry: BibliographyEntry = {
+  number: 7,
+  text: 'Doe, J. (2021). "A new study of chunked retrieval". J. Test. doi:10.5555/llm-test.new',
+  firstAuthor: "Doe",
+  year: "2021",
+  doi: "10.5555/llm-test.new",
+  arxivId: "",
+};
+
+const existingEntry: BibliographyEntry = {
+  ...newEntry,
+  number: 8,
+  doi: "10.5555/llm-test.existing",
+};
+
+type CollectionSelector = {
+  selectCollection: (collectionID: number) => Promise<boolean>;
+  selectLibrary: (libraryID?: number) => Promise<boolean>;
+};
+
+async function createItem(fields: Record<string, string>) {
+  const item = new Zotero.Item("journalArticle");
+  item.libraryID = Zotero.Libraries.userLibraryID;
+  for (const [field, value] of Object.entries(fields)) {
+    item.setField(field, value);
+  }
+  await item.saveTx();
+  return item;
+}
+
+describe("references", function () {
+  describe("parseBibliography", function () {
+    it("splits a bracket-numbered list", function () {
+      const entries = parseBibliography(bracketList);
+      assert.deepEqual(
+        entries.map((entry) => entry.number),
+        [1, 2, 3, 4],
+      );
+      assert.deepInclude(entries[0], {
+        firstAuthor: "Smith",
+        year: "2020",
+        doi: "10.1234/acl.2020.42",
+      });
+      assert.equal(entries[1].arxivId, "2004.04906");
+    });
+
+    it("splits a dot-numbered list", function () {
+      const entries = parseBibliography(
+        "1. Smith A. Chunking. 2020.\n2. Lee C. Retrieval. 2019.\n3. Kim D. Context. 2022.",
+      );
+      assert.deepEqual(
+        entries.map((entry) => entry.firstAuthor),
+        ["Smith", "Lee", "Kim"],
+      );
+    });
+
+    it("splits an author-year list and joins wrapped lines", function () {
+      const entries = parseBibliography(authorYearList);
+      assert.lengthOf(entries, 2);
+      assert.isNull(entries[0].number);
+      assert.include(entries[0].text, "Proceedings of ACL");
+      assert.deepInclude(entries[1], { firstAuthor: "Lee", year: "2019a" });
+    });
+
+    it("returns nothing for text that is not a reference list", function () {
+      assert.isEmpty(parseBibliography("[1] Only one marker here."));
+      assert.isEmpty(parseBibliography("Plain text without any entries."));
+    });
+  });
+
+  describe("findCitedEntries", function () {
+    it("finds numeric markers, ranges and lists in order", function () {
+      const entries = parseBibliography(bracketList);
+      const cited = (text: string) =>
+        findCitedEntries(entries, text).map((entry) => entry.number);
+      assert.deepEqual(cited("as shown in [3] and [1]"), [3, 1]);
+      assert.deepEqual(cited("earlier work [1-3]"), [1, 2, 3]);
+      assert.deepEqual(cited("see [1, 4]"), [1, 4]);
+      assert.deepEqual(cited("what does reference 2 say?"), [2]);
+      assert.isEmpty(cited("see [9]"));
+    });
+
+    it("finds author-year citations", function () {
+      const entries = parseBibliography(authorYearList);
+      const cited = findCitedEntries(
+        entries,
+        "Lee (2019) and Smith et al., 2020 both chunk text",
+      );
+      assert.deepEqual(
+        cited.map((entry) => entry.firstAuthor),
+        ["Lee", "Smith"],
+      );
+    });
+  });
+
+  describe("addReferenceToZotero", function () {
+    const created: Zotero.DataObject[] = [];
+    let collection: Zotero.Collection;
+    let citing: Zotero.Item;
+    let existing: Zotero.Item;
+
+    before(async function () {
+      setReferenceTranslator(offlineReferenceTranslator);
+      collection = new Zotero.Collection({
+        libraryID: Zotero.Libraries.userLibraryID,
+        name: "LLM reference test",
+      });
+      await collection.saveTx();
+      citing = await createItem({ title: "Citing paper" });
+      existing = await createItem({
+        title: "Existing paper",
+        DOI: existingEntry.doi,
+      });
+      created.push(collection, citing, existing);
+      const collectionsView = Zotero.getActiveZoteroPane()
+        .collectionsView as unknown as CollectionSelector;
+      await collectionsView.selectCollection(collection.id);
+    });
+
+    after(async function () {
+      setReferenceTranslator(null);
+      const collectionsView = Zotero.getActiveZoteroPane()
+        .collectionsView as unknown as CollectionSelector;
+      await collectionsView.selectLibrary(Zotero.Libraries.userLibraryID);
+      for (const object of created.reverse()) await object.eraseTx();
+    });
+
+    it("creates a new item in the selected collection", async function () {
+      const result = await addReferenceToZotero(citing, newEntry);
+      created.push(result.item);
+      assert.isFalse(result.existing);
+      assert.equal(result.item.getField("DOI"), newEntry.doi);
+      assert.equal(
+        result.item.getField("title"),
+        "A new study of chunked retrieval",
+      );
+      assert.isTrue(result.item.inCollection(collection.id));
+      assert.include(result.item.relatedItems, citing.key);
+      assert.include(citing.relatedItems, result.item.key);
+    });
+
+    it("reuses an item with the same DOI", async function () {
+      const result = await addReferenceToZotero(citing, existingEntry);
+      assert.isTrue(result.existing);
+      assert.equal(result.item.id, existing.id);
+      assert.isFalse(result.item.inCollection(collection.id));
+      assert.include(result.item.relatedItems, citing.key);
+      assert.include(citing.relatedItems, existing.key);
+    });
+  });
+});
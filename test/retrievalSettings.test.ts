@@ -0,0 +1,76 @@
+import { assert } from "chai";
+import {
+  CHUNK_SIZE_RANGE,
+  DEFAULT_RETRIEVAL_SETTINGS,
+  TOP_K_RANGE,
+  getChunkingKey,
+  normalizeRetrievalSettings,
+} from "../src/utils/retrievalSettings";
+
+describe("retrievalSettings", function () {
+  describe("normalizeRetrievalSettings", function () {
+    it("falls back to the defaults for missing values", function () {
+      assert.deepEqual(
+        normalizeRetrievalSettings(undefined),
+        DEFAULT_RETRIEVAL_SETTINGS,
+      );
+      assert.deepEqual(
+        normalizeRetrievalSettings({ mode: "unknown", topK: "" }),
+        DEFAULT_RETRIEVAL_SETTINGS,
+      );
+    });
+
+    it("keeps valid values and reads numbers from strings", function () {
+      assert.deepEqual(
+        normalizeRetrievalSettings({
+          mode: "bm25",
+          chunkSize: "1000",
+          chunkOverlap: 100,
+          topK: "8",
+          bm25Weight: 0.3,
+        }),
+        {
+          mode: "bm25",
+          chunkSize: 1000,
+          chunkOverlap: 100,
+          topK: 8,
+          bm25Weight: 0.3,
+        },
+      );
+    });
+
+    it("clamps values to their ranges", function () {
+      const settings = normalizeRetrievalSettings({
+        chunkSize: 10,
+        topK: 1000,
+        bm25Weight: -1,
+      });
+      assert.equal(settings.chunkSize, CHUNK_SIZE_RANGE.min);
+      assert.equal(settings.topK, TOP_K_RANGE.max);
+      assert.equal(settings.bm25Weight, 0);
+    });
+
+    it("keeps the overlap at most half the chunk size", function () {
+      assert.equal(
+        normalizeRetrievalSettings({ chunkSize: 400, chunkOverlap: 300 })
+          .chunkOverlap,
+        200,
+      );
+      assert.equal(
+        normalizeRetrievalSettings({ chunkSize: 300 }).chunkOverlap,
+        150,
+      );
+    });
+  });
+
+  describe("getChunkingKey", function () {
+    it("changes with the chunk size and overlap only", function () {
+      const settings = normalizeRetrievalSettings({ chunkSize: 1000 });
+      assert.equal(getChunkingKey(settings), "1000/200");
+      assert.equal(
+        getChunkingKey({ ...settings, mode: "embedding", topK: 10 }),
+        "1000/200",
+      );
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { assert } from "chai";
+import {
+  buildSectionIndex,
+  findSectionsInQuestion,
+  getSectionLabel,
+  isBackMatterQuestion,
+} from "../src/modules/contextPanel/sections";
+
+const chunks = [
+  "Abstract\nWe study how chunking affects retrieval.",
+  "1 Introduction\nRetrieval needs good chunks.\n2 Methods\nWe split every paper at its blank lines.",
+  "2.1 Data\nWe use 3 datasets.\n1 paper was left out of the study.",
+  "3 Results\nChunking helps.\n2 Methods\nThis line only repeats a name.",
+];
+
+const paperWithBackMatter = [
+  "1 Introduction\nWe build on earlier work [1].",
+  "2 Conclusion\nChunking helps retrieval.",
+  "Acknowledgments\nFunded by grant 42.",
+  "References\n[1] A. Smith. Chunking. 2020.",
+  "[2] B. Jones. Retrieval. 2021.",
+  "Appendix A\nExtra tables.",
+];
+
+describe("sections", function () {
+  describe("buildSectionIndex", function () {
+    it("finds numbered and unnumbered headings", function () {
+      const { sections } = buildSectionIndex(chunks);
+      assert.deepEqual(sections.map(getSectionLabel), [
+        "Abstract",
+        "1 Introduction",
+        "2 Methods",
+        "2.1 Data",
+        "3 Results",
+      ]);
+    });
+
+    it("nests subsections under their section", function () {
+      const { sections } = buildSectionIndex(chunks);
+      const data = sections[3];
+      assert.equal(data.level, 2);
+      assert.equal(sections[data.parent].title, "Methods");
+      assert.equal(sections[2].endChunk, 2);
+    });
+
+    it("labels each chunk with the section that has most of its text", function () {
+      const { chunkSections } = buildSectionIndex(chunks);
+      assert.deepEqual(chunkSections, [0, 2, 3, 4]);
+    });
+
+    it("returns no sections for text without headings", function () {
+      const { sections, chunkSections } = buildSectionIndex([
+        "Some text without any headings.",
+      ]);
+      assert.isEmpty(sections);
+      assert.deepEqual(chunkSections, [-1]);
+    });
+  });
+
+  describe("findSectionsInQuestion", function () {
+    it("matches sections by number, kind and title", function () {
+      const { sections } = buildSectionIndex(chunks);
+      assert.deepEqual(
+        Array.from(findSectionsInQuestion(sections, "Summarize Section 2.1")),
+        [3],
+      );
+      assert.deepEqual(
+        Array.from(findSectionsInQuestion(sections, "Explain the methods")),
+        [2],
+      );
+      assert.deepEqual(
+        Array.from(findSectionsInQuestion(sections, "What are the results?")),
+        [4],
+      );
+    });
+  });
+
+  describe("back matter", function () {
+    it("lists the chunks of references, acknowledgments and appendix", function () {
+      const { backMatterChunks } = buildSectionIndex(paperWithBackMatter);
+      assert.deepEqual(backMatterChunks, [2, 3, 4, 5]);
+    });
+
+    it("lists no chunks when the paper has no back matter", function () {
+      assert.isEmpty(buildSectionIndex(chunks).backMatterChunks);
+    });
+
+    it("recognizes questions about citations, funding and the appendix", function () {
+      assert.isTrue(isBackMatterQuestion("Which papers does this build on?"));
+      assert.isTrue(isBackMatterQuestion("What works are cited in 2.1?"));
+      assert.isTrue(isBackMatterQuestion("Who funded this study?"));
+      assert.isTrue(isBackMatterQuestion("Summarize the appendix"));
+    });
+
+    it("leaves other questions alone", function () {
+      assert.isFalse(isBackMatterQuestion("What is the main result?"));
+      assert.isFalse(isBackMatterQuestion("Explain the methods section"));
+    });
+  });
+});
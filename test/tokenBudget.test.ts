@@ -0,0 +1,108 @@
+import { assert } from "chai";
+import {
+  allocatePromptBudget,
+  estimateMessageTokens,
+  estimateTokens,
+  fitHistoryToBudget,
+} from "../src/utils/tokenBudget";
+
+type TestMessage = { role: string; text: string };
+
+const history: TestMessage[] = [
+  { role: "user", text: "a".repeat(400) },
+  { role: "assistant", text: "b".repeat(400) },
+  { role: "user", text: "c".repeat(400) },
+  { role: "assistant", text: "d".repeat(400) },
+];
+const messageTokens = estimateMessageTokens("a".repeat(400));
+
+describe("tokenBudget", function () {
+  describe("estimateTokens", function () {
+    it("counts about four ASCII characters per token", function () {
+      assert.equal(estimateTokens(""), 0);
+      assert.equal(estimateTokens("a".repeat(40)), 10);
+    });
+
+    it("counts one token per CJK character", function () {
+      assert.equal(estimateTokens("論文の要約"), 5);
+    });
+  });
+
+  describe("allocatePromptBudget", function () {
+    const params = {
+      contextWindow: 10000,
+      maxOutputTokens: 1000,
+      systemPrompt: "",
+      question: "What is the main result?",
+      imageCount: 0,
+      historyTokens: 0,
+    };
+
+    it("keeps the output tokens and a safety margin free", function () {
+      const budget = allocatePromptBudget(params);
+      assert.equal(budget.outputTokens, 1000);
+      assert.isFalse(budget.overflow);
+      assert.isBelow(
+        budget.fixedTokens + budget.contextTokens,
+        10000 * 0.95 - 1000 + 1,
+      );
+    });
+
+    it("never reserves more than half the window for the answer", function () {
+      const budget = allocatePromptBudget({
+        ...params,
+        maxOutputTokens: 50000,
+      });
+      assert.equal(budget.outputTokens, 5000);
+    });
+
+    it("keeps a share of the budget for history", function () {
+      const withoutHistory = allocatePromptBudget(params);
+      const withHistory = allocatePromptBudget({
+        ...params,
+        historyTokens: 100000,
+      });
+      assert.isBelow(withHistory.contextTokens, withoutHistory.contextTokens);
+      assert.isAbove(withHistory.contextTokens, 0);
+    });
+
+    it("counts images and reports an overflow", function () {
+      const budget = allocatePromptBudget({
+        ...params,
+        contextWindow: 4000,
+        imageCount: 3,
+      });
+      assert.isTrue(budget.overflow);
+      assert.equal(budget.contextTokens, 0);
+    });
+  });
+
+  describe("fitHistoryToBudget", function () {
+    it("keeps everything that fits", function () {
+      const kept = fitHistoryToBudget(history, 10000, (msg) => msg.text);
+      assert.deepEqual(kept, history);
+    });
+
+    it("keeps the newest messages that fit", function () {
+      const kept = fitHistoryToBudget(
+        history,
+        messageTokens * 2,
+        (msg) => msg.text,
+      );
+      assert.deepEqual(kept, history.slice(2));
+    });
+
+    it("does not start with an assistant message", function () {
+      const kept = fitHistoryToBudget(
+        history,
+        messageTokens * 3,
+        (msg) => msg.text,
+      );
+      assert.deepEqual(kept, history.slice(2));
+    });
+
+    it("returns nothing when no message fits", function () {
+      assert.isEmpty(fitHistoryToBudget(history, 10, (msg) => msg.text));
+    });
+  });
+});
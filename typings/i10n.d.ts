@@ -16,9 +16,27 @@ export type FluentMessageId =
   | 'llm-action-limitations'
   | 'llm-action-methodology'
   | 'llm-action-summarize'
+  | 'llm-batch-busy'
+  | 'llm-batch-failed'
+  | 'llm-batch-no-items'
+  | 'llm-batch-no-shortcuts'
   | 'llm-context-annotations'
   | 'llm-context-has-pdf'
   | 'llm-context-notes'
+  | 'llm-extract-no-items'
+  | 'llm-group-failed'
+  | 'llm-group-selection-label'
+  | 'llm-group-too-few'
+  | 'llm-group-truncated'
+  | 'llm-menu-ask-collection'
+  | 'llm-menu-ask-selected'
+  | 'llm-menu-batch-cancel'
+  | 'llm-menu-batch-pause'
+  | 'llm-menu-batch-resume'
+  | 'llm-menu-batch-retry'
+  | 'llm-menu-batch-shortcut'
+  | 'llm-menu-extract-data'
+  | 'llm-menu-search-history'
   | 'llm-panel-context-label'
   | 'llm-panel-empty'
   | 'llm-panel-head'
@@ -14,6 +14,11 @@ declare namespace _ZoteroTypes {
       "model": string;
       "systemPrompt": string;
       "showPopupAddText": boolean;
+      "historyImageLimit": string;
+      "memoryMode": boolean;
+      "memoryProfile": string;
+      "ocrProfile": string;
+      "embeddingModel": string;
       "temperaturePrimary": string;
       "maxTokensPrimary": string;
       "temperatureSecondary": string;